@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import {
   FloppyDisk,
+  FloppyShelf,
   FloppyLabel,
   DARK_FLOPPY_THEME,
   NEON_THEME,
@@ -444,20 +445,19 @@ function App() {
           <p className="hint">Click to launch, hover to see the metal slide!</p>
 
           {viewMode === 'grid' ? (
-            <div className="grid-view">
-              {sampleDisks.map((disk) => (
-                <FloppyDisk
-                  key={disk.id}
-                  size="medium"
-                  label={disk.label}
-                  diskType={disk.diskType}
-                  theme={{
-                    enableGradient: enableGradients,
-                  }}
-                  onClick={() => handleDiskClick(disk.id)}
-                />
-              ))}
-            </div>
+            <FloppyShelf
+              className="grid-view"
+              ariaLabel="Demo collection"
+              items={sampleDisks.map((disk) => ({
+                id: String(disk.id),
+                label: disk.label,
+                diskType: disk.diskType,
+                theme: {
+                  enableGradient: enableGradients,
+                },
+                onClick: () => handleDiskClick(disk.id),
+              }))}
+            />
           ) : (
             <div className="list-view">
               {sampleDisks.map((disk) => (
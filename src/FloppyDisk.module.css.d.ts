@@ -11,21 +11,70 @@ declare const styles: {
   readonly decals: string;
   readonly arrow: string;
   readonly locks: string;
+  readonly hasWriteProtect: string;
+  readonly writeProtect: string;
+  readonly writeProtectTab: string;
+  readonly writeProtectOpen: string;
   readonly slideTrack: string;
   readonly slideBack: string;
   readonly drop: string;
   readonly slide: string;
   readonly slideDisabled: string;
+  readonly slideOpen: string;
   readonly cutout: string;
   readonly text: string;
   readonly labelSlot: string;
   readonly label: string;
   readonly lines: string;
   readonly lineText: string;
+  readonly labelField: string;
+  readonly labelFieldText: string;
+  readonly handwrittenGlyph: string;
+  readonly hasImage: string;
+  readonly imageBottom: string;
+  readonly imageIconLeft: string;
+  readonly imageContain: string;
+  readonly imageCover: string;
+  readonly labelImage: string;
+  readonly lineSizer: string;
+  readonly labelInput: string;
+  readonly editingLabel: string;
+  readonly fitLine: string;
+  readonly lineMeasure: string;
+  readonly labelLogo: string;
+  readonly ruled: string;
   readonly yearText: string;
   readonly redLine: string;
   readonly badge: string;
   readonly overlay: string;
+  readonly formFactor: string;
+  readonly formFactorBody: string;
+  readonly formFactorOutline: string;
+  readonly formFactorShutter: string;
+  readonly formFactorLabelSlot: string;
+  readonly paintShadow: string;
+  readonly paintHighlight: string;
+  readonly paintSlide: string;
+  readonly paintMedia: string;
+  readonly paintBackground: string;
+  readonly paintLabel: string;
+  readonly flippable: string;
+  readonly flipped: string;
+  readonly backFace: string;
+  readonly backShutter: string;
+  readonly backShutterWindow: string;
+  readonly hub: string;
+  readonly spindleHole: string;
+  readonly drivePinHole: string;
+  readonly writeProtectHole: string;
+  readonly writeProtectCovered: string;
+  readonly densityHole: string;
+  readonly backInfo: string;
+  readonly backDescription: string;
+  readonly backMeta: string;
+  readonly draggable: string;
+  readonly dragging: string;
+  readonly dragPreview: string;
 };
 
 export default styles;
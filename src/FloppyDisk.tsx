@@ -1,30 +1,63 @@
 import React, {
   CSSProperties,
+  useCallback,
   useRef,
   useLayoutEffect,
   useState,
   useMemo,
 } from 'react';
-import { FloppyDiskProps, SIZE_MAP, DEFAULT_THEME } from './types';
+import {
+  FloppyDiskProps,
+  FloppyLabel,
+  LabelImageFit,
+  LabelTextField,
+  SIZE_MAP,
+} from './types';
 import styles from './FloppyDisk.module.css';
-import { generateLabelGradient } from './gradientUtils';
+import { useDiskAppearance } from './useDiskAppearance';
+import { useFluidSize } from './useFluidSize';
+import { useFloppyTheme } from './FloppyThemeProvider';
+import {
+  isSchemeDependentTheme,
+  mergeFloppyTheme,
+  resolveThemeInput,
+} from './themeResolution';
+import { useColorScheme } from './useColorScheme';
+import { useControllableState } from './useControllableState';
+import { useFloppyDrag } from './useFloppyDrag';
+import {
+  DEFAULT_FORM_FACTOR,
+  FormFactorPaint,
+  FormFactorRect,
+  resolveFormFactor,
+} from './formFactors';
+import {
+  DEFAULT_LABEL_TEMPLATE,
+  LABEL_FONTS,
+  LabelTemplateSlot,
+  getTemplateFieldText,
+  resolveLabelTemplate,
+} from './labelTemplates';
+import { getHandwrittenGlyphs } from './handwriting';
+import {
+  LABEL_LINE_HEIGHT_SHARE,
+  LABEL_TEXT_FIELDS,
+  TextFitResult,
+  fitText,
+  resolveLabelFit,
+} from './textFit';
 
 // Constants for component behavior
-const FONT_SCALE_MIN = 0.4;
-const FONT_SCALE_MAX = 1.5;
-const FONT_SCALE_DEFAULT = 1;
 const LABEL_WIDTH_RATIO = 0.88;
-const BORDER_THICKNESS_DIVISOR = 200;
-const BORDER_THICKNESS_MIN = 1;
-const SIZE_WARNING_MIN = 10;
-const SIZE_WARNING_MAX = 1000;
-const COLOR_ADJUSTMENT_PERCENT = 10;
-const DEFAULT_ANIMATION_DURATION_MS = 500;
 const DISABLED_TAB_INDEX = -1;
 const ENABLED_TAB_INDEX = 0;
-const NAME_LINE_INDEX = 0;
-const AUTHOR_LINE_INDEX = 1;
-const INITIAL_FONT_SCALES = [1, 1];
+
+/**
+ * Fitted layout of a label line, for the text it was computed from
+ */
+interface LineLayout extends TextFitResult {
+  text: string;
+}
 
 // SVG constants for slide text
 const SLIDE_TYPE_VIEWBOX = '0 0 50 15';
@@ -34,154 +67,411 @@ const SLIDE_CAPACITY_VIEWBOX = '0 0 80 15';
 const SLIDE_CAPACITY_TEXT_X = '72';
 const SLIDE_CAPACITY_TEXT_Y = '12';
 
-// CSS transform constants
-const TRANSFORM_CENTER_PERCENT = '-50%';
-
-// Color manipulation constants
-const HEX_SHORT_LENGTH = 3;
-const HEX_FULL_LENGTH = 6;
-const HEX_RADIX = 16;
-const PERCENT_TO_RGB_MULTIPLIER = 2.55;
-const RGB_MAX = 255;
-const RGB_MIN = 0;
-const RGB_SHIFT_RED = 16;
-const RGB_SHIFT_GREEN = 8;
-const RGB_SHIFT_BLUE = 0;
-const HEX_PREFIX_SHIFT = 24;
+// SVG constants for registry-driven form factors (unit coordinate space)
+const FORM_FACTOR_VIEWBOX = '0 0 1 1';
+
+// CSS justify-content for each label template alignment
+const LABEL_ALIGN_JUSTIFY: Record<
+  NonNullable<LabelTemplateSlot['align']>,
+  string
+> = {
+  left: 'flex-start',
+  center: 'center',
+  right: 'flex-end',
+};
 
 /**
- * A beautiful, interactive 3.5" floppy disk React component for retro-themed UIs.
- *
- * @example
- * ```tsx
- * <FloppyDisk
- *   size="medium"
- *   label={{ name: "My App", author: "Me" }}
- *   onClick={() => console.log("clicked")}
- * />
- * ```
+ * Positions an element on a unit rectangle of its container
  */
-export const FloppyDisk: React.FC<FloppyDiskProps> = React.memo(
-  ({
-    size = 'medium',
-    label,
-    diskType = 'HD',
-    capacity,
-    theme = {},
-    animation = {},
-    variant = 'interactive',
-    selected = false,
-    disabled = false,
-    loading = false,
-    error = false,
-    enableSlideHover,
-    onClick,
-    onDoubleClick,
-    onHover,
-    onFocus,
-    className = '',
-    style,
-    'data-testid': dataTestId,
-    'data-disk-id': dataDiskId,
-    badge,
-    children,
-    ariaLabel,
-  }) => {
-    const sizeInPx = typeof size === 'number' ? size : SIZE_MAP[size];
-
-    // Default enableSlideHover based on size: true for medium and larger, false for tiny/small
-    const slideHoverEnabled =
-      enableSlideHover ??
-      (typeof size === 'string'
-        ? ['medium', 'large', 'hero'].includes(size)
-        : sizeInPx >= SIZE_MAP.medium);
-
-    // Runtime validation for custom size values
-    if (
-      typeof size === 'number' &&
-      (size < SIZE_WARNING_MIN || size > SIZE_WARNING_MAX)
-    ) {
-      console.warn(
-        `FloppyDisk: size ${size}px is outside recommended range (${SIZE_WARNING_MIN}-${SIZE_WARNING_MAX}px). This may cause rendering issues or poor performance. Consider using predefined sizes: 'tiny', 'small', 'medium', 'large', or 'hero'.`,
-      );
-    }
+const getUnitRectStyle = (rect: FormFactorRect): CSSProperties => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+/**
+ * Inline style of a label template slot
+ */
+const getLabelSlotStyle = (slot: LabelTemplateSlot): CSSProperties => ({
+  ...getUnitRectStyle(slot),
+  justifyContent: LABEL_ALIGN_JUSTIFY[slot.align || 'left'],
+  textAlign: slot.align || 'left',
+  fontFamily: slot.fontFamily || LABEL_FONTS.mono,
+  fontSize: `calc(var(--floppy-size, 200px) * ${slot.fontSize})`,
+  fontWeight: slot.fontWeight ?? 500,
+  fontStyle: slot.italic ? 'italic' : undefined,
+  textTransform: slot.uppercase ? 'uppercase' : undefined,
+  letterSpacing: slot.letterSpacing ? `${slot.letterSpacing}em` : undefined,
+  transform: slot.rotate ? `rotate(${slot.rotate}deg)` : undefined,
+  opacity: slot.opacity,
+  color: slot.inverse ? 'var(--label-color, #ffffff)' : undefined,
+});
+
+/**
+ * Splits text into jittered glyphs for handwritten label slots
+ */
+const renderHandwrittenText = (text: string, seed: string) =>
+  getHandwrittenGlyphs(text, seed).map((glyph, index) => (
+    <span
+      key={index}
+      className={styles.handwrittenGlyph}
+      style={{
+        transform: `translateY(${glyph.offsetY}em) rotate(${glyph.rotate}deg)`,
+        opacity: glyph.opacity,
+      }}
+    >
+      {glyph.char}
+    </span>
+  ));
+
+// CSS class for each form factor decal paint
+const PAINT_CLASS: Record<FormFactorPaint, string> = {
+  shadow: styles.paintShadow,
+  highlight: styles.paintHighlight,
+  slide: styles.paintSlide,
+  media: styles.paintMedia,
+  background: styles.paintBackground,
+  label: styles.paintLabel,
+};
 
-    const mergedTheme = { ...DEFAULT_THEME, ...theme };
+// CSS class for each label image fit
+const IMAGE_FIT_CLASS: Record<LabelImageFit, string> = {
+  cover: styles.imageCover,
+  contain: styles.imageContain,
+  'icon-left': styles.imageIconLeft,
+};
+const DEFAULT_IMAGE_FIT: LabelImageFit = 'contain';
 
-    // Refs for dynamic font sizing
-    const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
-    const [fontScales, setFontScales] = useState<number[]>(INITIAL_FONT_SCALES);
+// Inline label editing
+const DEFAULT_LABEL_MAX_LENGTH: Record<LabelTextField, number> = {
+  name: 40,
+  author: 40,
+  year: 10,
+};
+const EDITABLE_FIELD_LABELS: Record<LabelTextField, string> = {
+  name: 'Disk name',
+  author: 'Author',
+  year: 'Year',
+};
+const LINE_FIELDS: LabelTextField[] = ['name', 'author'];
 
-    // Calculate border thickness based on size
-    const borderThickness = Math.max(
-      BORDER_THICKNESS_MIN,
-      Math.round(sizeInPx / BORDER_THICKNESS_DIVISOR),
+type LabelDraft = Record<LabelTextField, string>;
+type EditInput = React.ElementRef<'input'>;
+
+// Forwards the root element ref so collections can move focus between disks
+const FloppyDiskBase = React.forwardRef<HTMLElement, FloppyDiskProps>(
+  (props, ref) => {
+    const floppyTheme = useFloppyTheme();
+    const {
+      size = floppyTheme.size,
+      minSize,
+      maxSize,
+      label,
+      formFactor = DEFAULT_FORM_FACTOR,
+      labelTemplate = DEFAULT_LABEL_TEMPLATE,
+      diskType = 'HD',
+      capacity,
+      theme: themeProp,
+      animation: animationProp,
+      variant = floppyTheme.variant,
+      selected = false,
+      disabled = false,
+      loading = false,
+      error = false,
+      enableSlideHover,
+      slideOpen,
+      defaultSlideOpen = false,
+      onSlideOpenChange,
+      side,
+      defaultSide = 'front',
+      flippable = false,
+      onSideChange,
+      writeProtected,
+      defaultWriteProtected,
+      onWriteProtectChange,
+      editable = false,
+      onLabelChange,
+      labelMaxLength,
+      labelFit,
+      draggable = false,
+      dragData,
+      onDragStart,
+      onDragEnd,
+      onClick,
+      onDoubleClick,
+      onHover,
+      onFocus,
+      className = '',
+      style,
+      'data-testid': dataTestId,
+      'data-disk-id': dataDiskId,
+      badge,
+      children,
+      ariaLabel,
+      tabIndex,
+      role = 'button',
+      'aria-selected': ariaSelected,
+      'aria-posinset': ariaPosInSet,
+      'aria-setsize': ariaSetSize,
+    } = props;
+
+    const formFactorDefinition = useMemo(
+      () => resolveFormFactor(formFactor),
+      [formFactor],
     );
+    // The 3.5" disk is drawn with native markup; other form factors are
+    // drawn from their registry geometry
+    const isNativeFormFactor = formFactorDefinition.id === DEFAULT_FORM_FACTOR;
 
-    // Generate gradient if enabled (memoized for performance)
-    const gradientConfig = useMemo(() => {
-      if (mergedTheme.enableGradient && label?.name) {
-        return generateLabelGradient(
-          label.name,
-          mergedTheme.gradientType || 'auto',
-          mergedTheme.gradientOptions,
-        );
-      }
-      return null;
-    }, [
-      mergedTheme.enableGradient,
-      mergedTheme.gradientType,
-      mergedTheme.gradientOptions,
+    const labelTemplateDefinition = useMemo(
+      () => resolveLabelTemplate(labelTemplate),
+      [labelTemplate],
+    );
+    // The classic label keeps its native markup and text fitting
+    const isClassicLabel =
+      labelTemplateDefinition.id === DEFAULT_LABEL_TEMPLATE;
+
+    const rootRef = useRef<HTMLElement | null>(null);
+    const colorScheme = useColorScheme(
+      rootRef,
+      isSchemeDependentTheme(themeProp),
+    );
+
+    // Props on the disk win over the nearest FloppyThemeProvider
+    const theme = useMemo(
+      () =>
+        mergeFloppyTheme(
+          floppyTheme.theme,
+          resolveThemeInput(themeProp, colorScheme),
+        ),
+      [floppyTheme.theme, themeProp, colorScheme],
+    );
+    const animation = useMemo(
+      () => ({ ...floppyTheme.animation, ...animationProp }),
+      [floppyTheme.animation, animationProp],
+    );
+
+    const fluidSize = useFluidSize({
+      enabled: size === 'fluid',
+      elementRef: rootRef,
+      minSize,
+      maxSize,
+      aspectRatio: formFactorDefinition.aspectRatio,
+    });
+
+    const { sizeInPx, heightInPx, cssVariables } = useDiskAppearance({
+      componentName: 'FloppyDisk',
+      size,
+      fluidSize,
       label,
-    ]);
-
-    const cssVariables: CSSProperties = {
-      '--floppy-size': `${sizeInPx}px`,
-      '--floppy-border': `${borderThickness}px`,
-      '--floppy-color': mergedTheme.diskColor,
-      '--floppy-highlight': lightenColor(
-        mergedTheme.diskColor || DEFAULT_THEME.diskColor!,
-        COLOR_ADJUSTMENT_PERCENT,
-      ),
-      '--floppy-shadow': darkenColor(
-        mergedTheme.diskColor || DEFAULT_THEME.diskColor!,
-        COLOR_ADJUSTMENT_PERCENT,
-      ),
-      '--slide-color': mergedTheme.slideColor,
-      '--bg-color': mergedTheme.backgroundColor,
-      '--label-color': gradientConfig
-        ? gradientConfig.gradient
-        : mergedTheme.labelColor,
-      '--label-text-color': gradientConfig
-        ? gradientConfig.textColor
-        : mergedTheme.labelTextColor,
-      '--label-text-shadow': gradientConfig
-        ? gradientConfig.textShadow
-        : 'none',
-      '--animation-duration': animation.disableAnimations
-        ? '0ms'
-        : `${animation.hoverDuration || DEFAULT_ANIMATION_DURATION_MS}ms`,
-      '--animation-easing': animation.easing || 'linear',
-    } as CSSProperties;
+      theme,
+      animation,
+      aspectRatio: formFactorDefinition.aspectRatio,
+    });
+
+    // Default enableSlideHover based on size: true for medium and larger, false
+    // for tiny/small (fluid disks follow their measured size)
+    const slideHoverEnabled = enableSlideHover ?? sizeInPx >= SIZE_MAP.medium;
+
+    const [currentSide, setSide] = useControllableState(
+      side,
+      defaultSide,
+      onSideChange,
+    );
+    const isBack = currentSide === 'back';
+
+    const [isSlideOpen, setSlideOpen] = useControllableState(
+      slideOpen,
+      defaultSlideOpen,
+      onSlideOpenChange,
+    );
+    // Set on touchmove so scroll gestures ending on the slide don't toggle it
+    const slideTouchMovedRef = useRef(false);
+
+    // Inline label editing: while editing, the draft replaces the label text
+    // and the text fitting below follows it as the user types
+    const [labelDraft, setLabelDraft] = useState<LabelDraft | null>(null);
+    const canEditLabel = editable && !disabled && isClassicLabel && !isBack;
+    const isEditing = labelDraft !== null && canEditLabel;
+    // Set synchronously so the blur caused by Enter/Escape does not save twice
+    const isEditingRef = useRef(false);
+    const editStartFieldRef = useRef<LabelTextField>('name');
+    const editInputRefs = useRef<
+      Partial<Record<LabelTextField, EditInput | null>>
+    >({});
+
+    const setRootRef = useCallback(
+      (element: HTMLElement | null) => {
+        rootRef.current = element;
+        if (typeof ref === 'function') ref(element);
+        else if (ref) ref.current = element;
+      },
+      [ref],
+    );
+
+    const dragPayload = useMemo(
+      () => ({ diskId: dataDiskId, label, data: dragData }),
+      [dataDiskId, label, dragData],
+    );
+    const {
+      isDragging,
+      isPickedUp,
+      dragProps,
+      handleDragKeyDown,
+      consumeDragClick,
+    } = useFloppyDrag({
+      enabled: draggable && !isEditing,
+      disabled,
+      payload: dragPayload,
+      previewClassName: styles.dragPreview,
+      onDragStart,
+      onDragEnd,
+    });
+
+    // The write-protect tab is only interactive when the app opts in
+    const hasWriteProtectSwitch =
+      writeProtected !== undefined ||
+      defaultWriteProtected !== undefined ||
+      onWriteProtectChange !== undefined;
+    const [isWriteProtected, setWriteProtected] = useControllableState(
+      writeProtected,
+      defaultWriteProtected ?? false,
+      onWriteProtectChange,
+    );
+
+    // Refs and state for label text fitting
+    const linesRef = useRef<HTMLDivElement | null>(null);
+    const lineRefs = useRef<
+      Partial<Record<LabelTextField, HTMLElement | null>>
+    >({});
+    const measureRefs = useRef<
+      Partial<Record<LabelTextField, HTMLElement | null>>
+    >({});
+    const [lineLayouts, setLineLayouts] = useState<
+      Partial<Record<LabelTextField, LineLayout>>
+    >({});
+    // Bumped to refit when the label area resizes or web fonts load
+    const [fitRevision, setFitRevision] = useState(0);
+    const fittedSizeRef = useRef({ width: 0, height: 0 });
+    const labelFitKey = JSON.stringify(labelFit ?? null);
+    const lineFits = useMemo(
+      // Keyed by value so inline labelFit objects do not refit on every render
+      () => resolveLabelFit(JSON.parse(labelFitKey) ?? undefined),
+      [labelFitKey],
+    );
+
+    // Label font sizes of registry form factors follow the label area height
+    const formFactorVariables = (
+      isNativeFormFactor
+        ? {}
+        : {
+            '--floppy-label-height': `${formFactorDefinition.labelBounds.height * heightInPx}px`,
+          }
+    ) as CSSProperties;
 
     const containerClasses = [
       styles.silhouette,
+      !isNativeFormFactor && styles.formFactor,
       variant === 'compact' && styles.compact,
       selected && styles.selected,
       disabled && styles.disabled,
       loading && styles.loading,
       error && styles.error,
       variant === 'static' && styles.static,
+      flippable && styles.flippable,
+      isBack && styles.flipped,
+      draggable && !disabled && styles.draggable,
+      isDragging && styles.dragging,
       className,
     ]
       .filter(Boolean)
       .join(' ');
 
-    const handleClick = () => {
-      if (!disabled && onClick) onClick();
+    // Collections (e.g. FloppyShelf) pass tabIndex to manage a single tab stop
+    const resolvedTabIndex =
+      tabIndex ?? (disabled ? DISABLED_TAB_INDEX : ENABLED_TAB_INDEX);
+    // Children of a button are presentational, which would hide the
+    // write-protect switch from assistive technology
+    const resolvedRole =
+      hasWriteProtectSwitch && role === 'button' ? 'group' : role;
+    // Inside a roving collection the disk is the only tab stop (W toggles the
+    // switch), and options may not contain interactive elements at all
+    const writeProtectTabIndex =
+      tabIndex === undefined && role === 'button'
+        ? resolvedTabIndex
+        : DISABLED_TAB_INDEX;
+    const isWriteProtectHidden = role === 'option';
+
+    const handleClick: React.MouseEventHandler<HTMLElement> = (event) => {
+      // The browser fires a click when a touch drag is released
+      if (consumeDragClick()) return;
+      if (!disabled && onClick) onClick(event);
+    };
+
+    const startEditing = (field: LabelTextField = 'name') => {
+      isEditingRef.current = true;
+      editStartFieldRef.current = field;
+      setLabelDraft({
+        name: label?.name || '',
+        author: label?.author || '',
+        year: label?.year || '',
+      });
     };
 
-    const handleDoubleClick = () => {
+    const finishEditing = (save: boolean) => {
+      if (!isEditingRef.current || !labelDraft) return;
+      isEditingRef.current = false;
+      setLabelDraft(null);
+      if (!save || !onLabelChange) return;
+
+      // An empty name keeps the previous one; empty author and year are removed
+      const name = labelDraft.name.trim() || label?.name || '';
+      const author = labelDraft.author.trim();
+      const year = labelDraft.year.trim();
+      if (
+        name === (label?.name || '') &&
+        author === (label?.author || '') &&
+        year === (label?.year || '')
+      ) {
+        return;
+      }
+
+      const nextLabel: FloppyLabel = {
+        ...label,
+        name,
+        author: author || undefined,
+        year: year || undefined,
+      };
+      onLabelChange(nextLabel);
+    };
+
+    // Focus the field that was double-clicked (or the name) once it mounts
+    useLayoutEffect(() => {
+      if (!isEditing) return;
+      const input =
+        editInputRefs.current[editStartFieldRef.current] ||
+        editInputRefs.current.name;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    }, [isEditing]);
+
+    const handleDoubleClick: React.MouseEventHandler<HTMLElement> = (event) => {
+      if (canEditLabel) {
+        const fieldElement =
+          event.target instanceof window.Element
+            ? event.target.closest('[data-label-field]')
+            : null;
+        startEditing(
+          (fieldElement?.getAttribute('data-label-field') as
+            | LabelTextField
+            | null
+            | undefined) || 'name',
+        );
+        return;
+      }
       if (!disabled && onDoubleClick) onDoubleClick();
     };
 
@@ -203,10 +493,32 @@ export const FloppyDisk: React.FC<FloppyDiskProps> = React.memo(
 
     const handleKeyDown: React.KeyboardEventHandler<HTMLElement> = (event) => {
       if (disabled) return;
+      if (handleDragKeyDown(event)) return;
+
+      if (canEditLabel && (event.key === 'F2' || event.key === 'Enter')) {
+        event.preventDefault();
+        startEditing();
+        return;
+      }
 
       if (event.key === 'Enter') {
         event.preventDefault();
-        if (onClick) onClick();
+        if (onClick) onClick(event);
+      }
+
+      if (event.key === 'o' || event.key === 'O') {
+        event.preventDefault();
+        setSlideOpen(!isSlideOpen);
+      }
+
+      if (hasWriteProtectSwitch && (event.key === 'w' || event.key === 'W')) {
+        event.preventDefault();
+        toggleWriteProtect();
+      }
+
+      if (flippable && (event.key === 'f' || event.key === 'F')) {
+        event.preventDefault();
+        setSide(isBack ? 'front' : 'back');
       }
 
       // Prevent scrolling on space, but activate on keyup (native button behavior)
@@ -220,124 +532,483 @@ export const FloppyDisk: React.FC<FloppyDiskProps> = React.memo(
 
       if (event.key === ' ') {
         event.preventDefault();
-        if (onClick) onClick();
+        if (onClick) onClick(event);
+      }
+    };
+
+    const handleSlideMouseEnter = () => {
+      if (!disabled && slideHoverEnabled) setSlideOpen(true);
+    };
+
+    const handleSlideMouseLeave = () => {
+      if (!disabled && slideHoverEnabled) setSlideOpen(false);
+    };
+
+    const handleSlideTouchStart = () => {
+      slideTouchMovedRef.current = false;
+    };
+
+    const handleSlideTouchMove = () => {
+      slideTouchMovedRef.current = true;
+    };
+
+    // A tap toggles the slide; preventDefault suppresses the emulated
+    // mouseenter/click that would otherwise reopen it or activate the disk
+    const handleSlideTouchEnd: React.TouchEventHandler<HTMLElement> = (
+      event,
+    ) => {
+      if (disabled || slideTouchMovedRef.current) return;
+      event.preventDefault();
+      setSlideOpen(!isSlideOpen);
+    };
+
+    const toggleWriteProtect = () => {
+      if (!disabled) setWriteProtected(!isWriteProtected);
+    };
+
+    // The switch sits inside the disk, so its events must not activate the disk
+    const handleWriteProtectClick: React.MouseEventHandler<HTMLElement> = (
+      event,
+    ) => {
+      event.stopPropagation();
+      toggleWriteProtect();
+    };
+
+    const handleWriteProtectDoubleClick: React.MouseEventHandler<
+      HTMLElement
+    > = (event) => {
+      event.stopPropagation();
+    };
+
+    const handleWriteProtectKeyDown: React.KeyboardEventHandler<HTMLElement> = (
+      event,
+    ) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        event.stopPropagation();
+        toggleWriteProtect();
+      }
+
+      if (event.key === ' ') {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    const handleWriteProtectKeyUp: React.KeyboardEventHandler<HTMLElement> = (
+      event,
+    ) => {
+      if (event.key === ' ') {
+        event.preventDefault();
+        event.stopPropagation();
+        toggleWriteProtect();
       }
     };
 
+    // The edit fields sit inside the disk, so their events must not activate it
+    const handleEditInputKeyDown: React.KeyboardEventHandler<EditInput> = (
+      event,
+    ) => {
+      event.stopPropagation();
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        event.preventDefault();
+        finishEditing(event.key === 'Enter');
+        if (rootRef.current) rootRef.current.focus();
+      }
+    };
+
+    const stopEditInputPropagation = (event: React.SyntheticEvent) => {
+      event.stopPropagation();
+    };
+
+    // Moving focus to another field keeps editing; anywhere else saves
+    const handleEditInputBlur: React.FocusEventHandler<EditInput> = (event) => {
+      const fields = Object.keys(editInputRefs.current) as LabelTextField[];
+      if (
+        fields.some(
+          (field) => editInputRefs.current[field] === event.relatedTarget,
+        )
+      ) {
+        return;
+      }
+      finishEditing(true);
+    };
+
+    const renderEditInput = (field: LabelTextField) => {
+      const value = labelDraft?.[field] || '';
+      const maxLength =
+        labelMaxLength?.[field] ?? DEFAULT_LABEL_MAX_LENGTH[field];
+      return (
+        <>
+          {/* Invisible copy of the text that gives the line its width */}
+          <span className={styles.lineSizer} aria-hidden="true">
+            {value}
+          </span>
+          <input
+            ref={(element) => {
+              editInputRefs.current[field] = element;
+            }}
+            className={styles.labelInput}
+            type="text"
+            value={value}
+            maxLength={maxLength}
+            aria-label={EDITABLE_FIELD_LABELS[field]}
+            spellCheck={false}
+            autoComplete="off"
+            onChange={(event) => {
+              const nextValue = event.target.value.slice(0, maxLength);
+              setLabelDraft(
+                (draft) => draft && { ...draft, [field]: nextValue },
+              );
+            }}
+            onKeyDown={handleEditInputKeyDown}
+            onKeyUp={stopEditInputPropagation}
+            onClick={stopEditInputPropagation}
+            onDoubleClick={stopEditInputPropagation}
+            onBlur={handleEditInputBlur}
+          />
+        </>
+      );
+    };
+
     // Format label data into display lines (memoized to prevent unnecessary re-renders)
     const labelLines = useMemo(() => {
       const lines: string[] = [];
-      if (label) {
+      const source = isEditing ? labelDraft : label;
+      if (source) {
         // Line 1: Name
-        lines.push(label.name || '');
+        lines.push(source.name || '');
         // Line 2: Author
-        lines.push(label.author || '');
+        lines.push(source.author || '');
       } else {
         // Default empty lines
         lines.push('', '');
       }
       return lines;
-    }, [label]);
+    }, [label, labelDraft, isEditing]);
 
-    const yearText = label?.year || '';
+    const yearText = (isEditing ? labelDraft?.year : label?.year) || '';
+
+    // Label image: URLs become <img> elements and switch to the fallback (or
+    // the text-only layout) when they fail to load
+    const [failedImageSrc, setFailedImageSrc] = useState<string | null>(null);
+    const labelImageSource = isClassicLabel ? label?.image : undefined;
+    let labelImage: React.ReactNode = labelImageSource;
+    if (typeof labelImageSource === 'string') {
+      labelImage =
+        failedImageSrc === labelImageSource ? (
+          label?.imageFallback
+        ) : (
+          <img
+            src={labelImageSource}
+            alt={label?.imageAlt || ''}
+            draggable={false}
+            onError={() => setFailedImageSrc(labelImageSource)}
+          />
+        );
+    }
+    const labelImageFit: LabelImageFit | undefined = labelImage
+      ? label?.imageFit || DEFAULT_IMAGE_FIT
+      : undefined;
 
     // Use capacity from props, or fall back to label.size, or default
     const displayCapacity = capacity || label?.size || '1.44 MB';
     const displayType = label?.type || (diskType === 'HD' ? 'ZIP' : 'DISK');
 
-    const accessibleLabel =
+    const baseAccessibleLabel =
       ariaLabel ||
-      (label ? `${label.name} by ${label.author || 'Unknown'}` : 'Floppy disk');
+      (label
+        ? `${label.name} by ${label.author || 'Unknown'}`
+        : isNativeFormFactor
+          ? 'Floppy disk'
+          : formFactorDefinition.name);
+    const accessibleLabel = [
+      baseAccessibleLabel,
+      isBack && '(back side)',
+      isPickedUp && '(picked up)',
+      isWriteProtectHidden && isWriteProtected && '(write-protected)',
+    ]
+      .filter(Boolean)
+      .join(' ');
 
     /**
-     * Dynamic Font Scaling Algorithm
-     *
-     * This effect implements an adaptive font scaling system that automatically
-     * adjusts text size to fit within the label area while maintaining readability.
+     * Label Text Fitting
      *
-     * Algorithm Overview:
-     * 1. Measure the natural (unscaled) width of each text line
-     * 2. Compare against available container width (with padding)
-     * 3. Calculate optimal scale factor to fit text within bounds
-     * 4. Clamp scale between min (0.4) and max (1.5) for readability
+     * Fits the name, author and year lines of the classic label into the label
+     * area with the text fitting engine (textFit.ts), following each line's
+     * `labelFit` policy:
+     * - 'fit' binary-searches the largest font scale (down to `minScale`) at
+     *   which the line fits, then truncates with an ellipsis
+     * - 'wrap' does the same while wrapping onto up to `maxLines` lines
+     * - 'ellipsis' truncates at the natural size; 'none' leaves the text alone
      *
      * Key Design Decisions:
-     * - Only scales the NAME field (index 0) to prevent author text from becoming too small
-     * - Uses scaleX transform instead of font-size for smoother rendering
-     * - Temporarily removes transforms during measurement for accurate dimensions
+     * - Scales the font size (--line-fit-scale) rather than a scaleX transform,
+     *   so glyphs keep their proportions
+     * - Measures with a hidden copy of the text inside each line (same font
+     *   styles), divided by the scale currently applied to get natural widths
+     * - Width comes from the .lines container, so a label image ('icon-left'
+     *   narrows it, 'contain' shrinks the text via --label-text-scale) reduces
+     *   the text area; each line may use a share of its height
      * - Uses useLayoutEffect to prevent flash of unstyled content (FOUC)
-     * - Recalculates on labelLines or sizeInPx changes for responsiveness
-     *
-     * Scale Bounds:
-     * - MIN (0.4): Prevents text from becoming unreadable when compressed
-     * - MAX (1.5): Prevents excessive expansion that looks distorted
-     * - DEFAULT (1.0): Natural size when no scaling needed
+     * - Re-runs while typing in editable mode, since the draft feeds labelLines
+     * - An unmeasured (zero-width) label keeps the natural text
      *
      * @see LABEL_WIDTH_RATIO (0.88) - Reserves 12% padding for visual breathing room
      */
     useLayoutEffect(() => {
-      const calculateScales = () => {
-        const newScales: number[] = [];
-
-        lineRefs.current.forEach((lineRef, index) => {
-          if (lineRef && labelLines[index]) {
-            // Only apply dynamic scaling to the name field (index 0)
-            // Author field (index 1) should display at natural size to maintain hierarchy
-            if (index !== NAME_LINE_INDEX) {
-              newScales[index] = FONT_SCALE_DEFAULT;
-              return;
-            }
-
-            // Get the actual container width (the .lines element)
-            const linesContainer = lineRef.parentElement;
-            if (!linesContainer) {
-              newScales[index] = FONT_SCALE_DEFAULT;
-              return;
-            }
-
-            // Temporarily remove transform to get true text width
-            // This is necessary because transforms affect offsetWidth/scrollWidth measurements
-            const originalTransform = lineRef.style.transform;
-            lineRef.style.transform = 'none';
-
-            // Measure dimensions
-            const containerWidth = linesContainer.offsetWidth; // Available space
-            const textWidth = lineRef.scrollWidth; // Natural text width
-
-            // Restore transform immediately to prevent visual flicker
-            lineRef.style.transform = originalTransform;
-
-            // Calculate scale factor with padding
-            // LABEL_WIDTH_RATIO (0.88) reserves 12% for padding on both sides
-            const availableWidth = containerWidth * LABEL_WIDTH_RATIO;
-            const scale = availableWidth / textWidth;
-
-            // Clamp scale to maintain readability and prevent distortion
-            // - If text is too wide: compress down to FONT_SCALE_MIN (0.4)
-            // - If text is narrow: allow expansion up to FONT_SCALE_MAX (1.5)
-            // - If text fits naturally: use calculated scale (likely close to 1.0)
-            newScales[index] = Math.max(
-              FONT_SCALE_MIN,
-              Math.min(FONT_SCALE_MAX, scale),
-            );
-          } else {
-            // Fallback for missing refs or empty lines
-            newScales[index] = FONT_SCALE_DEFAULT;
-          }
-        });
+      const linesContainer = linesRef.current;
+      if (!linesContainer) return;
+
+      const texts: Record<LabelTextField, string> = {
+        name: labelLines[0],
+        author: labelLines[1],
+        year: yearText,
+      };
+      const { clientWidth, clientHeight } = linesContainer;
+      fittedSizeRef.current = { width: clientWidth, height: clientHeight };
+      const maxWidth = clientWidth * LABEL_WIDTH_RATIO;
+      const areaHeight = clientHeight || Infinity;
+
+      const nextLayouts: Partial<Record<LabelTextField, LineLayout>> = {};
+      LABEL_TEXT_FIELDS.forEach((field) => {
+        const text = texts[field];
+        const lineElement = lineRefs.current[field];
+        const measureElement = measureRefs.current[field];
+        if (!text || !lineElement || !measureElement) return;
+
+        const currentScale =
+          parseFloat(lineElement.style.getPropertyValue('--line-fit-scale')) ||
+          1;
+        const measure = (value: string) => {
+          measureElement.textContent = value;
+          return measureElement.offsetWidth / currentScale;
+        };
+        measureElement.textContent = text;
+        const lineHeight = measureElement.offsetHeight / currentScale;
+
+        const { policy, maxLines, minScale } = lineFits[field];
+        nextLayouts[field] = {
+          text,
+          ...fitText(text, {
+            policy,
+            maxLines,
+            minScale,
+            maxWidth,
+            maxHeight: areaHeight * LABEL_LINE_HEIGHT_SHARE[field],
+            lineHeight,
+            measure,
+          }),
+        };
+        measureElement.textContent = '';
+      });
+
+      // Only update when a layout changed, as setting state re-runs the render
+      setLineLayouts((previous) =>
+        JSON.stringify(previous) === JSON.stringify(nextLayouts)
+          ? previous
+          : nextLayouts,
+      );
+    }, [
+      labelLines,
+      yearText,
+      lineFits,
+      sizeInPx,
+      formFactorDefinition,
+      labelImageFit,
+      fitRevision,
+    ]); // Refit when text content, fitting rules, disk size or label area change
+
+    /**
+     * Label Refitting
+     *
+     * Props alone do not cover every change of the measurements, so the label
+     * text is also refitted when:
+     * - the .lines element changes size, e.g. in a CSS-resized container, or
+     *   when a disk that mounted inside a display:none panel (zero size, left
+     *   at its natural text) is shown
+     * - web fonts finish loading, since fallback fonts measure differently
+     *
+     * Resizes are compared with the size of the last fit, so the observer's
+     * initial callback and font-size changes inside the lines do not refit.
+     * Falls back to window resize events without ResizeObserver.
+     */
+    useLayoutEffect(() => {
+      const linesContainer = linesRef.current;
+      if (!linesContainer) return undefined;
+
+      let isMounted = true;
+      const refit = () => {
+        if (isMounted) setFitRevision((revision) => revision + 1);
+      };
+      const refitIfResized = () => {
+        const { width, height } = fittedSizeRef.current;
+        if (
+          linesContainer.clientWidth !== width ||
+          linesContainer.clientHeight !== height
+        ) {
+          refit();
+        }
+      };
 
-        setFontScales(newScales);
+      // Font Loading API; missing in some test environments
+      const fonts = document.fonts as typeof document.fonts | undefined;
+      if (fonts) {
+        if (fonts.status === 'loading') fonts.ready.then(refit, () => {});
+        fonts.addEventListener('loadingdone', refit);
+      }
+
+      const ResizeObserverClass = window.ResizeObserver;
+      const observer =
+        typeof ResizeObserverClass === 'function'
+          ? new ResizeObserverClass(refitIfResized)
+          : null;
+      if (observer) observer.observe(linesContainer);
+      else window.addEventListener('resize', refitIfResized);
+
+      return () => {
+        isMounted = false;
+        if (fonts) fonts.removeEventListener('loadingdone', refit);
+        if (observer) observer.disconnect();
+        else window.removeEventListener('resize', refitIfResized);
+      };
+    }, [isClassicLabel, formFactorDefinition]); // The .lines element remounts when these change
+
+    /**
+     * Inline style and content of a fitted label line
+     */
+    const getFittedLine = (field: LabelTextField, text: string) => {
+      const layout = lineLayouts[field];
+      const fitted = layout && layout.text === text ? layout : undefined;
+      const lines = fitted ? fitted.lines : [text];
+      return {
+        style: {
+          '--line-fit-scale': fitted ? fitted.scale : 1,
+        } as CSSProperties,
+        content:
+          lines.length > 1
+            ? lines.map((line, index) => (
+                <span key={index} className={styles.fitLine}>
+                  {line}
+                </span>
+              ))
+            : lines[0],
+        isTruncated: !!fitted?.truncated,
       };
+    };
+
+    const renderMeasure = (field: LabelTextField) => (
+      <span
+        ref={(element) => {
+          measureRefs.current[field] = element;
+        }}
+        className={styles.lineMeasure}
+        aria-hidden="true"
+      />
+    );
+
+    const templateLabelContent = !isClassicLabel && (
+      <div
+        className={[
+          styles.label,
+          labelTemplateDefinition.ruledLines && styles.ruled,
+        ]
+          .filter(Boolean)
+          .join(' ')}
+        style={
+          labelTemplateDefinition.ruledLines
+            ? ({
+                '--label-rule-count': labelTemplateDefinition.ruledLines,
+              } as CSSProperties)
+            : undefined
+        }
+        data-label-template={labelTemplateDefinition.id}
+      >
+        {labelTemplateDefinition.logoArea && (
+          <div
+            className={styles.labelLogo}
+            style={getUnitRectStyle(labelTemplateDefinition.logoArea)}
+          />
+        )}
+        {labelTemplateDefinition.slots.map((slot, index) => {
+          const text = getTemplateFieldText(label, slot.field, {
+            type: displayType,
+            size: displayCapacity,
+          });
+          if (!text) return null;
+          return (
+            <div
+              key={index}
+              className={styles.labelField}
+              style={getLabelSlotStyle(slot)}
+              data-field={slot.field}
+            >
+              <span className={styles.labelFieldText}>
+                {slot.handwriting
+                  ? renderHandwrittenText(
+                      text,
+                      `${label?.name ?? ''}:${slot.field}`,
+                    )
+                  : text}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
 
-      // Calculate synchronously before paint to prevent FOUC
-      // useLayoutEffect ensures this runs before browser paint
-      calculateScales();
-    }, [labelLines, sizeInPx]); // Recalculate when text content or disk size changes
+    const renderLine = (field: LabelTextField, text: string) => {
+      const { style, content, isTruncated } = getFittedLine(field, text);
+      return (
+        <div
+          key={field}
+          ref={(element) => {
+            lineRefs.current[field] = element;
+          }}
+          className={field === 'year' ? styles.yearText : styles.lineText}
+          style={style}
+          data-label-field={field}
+          data-truncated={isTruncated || undefined}
+        >
+          {isEditing ? renderEditInput(field) : content}
+          {renderMeasure(field)}
+        </div>
+      );
+    };
+
+    const yearContent = (yearText || isEditing) && renderLine('year', yearText);
+
+    const labelContent = templateLabelContent || (
+      <div
+        className={[
+          styles.label,
+          labelImageFit && styles.hasImage,
+          labelImageFit && IMAGE_FIT_CLASS[labelImageFit],
+          labelImageFit === 'contain' &&
+            label?.imagePosition === 'bottom' &&
+            styles.imageBottom,
+          isEditing && styles.editingLabel,
+        ]
+          .filter(Boolean)
+          .join(' ')}
+        data-image-fit={labelImageFit}
+      >
+        {labelImageFit && <div className={styles.labelImage}>{labelImage}</div>}
+        <div ref={linesRef} className={styles.lines}>
+          {LINE_FIELDS.map((field, index) =>
+            renderLine(field, labelLines[index]),
+          )}
+          {/* With an image, the year stays in the (smaller) text area */}
+          {labelImageFit && yearContent}
+        </div>
+        {!labelImageFit && yearContent}
+      </div>
+    );
 
     return (
       <figure
         className={containerClasses}
-        style={{ ...cssVariables, ...style }}
+        style={{ ...cssVariables, ...formFactorVariables, ...style }}
         onClick={handleClick}
         onDoubleClick={handleDoubleClick}
         onMouseEnter={handleMouseEnter}
@@ -346,98 +1017,158 @@ export const FloppyDisk: React.FC<FloppyDiskProps> = React.memo(
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
         onKeyUp={handleKeyUp}
-        tabIndex={disabled ? DISABLED_TAB_INDEX : ENABLED_TAB_INDEX}
-        role="button"
+        ref={setRootRef}
+        tabIndex={resolvedTabIndex}
+        role={resolvedRole}
+        aria-selected={ariaSelected}
+        aria-posinset={ariaPosInSet}
+        aria-setsize={ariaSetSize}
         aria-label={accessibleLabel}
         aria-disabled={disabled}
         data-testid={dataTestId}
         data-disk-id={dataDiskId}
+        {...dragProps}
       >
-        <div className={styles.decals}>
-          <div className={styles.arrow} />
-          <div className={styles.locks} />
-        </div>
-
-        <div className={styles.slideTrack}>
-          <div className={styles.slideBack}>
-            <div className={styles.drop} />
-          </div>
-          <div
-            className={`${styles.slide} ${!slideHoverEnabled ? styles.slideDisabled : ''}`}
-          >
-            <div className={styles.cutout} />
-            <div className={styles.text}>
-              <svg
-                viewBox={SLIDE_TYPE_VIEWBOX}
-                preserveAspectRatio="xMaxYMid meet"
-              >
-                <text
-                  x={SLIDE_TYPE_TEXT_X}
-                  y={SLIDE_TYPE_TEXT_Y}
-                  textAnchor="end"
+        {isNativeFormFactor ? (
+          <>
+            <div
+              className={`${styles.decals} ${hasWriteProtectSwitch ? styles.hasWriteProtect : ''}`}
+            >
+              <div className={styles.arrow} />
+              <div className={styles.locks} />
+              {hasWriteProtectSwitch && (
+                <span
+                  className={`${styles.writeProtect} ${isWriteProtected ? styles.writeProtectOpen : ''}`}
+                  role="switch"
+                  aria-checked={isWriteProtected}
+                  aria-label="Write protection"
+                  aria-disabled={disabled}
+                  aria-hidden={isWriteProtectHidden || undefined}
+                  tabIndex={writeProtectTabIndex}
+                  onClick={handleWriteProtectClick}
+                  onDoubleClick={handleWriteProtectDoubleClick}
+                  onKeyDown={handleWriteProtectKeyDown}
+                  onKeyUp={handleWriteProtectKeyUp}
                 >
-                  {displayType}
-                </text>
-              </svg>
-              <svg
-                viewBox={SLIDE_CAPACITY_VIEWBOX}
-                preserveAspectRatio="xMaxYMid meet"
-              >
-                <text
-                  x={SLIDE_CAPACITY_TEXT_X}
-                  y={SLIDE_CAPACITY_TEXT_Y}
-                  textAnchor="end"
-                >
-                  {displayCapacity}
-                </text>
-              </svg>
+                  <span className={styles.writeProtectTab} />
+                </span>
+              )}
             </div>
-          </div>
-        </div>
 
-        <div className={styles.labelSlot}>
-          <div className={styles.label}>
-            <div className={styles.lines}>
-              {labelLines.map((line, index) => {
-                // Name field (index 0) needs translate for centering + scale
-                // Author field (index 1) needs translateX for horizontal centering only
-                const isName = index === NAME_LINE_INDEX;
-                const isAuthor = index === AUTHOR_LINE_INDEX;
-
-                let transform: string;
-                let transformOrigin: string;
-
-                if (isName) {
-                  transform = `translate(${TRANSFORM_CENTER_PERCENT}, ${TRANSFORM_CENTER_PERCENT}) scaleX(${fontScales[index]})`;
-                  transformOrigin = 'center center';
-                } else if (isAuthor) {
-                  transform = `translateX(${TRANSFORM_CENTER_PERCENT})`;
-                  transformOrigin = 'center center';
-                } else {
-                  transform = `scaleX(${fontScales[index]})`;
-                  transformOrigin = 'center center';
-                }
-
-                return (
-                  <div
-                    key={index}
-                    ref={(el) => {
-                      lineRefs.current[index] = el;
-                    }}
-                    className={styles.lineText}
-                    style={{
-                      transform,
-                      transformOrigin,
-                    }}
+            <div className={styles.slideTrack}>
+              <div className={styles.slideBack}>
+                <div className={styles.drop} />
+              </div>
+              <div
+                className={`${styles.slide} ${!slideHoverEnabled ? styles.slideDisabled : ''} ${isSlideOpen ? styles.slideOpen : ''}`}
+                onMouseEnter={handleSlideMouseEnter}
+                onMouseLeave={handleSlideMouseLeave}
+                onTouchStart={handleSlideTouchStart}
+                onTouchMove={handleSlideTouchMove}
+                onTouchEnd={handleSlideTouchEnd}
+              >
+                <div className={styles.cutout} />
+                <div className={styles.text}>
+                  <svg
+                    viewBox={SLIDE_TYPE_VIEWBOX}
+                    preserveAspectRatio="xMaxYMid meet"
+                  >
+                    <text
+                      x={SLIDE_TYPE_TEXT_X}
+                      y={SLIDE_TYPE_TEXT_Y}
+                      textAnchor="end"
+                    >
+                      {displayType}
+                    </text>
+                  </svg>
+                  <svg
+                    viewBox={SLIDE_CAPACITY_VIEWBOX}
+                    preserveAspectRatio="xMaxYMid meet"
                   >
-                    {line}
-                  </div>
-                );
-              })}
+                    <text
+                      x={SLIDE_CAPACITY_TEXT_X}
+                      y={SLIDE_CAPACITY_TEXT_Y}
+                      textAnchor="end"
+                    >
+                      {displayCapacity}
+                    </text>
+                  </svg>
+                </div>
+              </div>
+            </div>
+
+            <div className={styles.labelSlot}>{labelContent}</div>
+          </>
+        ) : (
+          <>
+            <svg
+              className={styles.formFactorBody}
+              viewBox={FORM_FACTOR_VIEWBOX}
+              preserveAspectRatio="none"
+              aria-hidden="true"
+            >
+              <path
+                className={styles.formFactorOutline}
+                d={formFactorDefinition.outline}
+              />
+              {formFactorDefinition.shutter && (
+                <rect
+                  className={styles.formFactorShutter}
+                  x={formFactorDefinition.shutter.x}
+                  y={formFactorDefinition.shutter.y}
+                  width={formFactorDefinition.shutter.width}
+                  height={formFactorDefinition.shutter.height}
+                />
+              )}
+              {formFactorDefinition.decals?.map((decal, index) => (
+                <path
+                  key={index}
+                  className={PAINT_CLASS[decal.fill || 'shadow']}
+                  d={decal.path}
+                />
+              ))}
+            </svg>
+            <div
+              className={styles.formFactorLabelSlot}
+              style={getUnitRectStyle(formFactorDefinition.labelBounds)}
+            >
+              {labelContent}
+            </div>
+          </>
+        )}
+
+        {/* Back side: metal hub, shutter window, holes and label metadata */}
+        {(flippable || isBack) && (
+          <div className={styles.backFace} aria-hidden={!isBack}>
+            {isNativeFormFactor && (
+              <>
+                <div
+                  className={`${styles.backShutter} ${isSlideOpen ? styles.slideOpen : ''}`}
+                >
+                  <div className={styles.backShutterWindow} />
+                </div>
+                <div className={styles.hub}>
+                  <div className={styles.spindleHole} />
+                  <div className={styles.drivePinHole} />
+                </div>
+                <div
+                  className={`${styles.writeProtectHole} ${hasWriteProtectSwitch && !isWriteProtected ? styles.writeProtectCovered : ''}`}
+                />
+                {diskType === 'HD' && <div className={styles.densityHole} />}
+              </>
+            )}
+            <div className={styles.backInfo}>
+              {label?.description && (
+                <p className={styles.backDescription}>{label.description}</p>
+              )}
+              <p className={styles.backMeta}>
+                {[displayType, displayCapacity, yearText]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
             </div>
-            {yearText && <div className={styles.yearText}>{yearText}</div>}
           </div>
-        </div>
+        )}
 
         {/* Badge overlay */}
         {badge && <div className={styles.badge}>{badge}</div>}
@@ -449,116 +1180,16 @@ export const FloppyDisk: React.FC<FloppyDiskProps> = React.memo(
   },
 );
 
-// Helper functions for color manipulation with validation
-
-/**
- * Parses and validates a hex color string, converting 3-digit to 6-digit format
- * @param color - Hex color string (e.g., "#2a2a2a" or "#fff")
- * @returns Full 6-digit hex string without # prefix, or null if invalid
- * @remarks This function does not throw errors. Invalid colors return null.
- */
-function parseHexColor(color: string): string | null {
-  const hex = color.replace('#', '');
-  const fullHex =
-    hex.length === HEX_SHORT_LENGTH
-      ? hex
-          .split('')
-          .map((c) => c + c)
-          .join('')
-      : hex;
-
-  if (!new RegExp(`^[0-9A-Fa-f]{${HEX_FULL_LENGTH}}$`).test(fullHex)) {
-    return null;
-  }
-
-  return fullHex;
-}
-
-/**
- * Converts a 6-digit hex string to RGB values
- * @param hex - 6-digit hex string without # prefix
- * @returns RGB values as an object
- * @remarks This function does not throw errors. Assumes valid hex input from parseHexColor.
- */
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const num = parseInt(hex, HEX_RADIX);
-  return {
-    r: (num >> RGB_SHIFT_RED) & 0xff,
-    g: (num >> RGB_SHIFT_GREEN) & 0xff,
-    b: (num >> RGB_SHIFT_BLUE) & 0xff,
-  };
-}
-
 /**
- * Converts RGB values to a hex color string
- * @param r - Red value (0-255)
- * @param g - Green value (0-255)
- * @param b - Blue value (0-255)
- * @returns Hex color string with # prefix
- * @remarks This function does not throw errors. Values are clamped to 0-255 range.
- */
-function rgbToHex(r: number, g: number, b: number): string {
-  return `#${((1 << HEX_PREFIX_SHIFT) + (r << RGB_SHIFT_RED) + (g << RGB_SHIFT_GREEN) + b).toString(HEX_RADIX).slice(1)}`;
-}
-
-/**
- * Adjusts a hex color by a given percentage
- * @param color - Hex color string (e.g., "#2a2a2a" or "#fff")
- * @param percent - Percentage to adjust (0-100)
- * @param operation - Whether to lighten or darken
- * @returns Adjusted hex color string
- * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
- */
-function adjustColor(
-  color: string,
-  percent: number,
-  operation: 'lighten' | 'darken',
-): string {
-  const fullHex = parseHexColor(color);
-
-  if (!fullHex) {
-    console.warn(
-      `FloppyDisk: Invalid color format: '${color}'. Expected hex format (e.g., '#2a2a2a' or '#fff'). Using original color.`,
-    );
-    return color;
-  }
-
-  const rgb = hexToRgb(fullHex);
-  const amt = Math.round(PERCENT_TO_RGB_MULTIPLIER * percent);
-
-  let r: number, g: number, b: number;
-
-  if (operation === 'lighten') {
-    r = Math.min(RGB_MAX, rgb.r + amt);
-    g = Math.min(RGB_MAX, rgb.g + amt);
-    b = Math.min(RGB_MAX, rgb.b + amt);
-  } else {
-    r = Math.max(RGB_MIN, rgb.r - amt);
-    g = Math.max(RGB_MIN, rgb.g - amt);
-    b = Math.max(RGB_MIN, rgb.b - amt);
-  }
-
-  return rgbToHex(r, g, b);
-}
-
-/**
- * Lightens a hex color by a given percentage
- * @param color - Hex color string (e.g., "#2a2a2a" or "#fff")
- * @param percent - Percentage to lighten (0-100)
- * @returns Lightened hex color string
- * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
- */
-function lightenColor(color: string, percent: number): string {
-  return adjustColor(color, percent, 'lighten');
-}
-
-/**
- * Darkens a hex color by a given percentage
- * @param color - Hex color string (e.g., "#2a2a2a" or "#fff")
- * @param percent - Percentage to darken (0-100)
- * @returns Darkened hex color string
- * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
+ * A beautiful, interactive 3.5" floppy disk React component for retro-themed UIs.
+ *
+ * @example
+ * ```tsx
+ * <FloppyDisk
+ *   size="medium"
+ *   label={{ name: "My App", author: "Me" }}
+ *   onClick={() => console.log("clicked")}
+ * />
+ * ```
  */
-function darkenColor(color: string, percent: number): string {
-  return adjustColor(color, percent, 'darken');
-}
+export const FloppyDisk = React.memo(FloppyDiskBase);
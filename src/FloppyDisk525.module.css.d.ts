@@ -0,0 +1,24 @@
+declare const styles: {
+  readonly jacket: string;
+  readonly selected: string;
+  readonly disabled: string;
+  readonly loading: string;
+  readonly error: string;
+  readonly static: string;
+  readonly compact: string;
+  readonly sleeveLabel: string;
+  readonly labelName: string;
+  readonly labelMeta: string;
+  readonly labelAuthor: string;
+  readonly labelYear: string;
+  readonly writeProtectNotch: string;
+  readonly hub: string;
+  readonly hubRing: string;
+  readonly indexHole: string;
+  readonly readWindow: string;
+  readonly densityText: string;
+  readonly badge: string;
+  readonly overlay: string;
+};
+
+export default styles;
@@ -0,0 +1,249 @@
+import React, { useCallback, useMemo, useRef } from 'react';
+import { FloppyDisk525Props } from './types';
+import styles from './FloppyDisk525.module.css';
+import { useDiskAppearance } from './useDiskAppearance';
+import { useFluidSize } from './useFluidSize';
+import { useFloppyTheme } from './FloppyThemeProvider';
+import {
+  isSchemeDependentTheme,
+  mergeFloppyTheme,
+  resolveThemeInput,
+} from './themeResolution';
+import { useColorScheme } from './useColorScheme';
+
+// Constants for component behavior
+const DISABLED_TAB_INDEX = -1;
+const ENABLED_TAB_INDEX = 0;
+const HD_CAPACITY = '1.2 MB';
+const DD_CAPACITY = '360 KB';
+
+// Forwards the root element ref so collections can move focus between disks
+const FloppyDisk525Base = React.forwardRef<HTMLElement, FloppyDisk525Props>(
+  (props, ref) => {
+    const floppyTheme = useFloppyTheme();
+    const {
+      size = floppyTheme.size,
+      minSize,
+      maxSize,
+      label,
+      diskType = 'DD',
+      capacity,
+      theme: themeProp,
+      animation: animationProp,
+      variant = floppyTheme.variant,
+      selected = false,
+      disabled = false,
+      loading = false,
+      error = false,
+      onClick,
+      onDoubleClick,
+      onHover,
+      onFocus,
+      className = '',
+      style,
+      'data-testid': dataTestId,
+      'data-disk-id': dataDiskId,
+      badge,
+      children,
+      ariaLabel,
+      tabIndex,
+      role = 'button',
+      'aria-selected': ariaSelected,
+      'aria-posinset': ariaPosInSet,
+      'aria-setsize': ariaSetSize,
+    } = props;
+
+    const rootRef = useRef<HTMLElement | null>(null);
+    const setRootRef = useCallback(
+      (element: HTMLElement | null) => {
+        rootRef.current = element;
+        if (typeof ref === 'function') ref(element);
+        else if (ref) ref.current = element;
+      },
+      [ref],
+    );
+    const colorScheme = useColorScheme(
+      rootRef,
+      isSchemeDependentTheme(themeProp),
+    );
+
+    // Props on the disk win over the nearest FloppyThemeProvider
+    const theme = useMemo(
+      () =>
+        mergeFloppyTheme(
+          floppyTheme.theme,
+          resolveThemeInput(themeProp, colorScheme),
+        ),
+      [floppyTheme.theme, themeProp, colorScheme],
+    );
+    const animation = useMemo(
+      () => ({ ...floppyTheme.animation, ...animationProp }),
+      [floppyTheme.animation, animationProp],
+    );
+
+    const fluidSize = useFluidSize({
+      enabled: size === 'fluid',
+      elementRef: rootRef,
+      minSize,
+      maxSize,
+    });
+
+    const { cssVariables } = useDiskAppearance({
+      componentName: 'FloppyDisk525',
+      size,
+      fluidSize,
+      label,
+      theme,
+      animation,
+    });
+
+    const containerClasses = [
+      styles.jacket,
+      variant === 'compact' && styles.compact,
+      selected && styles.selected,
+      disabled && styles.disabled,
+      loading && styles.loading,
+      error && styles.error,
+      variant === 'static' && styles.static,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const handleClick: React.MouseEventHandler<HTMLElement> = (event) => {
+      if (!disabled && onClick) onClick(event);
+    };
+
+    const handleDoubleClick = () => {
+      if (!disabled && onDoubleClick) onDoubleClick();
+    };
+
+    const handleMouseEnter = () => {
+      if (onHover) onHover(true);
+    };
+
+    const handleMouseLeave = () => {
+      if (onHover) onHover(false);
+    };
+
+    const handleFocus = () => {
+      if (onFocus) onFocus(true);
+    };
+
+    const handleBlur = () => {
+      if (onFocus) onFocus(false);
+    };
+
+    const handleKeyDown: React.KeyboardEventHandler<HTMLElement> = (event) => {
+      if (disabled) return;
+
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        if (onClick) onClick(event);
+      }
+
+      // Prevent scrolling on space, but activate on keyup (native button behavior)
+      if (event.key === ' ') {
+        event.preventDefault();
+      }
+    };
+
+    const handleKeyUp: React.KeyboardEventHandler<HTMLElement> = (event) => {
+      if (disabled) return;
+
+      if (event.key === ' ') {
+        event.preventDefault();
+        if (onClick) onClick(event);
+      }
+    };
+
+    // Use capacity from props, or fall back to label.size, or the density default
+    const displayCapacity =
+      capacity ||
+      label?.size ||
+      (diskType === 'HD' ? HD_CAPACITY : DD_CAPACITY);
+    const displayType = label?.type || (diskType === 'HD' ? 'DS/HD' : 'DS/DD');
+
+    // Collections (e.g. FloppyShelf) pass tabIndex to manage a single tab stop
+    const resolvedTabIndex =
+      tabIndex ?? (disabled ? DISABLED_TAB_INDEX : ENABLED_TAB_INDEX);
+
+    const accessibleLabel =
+      ariaLabel ||
+      (label
+        ? `${label.name} by ${label.author || 'Unknown'}`
+        : '5.25-inch floppy disk');
+
+    return (
+      <figure
+        ref={setRootRef}
+        className={containerClasses}
+        style={{ ...cssVariables, ...style }}
+        onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
+        onMouseEnter={handleMouseEnter}
+        onMouseLeave={handleMouseLeave}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        tabIndex={resolvedTabIndex}
+        role={role}
+        aria-selected={ariaSelected}
+        aria-posinset={ariaPosInSet}
+        aria-setsize={ariaSetSize}
+        aria-label={accessibleLabel}
+        aria-disabled={disabled}
+        data-testid={dataTestId}
+        data-disk-id={dataDiskId}
+      >
+        <div className={styles.sleeveLabel}>
+          <div className={styles.labelName}>{label?.name || ''}</div>
+          <div className={styles.labelMeta}>
+            <span className={styles.labelAuthor}>{label?.author || ''}</span>
+            {label?.year && (
+              <span className={styles.labelYear}>{label.year}</span>
+            )}
+          </div>
+        </div>
+
+        <div className={styles.writeProtectNotch} />
+
+        <div className={styles.hub}>
+          <div className={styles.hubRing} />
+        </div>
+        <div className={styles.indexHole} />
+        <div className={styles.readWindow} />
+
+        <div className={styles.densityText}>
+          <span>{displayType}</span>
+          <span>{displayCapacity}</span>
+        </div>
+
+        {/* Badge overlay */}
+        {badge && <div className={styles.badge}>{badge}</div>}
+
+        {/* Custom children overlay */}
+        {children && <div className={styles.overlay}>{children}</div>}
+      </figure>
+    );
+  },
+);
+
+/**
+ * A 5.25" floppy disk React component sharing the label and theme system of
+ * FloppyDisk.
+ *
+ * Renders a flexible jacket with hub ring, index hole, oval read window,
+ * write-protect notch and a sleeve-style label along the top edge.
+ *
+ * @example
+ * ```tsx
+ * <FloppyDisk525
+ *   size="medium"
+ *   label={{ name: "Zork I", author: "Infocom", year: "1980" }}
+ *   diskType="DD"
+ * />
+ * ```
+ */
+export const FloppyDisk525 = React.memo(FloppyDisk525Base);
@@ -0,0 +1,18 @@
+declare const styles: {
+  readonly drive: string;
+  readonly disabled: string;
+  readonly bay: string;
+  readonly carrier: string;
+  readonly ejected: string;
+  readonly ejecting: string;
+  readonly inserting: string;
+  readonly inserted: string;
+  readonly face: string;
+  readonly slot: string;
+  readonly led: string;
+  readonly ledActive: string;
+  readonly ledBusy: string;
+  readonly ejectButton: string;
+};
+
+export default styles;
@@ -0,0 +1,203 @@
+import React, { CSSProperties, useEffect, useRef, useState } from 'react';
+import { FloppyDiskProps, FloppyDriveProps } from './types';
+import styles from './FloppyDrive.module.css';
+import { FloppyDisk } from './FloppyDisk';
+import { useCollectionSize } from './FloppyThemeProvider';
+import { useDiskAppearance } from './useDiskAppearance';
+import { useControllableState } from './useControllableState';
+
+// Constants for component behavior
+const DEFAULT_INSERT_DURATION_MS = 600;
+const DEFAULT_ARIA_LABEL = 'Floppy drive';
+
+/**
+ * Animation phase of the disk in the drive bay
+ */
+type DrivePhase = 'ejected' | 'inserting' | 'inserted' | 'ejecting';
+
+// CSS class for each drive phase
+const PHASE_CLASS: Record<DrivePhase, string> = {
+  ejected: styles.ejected,
+  inserting: styles.inserting,
+  inserted: styles.inserted,
+  ejecting: styles.ejecting,
+};
+
+/**
+ * A floppy drive bay with slot, eject button and activity LED.
+ *
+ * Accepts a FloppyDisk child (or `disk` data). The disk sticks out of the
+ * slot until it is clicked, then slides in; the eject button slides it back
+ * out. `onInsert` / `onEject` fire once the animation has finished, and the
+ * LED follows the `busy` prop.
+ *
+ * @example
+ * ```tsx
+ * <FloppyDrive
+ *   busy={isLoading}
+ *   onInsert={(diskId) => openProject(diskId)}
+ *   onEject={() => closeProject()}
+ * >
+ *   <FloppyDisk data-disk-id="zork" label={{ name: 'Zork I' }} />
+ * </FloppyDrive>
+ * ```
+ */
+export const FloppyDrive: React.FC<FloppyDriveProps> = React.memo(
+  ({
+    size: sizeProp,
+    disk,
+    children,
+    diskId,
+    inserted,
+    defaultInserted = false,
+    onInsertedChange,
+    onInsert,
+    onEject,
+    busy = false,
+    disabled = false,
+    theme = {},
+    animation = {},
+    className = '',
+    style,
+    'data-testid': dataTestId,
+    ariaLabel,
+  }) => {
+    const size = useCollectionSize(sizeProp, 'medium');
+    const { cssVariables } = useDiskAppearance({
+      componentName: 'FloppyDrive',
+      size,
+      theme,
+      animation,
+    });
+
+    const insertDurationMs = animation.disableAnimations
+      ? 0
+      : animation.insertDuration || DEFAULT_INSERT_DURATION_MS;
+
+    const diskElement: React.ReactElement<FloppyDiskProps> | null =
+      React.isValidElement(children) ? (
+        children
+      ) : disk ? (
+        <FloppyDisk size={size} {...disk} />
+      ) : null;
+
+    const resolvedDiskId =
+      diskId ??
+      diskElement?.props['data-disk-id'] ??
+      diskElement?.props.label?.name ??
+      '';
+
+    const [isInserted, setInserted] = useControllableState(
+      inserted,
+      defaultInserted,
+      onInsertedChange,
+    );
+
+    // Start a transition whenever the inserted state changes (derived during
+    // render, like getDerivedStateFromProps)
+    const [phase, setPhase] = useState<DrivePhase>(
+      isInserted ? 'inserted' : 'ejected',
+    );
+    if (isInserted && (phase === 'ejected' || phase === 'ejecting')) {
+      setPhase('inserting');
+    }
+    if (!isInserted && (phase === 'inserted' || phase === 'inserting')) {
+      setPhase('ejecting');
+    }
+
+    // Latest callbacks and id, read when the animation finishes
+    const completionRef = useRef({ onInsert, onEject, resolvedDiskId });
+    useEffect(() => {
+      completionRef.current = { onInsert, onEject, resolvedDiskId };
+    });
+
+    useEffect(() => {
+      if (phase !== 'inserting' && phase !== 'ejecting') return undefined;
+
+      const timer = window.setTimeout(() => {
+        const { onInsert, onEject, resolvedDiskId } = completionRef.current;
+        if (phase === 'inserting') {
+          setPhase('inserted');
+          if (onInsert) onInsert(resolvedDiskId);
+        } else {
+          setPhase('ejected');
+          if (onEject) onEject(resolvedDiskId);
+        }
+      }, insertDurationMs);
+
+      return () => window.clearTimeout(timer);
+    }, [phase, insertDurationMs]);
+
+    const handleDiskClick: FloppyDiskProps['onClick'] = (event) => {
+      if (diskElement?.props.onClick) diskElement.props.onClick(event);
+      if (!disabled && !isInserted) setInserted(true);
+    };
+
+    const handleEjectClick = () => {
+      if (!disabled && isInserted) setInserted(false);
+    };
+
+    const isAnimating = phase === 'inserting' || phase === 'ejecting';
+
+    const containerClasses = [
+      styles.drive,
+      disabled && styles.disabled,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const ledClasses = [
+      styles.led,
+      (busy || isAnimating) && styles.ledActive,
+      busy && styles.ledBusy,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    return (
+      <div
+        className={containerClasses}
+        style={
+          {
+            ...cssVariables,
+            '--insert-duration': `${insertDurationMs}ms`,
+            ...style,
+          } as CSSProperties
+        }
+        role="group"
+        aria-label={ariaLabel || DEFAULT_ARIA_LABEL}
+        aria-busy={busy}
+        data-testid={dataTestId}
+        data-phase={diskElement ? phase : 'empty'}
+      >
+        <div className={styles.bay}>
+          {diskElement && (
+            <div
+              className={`${styles.carrier} ${PHASE_CLASS[phase]}`}
+              aria-hidden={phase === 'inserted'}
+            >
+              {React.cloneElement(diskElement, {
+                onClick: handleDiskClick,
+                // Hidden from assistive technology, so out of the tab order
+                ...(phase === 'inserted' && { tabIndex: -1 }),
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className={styles.face}>
+          <div className={styles.slot} />
+          <span className={ledClasses} aria-hidden="true" />
+          <button
+            type="button"
+            className={styles.ejectButton}
+            aria-label="Eject disk"
+            disabled={disabled || !diskElement || !isInserted}
+            onClick={handleEjectClick}
+          />
+        </div>
+      </div>
+    );
+  },
+);
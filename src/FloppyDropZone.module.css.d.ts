@@ -0,0 +1,8 @@
+declare const styles: {
+  readonly zone: string;
+  readonly active: string;
+  readonly hovered: string;
+  readonly disabled: string;
+};
+
+export default styles;
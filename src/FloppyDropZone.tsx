@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FloppyDropZoneProps } from './types';
+import styles from './FloppyDropZone.module.css';
+import {
+  FLOPPY_DRAG_MIME,
+  FloppyDragMode,
+  FloppyDragPayload,
+  DropZoneRegistration,
+  dropOnZone,
+  endDragSession,
+  getDragSession,
+  readDragPayload,
+  registerDropZone,
+  setHoveredZone,
+  subscribeDragSession,
+} from './dragAndDrop';
+
+// Constants for component behavior
+const ENABLED_TAB_INDEX = 0;
+const DEFAULT_ARIA_LABEL = 'Drop zone';
+
+/**
+ * A target for draggable disks: shelves, drives, trash cans.
+ *
+ * Accepts mouse (HTML5), touch/pen (pointer events) and keyboard drags. While
+ * a disk is picked up with Ctrl/Cmd+Enter, drop zones join the tab order and
+ * Enter or Space drops the disk on the focused zone; Escape cancels.
+ *
+ * @example
+ * ```tsx
+ * <FloppyDropZone
+ *   ariaLabel="Trash"
+ *   onDiskDrop={(payload) => deleteDisk(payload.diskId)}
+ * >
+ *   <TrashIcon />
+ * </FloppyDropZone>
+ * ```
+ */
+export const FloppyDropZone: React.FC<FloppyDropZoneProps> = React.memo(
+  ({
+    onDiskDrop,
+    accepts,
+    onDragHoverChange,
+    disabled = false,
+    children,
+    className = '',
+    style,
+    'data-testid': dataTestId,
+    ariaLabel,
+  }) => {
+    const zoneRef = useRef<HTMLDivElement>(null);
+    const registrationRef = useRef<DropZoneRegistration | null>(null);
+    const hoveredRef = useRef(false);
+    const [isHovered, setIsHovered] = useState(false);
+    const [dragMode, setDragMode] = useState<FloppyDragMode | null>(null);
+
+    // Latest props, read from the drag session callbacks
+    const propsRef = useRef({
+      onDiskDrop,
+      accepts,
+      onDragHoverChange,
+      disabled,
+    });
+    useEffect(() => {
+      propsRef.current = { onDiskDrop, accepts, onDragHoverChange, disabled };
+    });
+
+    const updateHovered = useCallback((hovered: boolean) => {
+      if (hoveredRef.current === hovered) return;
+      hoveredRef.current = hovered;
+      setIsHovered(hovered);
+      const { onDragHoverChange } = propsRef.current;
+      if (onDragHoverChange) onDragHoverChange(hovered);
+    }, []);
+
+    const acceptPayload = useCallback((payload: FloppyDragPayload) => {
+      const { disabled, accepts, onDiskDrop } = propsRef.current;
+      if (disabled || (accepts && !accepts(payload))) return false;
+      if (onDiskDrop) onDiskDrop(payload);
+      return true;
+    }, []);
+
+    // Register for pointer and keyboard drags
+    useEffect(() => {
+      const element = zoneRef.current;
+      if (!element) return undefined;
+
+      const registration: DropZoneRegistration = {
+        element,
+        setHovered: updateHovered,
+        drop: acceptPayload,
+      };
+      registrationRef.current = registration;
+      const unregister = registerDropZone(registration);
+      return () => {
+        registrationRef.current = null;
+        unregister();
+      };
+    }, [updateHovered, acceptPayload]);
+
+    useEffect(
+      () =>
+        subscribeDragSession(() => {
+          setDragMode(getDragSession()?.mode ?? null);
+        }),
+      [],
+    );
+
+    const isDiskDrag = (event: React.DragEvent<HTMLElement>) =>
+      Array.from(event.dataTransfer.types).includes(FLOPPY_DRAG_MIME);
+
+    const handleDragOver: React.DragEventHandler<HTMLElement> = (event) => {
+      if (disabled || !isDiskDrag(event)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      updateHovered(true);
+    };
+
+    const handleDragLeave: React.DragEventHandler<HTMLElement> = (event) => {
+      // Ignore leaving into a child element
+      const next = event.relatedTarget;
+      if (next instanceof window.Node && event.currentTarget.contains(next)) {
+        return;
+      }
+      updateHovered(false);
+    };
+
+    const handleDrop: React.DragEventHandler<HTMLElement> = (event) => {
+      if (disabled || !isDiskDrag(event)) return;
+      event.preventDefault();
+      updateHovered(false);
+
+      const payload = readDragPayload(event.dataTransfer);
+      if (!payload || !acceptPayload(payload)) {
+        event.dataTransfer.dropEffect = 'none';
+        return;
+      }
+      // The drop may remove the source disk, which then gets no dragend
+      if (getDragSession()?.mode === 'html5') endDragSession(true);
+    };
+
+    const isKeyboardDrag = dragMode === 'keyboard' && !disabled;
+
+    const handleKeyDown: React.KeyboardEventHandler<HTMLElement> = (event) => {
+      // Keys on child disks are theirs
+      if (event.target !== event.currentTarget || !isKeyboardDrag) return;
+
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        dropOnZone(registrationRef.current);
+      }
+    };
+
+    const handleFocus: React.FocusEventHandler<HTMLElement> = (event) => {
+      if (event.target === event.currentTarget && isKeyboardDrag) {
+        setHoveredZone(registrationRef.current);
+      }
+    };
+
+    const handleBlur: React.FocusEventHandler<HTMLElement> = (event) => {
+      if (event.target === event.currentTarget && hoveredRef.current) {
+        setHoveredZone(null);
+      }
+    };
+
+    const containerClasses = [
+      styles.zone,
+      dragMode && !disabled && styles.active,
+      isHovered && styles.hovered,
+      disabled && styles.disabled,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    return (
+      <div
+        ref={zoneRef}
+        className={containerClasses}
+        style={style}
+        onDragEnter={handleDragOver}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onKeyDown={handleKeyDown}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        // Only a tab stop while a disk is picked up with the keyboard
+        tabIndex={isKeyboardDrag ? ENABLED_TAB_INDEX : undefined}
+        role="group"
+        aria-label={ariaLabel || DEFAULT_ARIA_LABEL}
+        aria-disabled={disabled}
+        data-testid={dataTestId}
+      >
+        {children}
+      </div>
+    );
+  },
+);
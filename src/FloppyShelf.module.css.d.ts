@@ -0,0 +1,9 @@
+declare const styles: {
+  readonly shelf: string;
+  readonly grid: string;
+  readonly autoColumns: string;
+  readonly row: string;
+  readonly list: string;
+};
+
+export default styles;
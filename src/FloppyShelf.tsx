@@ -0,0 +1,230 @@
+import React, {
+  CSSProperties,
+  useCallback,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { FloppyShelfItem, FloppyShelfProps, SIZE_MAP } from './types';
+import styles from './FloppyShelf.module.css';
+import { FloppyDisk } from './FloppyDisk';
+import { useCollectionSize } from './FloppyThemeProvider';
+import { useControllableState } from './useControllableState';
+import { useShelfKeyboard } from './useShelfKeyboard';
+
+// Constants for component behavior
+const ACTIVE_TAB_INDEX = 0;
+const INACTIVE_TAB_INDEX = -1;
+const DEFAULT_PAGE_ROWS = 3;
+const DEFAULT_ARIA_LABEL = 'Disk shelf';
+
+/**
+ * Splits items into rows of `columns` items
+ */
+const chunkRows = (items: FloppyShelfItem[], columns: number) => {
+  const rows: FloppyShelfItem[][] = [];
+  for (let start = 0; start < items.length; start += columns) {
+    rows.push(items.slice(start, start + columns));
+  }
+  return rows;
+};
+
+/**
+ * A collection of disks with a single tab stop.
+ *
+ * Arrow keys, Home/End (Ctrl+Home/End in grids), PageUp/PageDown and
+ * type-ahead on `label.name` move focus between disks (roving tabindex).
+ * The grid layout is exposed as an ARIA grid, the list layout as a listbox.
+ * Letter keys drive type-ahead, so disk letter shortcuts (O, F) are not
+ * available inside a shelf. For thousands of disks use FloppyVirtualShelf.
+ *
+ * @example
+ * ```tsx
+ * <FloppyShelf
+ *   items={games.map((game) => ({
+ *     id: game.id,
+ *     label: { name: game.title, author: game.studio },
+ *     onClick: () => launch(game.id),
+ *   }))}
+ * />
+ * ```
+ */
+export const FloppyShelf: React.FC<FloppyShelfProps> = React.memo(
+  ({
+    items,
+    layout = 'grid',
+    size,
+    columns,
+    pageRows = DEFAULT_PAGE_ROWS,
+    activeId,
+    defaultActiveId,
+    onActiveChange,
+    onKeyDown,
+    className = '',
+    style,
+    'data-testid': dataTestId,
+    ariaLabel,
+    'aria-multiselectable': ariaMultiselectable,
+  }) => {
+    const isGrid = layout === 'grid';
+    const shelfSize = useCollectionSize(size, isGrid ? 'medium' : 'tiny');
+    const itemSizeInPx =
+      typeof shelfSize === 'number' ? shelfSize : SIZE_MAP[shelfSize];
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const itemRefs = useRef<(HTMLElement | null)[]>([]);
+    // Set when a layout change regroups rows while a disk has focus
+    const restoreFocusRef = useRef(false);
+
+    const [currentActiveId, setActiveId] = useControllableState<
+      string | undefined
+    >(activeId, defaultActiveId, (id) => {
+      if (id !== undefined && onActiveChange) onActiveChange(id);
+    });
+
+    const matchedIndex = items.findIndex((item) => item.id === currentActiveId);
+    const firstEnabledIndex = items.findIndex((item) => !item.disabled);
+    const activeIndex =
+      matchedIndex !== -1 ? matchedIndex : Math.max(0, firstEnabledIndex);
+
+    // Columns rendered by the browser; rows are regrouped to match for ARIA
+    const [measuredColumns, setMeasuredColumns] = useState<number | null>(null);
+    const measuredColumnsRef = useRef<number | null>(null);
+    const layoutColumns = !isGrid
+      ? 1
+      : (columns ?? measuredColumns ?? Math.max(1, items.length));
+
+    const measureColumns = useCallback(() => {
+      if (!isGrid) return 1;
+      if (columns) return columns;
+
+      const elements = itemRefs.current.slice(0, items.length);
+      const firstTop = elements[0]?.offsetTop;
+      if (firstTop === undefined) return 1;
+
+      let count = 0;
+      for (const element of elements) {
+        if (!element || element.offsetTop !== firstTop) break;
+        count++;
+      }
+      return Math.max(1, count);
+    }, [isGrid, columns, items.length]);
+
+    useLayoutEffect(() => {
+      if (!isGrid || columns) return undefined;
+
+      const updateColumns = () => {
+        const next = measureColumns();
+        if (next === measuredColumnsRef.current) return;
+
+        if (measuredColumnsRef.current !== null) {
+          restoreFocusRef.current = Boolean(
+            containerRef.current?.contains(document.activeElement),
+          );
+        }
+        measuredColumnsRef.current = next;
+        setMeasuredColumns(next);
+      };
+
+      updateColumns();
+      window.addEventListener('resize', updateColumns);
+      return () => window.removeEventListener('resize', updateColumns);
+    }, [isGrid, columns, measureColumns, itemSizeInPx]);
+
+    // Regrouping rows remounts the disks, so put focus back where it was
+    useLayoutEffect(() => {
+      if (!restoreFocusRef.current) return;
+      restoreFocusRef.current = false;
+      itemRefs.current[activeIndex]?.focus();
+    }, [layoutColumns, activeIndex]);
+
+    // Focusing the disk makes it active, so onActiveChange fires once
+    const moveTo = (index: number) => {
+      const item = items[index];
+      if (!item) return;
+      const element = itemRefs.current[index];
+      element?.focus();
+      if (!element || document.activeElement !== element) setActiveId(item.id);
+    };
+
+    const handleKeyDownCapture = useShelfKeyboard({
+      items,
+      activeIndex,
+      getColumns: measureColumns,
+      pageRows,
+      moveTo,
+      onKeyDown,
+    });
+
+    const renderItem = (item: FloppyShelfItem, index: number) => {
+      const { id, onFocus, ...diskProps } = item;
+
+      // Clicking a disk focuses it, which moves the tab stop there too
+      const handleItemFocus = (isFocused: boolean) => {
+        if (isFocused && id !== currentActiveId) setActiveId(id);
+        if (onFocus) onFocus(isFocused);
+      };
+
+      return (
+        <FloppyDisk
+          key={id}
+          ref={(element) => {
+            itemRefs.current[index] = element;
+          }}
+          variant={isGrid ? undefined : 'compact'}
+          data-disk-id={id}
+          {...diskProps}
+          size={shelfSize}
+          onFocus={handleItemFocus}
+          role={isGrid ? 'gridcell' : 'option'}
+          aria-selected={
+            isGrid && !ariaMultiselectable
+              ? item.selected
+              : Boolean(item.selected)
+          }
+          tabIndex={
+            index === activeIndex ? ACTIVE_TAB_INDEX : INACTIVE_TAB_INDEX
+          }
+        />
+      );
+    };
+
+    const containerClasses = [
+      styles.shelf,
+      isGrid ? styles.grid : styles.list,
+      isGrid && !columns && styles.autoColumns,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const shelfVariables = {
+      '--shelf-item-size': `${itemSizeInPx}px`,
+      ...(columns ? { '--shelf-columns': columns } : {}),
+    } as CSSProperties;
+
+    return (
+      <div
+        ref={containerRef}
+        className={containerClasses}
+        style={{ ...shelfVariables, ...style }}
+        onKeyDownCapture={handleKeyDownCapture}
+        role={isGrid ? 'grid' : 'listbox'}
+        aria-label={ariaLabel || DEFAULT_ARIA_LABEL}
+        aria-orientation={isGrid ? undefined : 'vertical'}
+        aria-multiselectable={ariaMultiselectable}
+        data-testid={dataTestId}
+      >
+        {isGrid
+          ? chunkRows(items, layoutColumns).map((row, rowIndex) => (
+              <div key={rowIndex} className={styles.row} role="row">
+                {row.map((item, columnIndex) =>
+                  renderItem(item, rowIndex * layoutColumns + columnIndex),
+                )}
+              </div>
+            ))
+          : items.map(renderItem)}
+      </div>
+    );
+  },
+);
@@ -0,0 +1,9 @@
+declare const styles: {
+  readonly stack: string;
+  readonly item: string;
+  readonly fanned: string;
+  readonly box: string;
+  readonly boxFront: string;
+};
+
+export default styles;
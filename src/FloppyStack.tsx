@@ -0,0 +1,322 @@
+import React, { CSSProperties, useMemo, useRef, useState } from 'react';
+import {
+  AnimationConfig,
+  FloppyStackItem,
+  FloppyStackLayout,
+  FloppyStackProps,
+  FloppyTheme,
+} from './types';
+import styles from './FloppyStack.module.css';
+import { FloppyDisk } from './FloppyDisk';
+import { useCollectionSize } from './FloppyThemeProvider';
+import { useDiskAppearance } from './useDiskAppearance';
+import { useControllableState } from './useControllableState';
+import { createSeededRandom, stringToSeed } from './gradientUtils';
+
+// Constants for component behavior
+const ACTIVE_TAB_INDEX = 0;
+const INACTIVE_TAB_INDEX = -1;
+const DEFAULT_ARIA_LABEL = 'Disk stack';
+// Stable defaults, so the memoized disks do not re-render on every render
+const EMPTY_THEME: FloppyTheme = {};
+const EMPTY_ANIMATION: AnimationConfig = {};
+
+// Pile geometry, as fractions of the disk size and degrees
+const PILE_OFFSET = 0.04;
+const PILE_STEP = 0.025;
+const PILE_ROTATION_DEG = 8;
+const BOX_OFFSET = 0.03;
+const BOX_STEP = 0.05;
+const BOX_ROTATION_DEG = 3;
+const BOX_PICK_LIFT = 0.3;
+const FAN_STEP_DEG = 14;
+const FAN_MAX_SPREAD_DEG = 90;
+const FAN_ROTATION_JITTER_DEG = 1.5;
+const FAN_LIFT = 0.05;
+const BOX_FAN_LIFT = 0.15;
+
+/**
+ * Deterministic per-disk randomness, each value in [-1, 1]
+ */
+interface StackJitter {
+  x: number;
+  y: number;
+  rotate: number;
+}
+
+/**
+ * Placement of one disk: offsets as fractions of the disk size, rotation in
+ * degrees
+ */
+interface StackTransform {
+  x: number;
+  y: number;
+  rotate: number;
+}
+
+/**
+ * Places a disk. `position` is its place in the pile (0 = bottom / back,
+ * count - 1 = top); the fan follows `index`, the order of `disks`, so it
+ * does not reshuffle when another disk comes to the top.
+ */
+const getStackTransform = (
+  layout: FloppyStackLayout,
+  index: number,
+  position: number,
+  count: number,
+  jitter: StackJitter,
+  isFanned: boolean,
+): StackTransform => {
+  const isTop = position === count - 1;
+
+  if (isFanned) {
+    // Spread evenly around the vertical, at most FAN_MAX_SPREAD_DEG in total
+    const step =
+      count > 1
+        ? Math.min(FAN_STEP_DEG, FAN_MAX_SPREAD_DEG / (count - 1))
+        : FAN_STEP_DEG;
+    const angle = (index - (count - 1) / 2) * step;
+    const lift = layout === 'box' ? BOX_FAN_LIFT : FAN_LIFT;
+    return {
+      x: 0,
+      y: -(isTop && layout === 'box' ? BOX_PICK_LIFT : lift),
+      rotate: angle + jitter.rotate * FAN_ROTATION_JITTER_DEG,
+    };
+  }
+
+  if (layout === 'box') {
+    // Disks further back stand higher; the picked disk is pulled up
+    return {
+      x: jitter.x * BOX_OFFSET,
+      y: isTop ? -BOX_PICK_LIFT : -(count - 1 - position) * BOX_STEP,
+      rotate: jitter.rotate * BOX_ROTATION_DEG,
+    };
+  }
+
+  return {
+    x: jitter.x * PILE_OFFSET,
+    y: -position * PILE_STEP + jitter.y * PILE_OFFSET,
+    rotate: jitter.rotate * PILE_ROTATION_DEG,
+  };
+};
+
+/**
+ * A pile of disks, or a storage box with disks peeking out, for collections
+ * and multi-disk sets.
+ *
+ * Each disk gets a deterministic offset and rotation from its id (and
+ * `seed`). The stack fans out on hover and focus; clicking a disk or using
+ * the arrow keys brings another disk to the top. The stack has a single tab
+ * stop on the top disk and is exposed as a listbox.
+ *
+ * @example
+ * ```tsx
+ * <FloppyStack
+ *   layout="box"
+ *   disks={installDisks.map((disk, index) => ({
+ *     id: disk.id,
+ *     label: { name: `Disk ${index + 1}`, author: 'Windows 3.1' },
+ *   }))}
+ *   onTopChange={(id) => setCurrentDisk(id)}
+ * />
+ * ```
+ */
+export const FloppyStack: React.FC<FloppyStackProps> = React.memo(
+  ({
+    disks,
+    layout = 'stack',
+    size: sizeProp,
+    seed,
+    expanded,
+    topId,
+    defaultTopId,
+    onTopChange,
+    theme = EMPTY_THEME,
+    animation = EMPTY_ANIMATION,
+    className = '',
+    style,
+    'data-testid': dataTestId,
+    ariaLabel,
+  }) => {
+    const size = useCollectionSize(sizeProp, 'medium');
+    const { cssVariables } = useDiskAppearance({
+      componentName: 'FloppyStack',
+      size,
+      theme,
+      animation,
+    });
+
+    const itemRefs = useRef(new Map<string, HTMLElement>());
+    const [isHovered, setIsHovered] = useState(false);
+    const [hasFocusWithin, setHasFocusWithin] = useState(false);
+
+    const [currentTopId, setTopId] = useControllableState<string | undefined>(
+      topId,
+      defaultTopId,
+      (id) => {
+        if (id !== undefined && onTopChange) onTopChange(id);
+      },
+    );
+
+    const matchedTopIndex = disks.findIndex((disk) => disk.id === currentTopId);
+    const resolvedTopIndex =
+      matchedTopIndex !== -1 ? matchedTopIndex : disks.length - 1;
+
+    const isFanned = expanded ?? (isHovered || hasFocusWithin);
+
+    const jitterById = useMemo(() => {
+      const jitter = new Map<string, StackJitter>();
+      disks.forEach(({ id }) => {
+        const random = createSeededRandom(
+          stringToSeed(seed === undefined ? id : `${seed}:${id}`),
+        );
+        jitter.set(id, {
+          x: random() * 2 - 1,
+          y: random() * 2 - 1,
+          rotate: random() * 2 - 1,
+        });
+      });
+      return jitter;
+    }, [disks, seed]);
+
+    // Position in the pile: the top disk goes last, the others keep their
+    // order. DOM order stays fixed so moving a disk does not drop its focus.
+    const getPosition = (index: number) => {
+      if (index === resolvedTopIndex) return disks.length - 1;
+      return index > resolvedTopIndex ? index - 1 : index;
+    };
+
+    const bringToTop = (index: number) => {
+      const disk = disks[index];
+      if (!disk) return;
+      setTopId(disk.id);
+      itemRefs.current.get(disk.id)?.focus();
+    };
+
+    const handleKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (
+      event,
+    ) => {
+      if (disks.length === 0 || event.altKey) return;
+
+      const lastIndex = disks.length - 1;
+      let nextIndex: number | null = null;
+      switch (event.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+          nextIndex = resolvedTopIndex === lastIndex ? 0 : resolvedTopIndex + 1;
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+          nextIndex = resolvedTopIndex === 0 ? lastIndex : resolvedTopIndex - 1;
+          break;
+        case 'Home':
+          nextIndex = 0;
+          break;
+        case 'End':
+          nextIndex = lastIndex;
+          break;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      bringToTop(nextIndex);
+    };
+
+    const handleMouseEnter = () => setIsHovered(true);
+    const handleMouseLeave = () => setIsHovered(false);
+
+    const handleFocus = () => setHasFocusWithin(true);
+    const handleBlur: React.FocusEventHandler<HTMLDivElement> = (event) => {
+      const next = event.relatedTarget;
+      if (next instanceof window.Node && event.currentTarget.contains(next)) {
+        return;
+      }
+      setHasFocusWithin(false);
+    };
+
+    const renderDisk = (disk: FloppyStackItem, index: number) => {
+      const { id, onClick, onFocus, ...diskProps } = disk;
+      const isTop = index === resolvedTopIndex;
+      const position = getPosition(index);
+      const transform = getStackTransform(
+        layout,
+        index,
+        position,
+        disks.length,
+        jitterById.get(id) ?? { x: 0, y: 0, rotate: 0 },
+        isFanned,
+      );
+
+      const handleDiskClick: FloppyStackItem['onClick'] = (event) => {
+        setTopId(id);
+        if (onClick) onClick(event);
+      };
+
+      const handleDiskFocus = (isFocused: boolean) => {
+        if (isFocused) setTopId(id);
+        if (onFocus) onFocus(isFocused);
+      };
+
+      const itemStyle = {
+        '--stack-x': transform.x,
+        '--stack-y': transform.y,
+        '--stack-rotate': transform.rotate,
+        zIndex: position + 1,
+      } as CSSProperties;
+
+      return (
+        <div key={id} className={styles.item} style={itemStyle}>
+          <FloppyDisk
+            ref={(element) => {
+              if (element) itemRefs.current.set(id, element);
+              else itemRefs.current.delete(id);
+            }}
+            data-disk-id={id}
+            theme={theme}
+            animation={animation}
+            {...diskProps}
+            size={size}
+            onClick={handleDiskClick}
+            onFocus={handleDiskFocus}
+            role="option"
+            aria-selected={isTop}
+            tabIndex={isTop ? ACTIVE_TAB_INDEX : INACTIVE_TAB_INDEX}
+          />
+        </div>
+      );
+    };
+
+    const containerClasses = [
+      styles.stack,
+      layout === 'box' && styles.box,
+      isFanned && styles.fanned,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    return (
+      <div
+        className={containerClasses}
+        style={{ ...cssVariables, ...style }}
+        onKeyDown={handleKeyDown}
+        onMouseEnter={handleMouseEnter}
+        onMouseLeave={handleMouseLeave}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        role="listbox"
+        aria-orientation="horizontal"
+        aria-label={ariaLabel || DEFAULT_ARIA_LABEL}
+        data-testid={dataTestId}
+        data-layout={layout}
+        data-expanded={isFanned}
+      >
+        {disks.map(renderDisk)}
+        {layout === 'box' && (
+          <div className={styles.boxFront} aria-hidden="true" />
+        )}
+      </div>
+    );
+  },
+);
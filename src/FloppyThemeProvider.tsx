@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import {
+  DEFAULT_THEME,
+  FloppyDiskSize,
+  FloppySize,
+  FloppyThemeProviderProps,
+  FloppyThemeSettings,
+} from './types';
+import { useColorScheme } from './useColorScheme';
+import {
+  isSchemeDependentTheme,
+  mergeFloppyTheme,
+  resolveThemeInput,
+} from './themeResolution';
+
+const DEFAULT_SETTINGS: FloppyThemeSettings = {
+  theme: DEFAULT_THEME,
+  animation: {},
+  size: 'medium',
+  variant: 'interactive',
+};
+
+const FloppyThemeContext = createContext<FloppyThemeSettings>(DEFAULT_SETTINGS);
+// The size an enclosing provider sets, which collections tell apart from the
+// library default
+const ProvidedSizeContext = createContext<FloppyDiskSize | undefined>(
+  undefined,
+);
+
+/**
+ * Supplies default `theme`, `animation`, `size` and `variant` props to every
+ * FloppyDisk and FloppyDisk525 beneath it, so large collections don't repeat
+ * them on each disk.
+ *
+ * Providers nest: an inner provider's theme and animation are deep-merged
+ * over the outer one's, and its size and variant replace them. Props set on a
+ * disk always win. Collections (FloppyShelf, FloppyVirtualShelf, FloppyStack,
+ * FloppyDrive) without a `size` prop use the provider's size for their disks,
+ * unless it is 'fluid'.
+ *
+ * With `theme="auto"` or `theme={{ light, dark }}`, the provider follows
+ * `prefers-color-scheme`, or a `data-theme="light"` / `data-theme="dark"`
+ * attribute on the document element.
+ *
+ * @example
+ * ```tsx
+ * <FloppyThemeProvider theme={DARK_FLOPPY_THEME} size="small">
+ *   <FloppyDisk label={{ name: 'Doom' }} />
+ *   <FloppyThemeProvider theme={{ labelColor: '#ffe9a8' }}>
+ *     <FloppyDisk label={{ name: 'Heretic' }} />
+ *   </FloppyThemeProvider>
+ * </FloppyThemeProvider>
+ * ```
+ */
+export const FloppyThemeProvider: React.FC<FloppyThemeProviderProps> = ({
+  theme,
+  animation,
+  size,
+  variant,
+  children,
+}) => {
+  const parent = useContext(FloppyThemeContext);
+  const parentSize = useContext(ProvidedSizeContext);
+  const colorScheme = useColorScheme(null, isSchemeDependentTheme(theme));
+
+  const settings = useMemo<FloppyThemeSettings>(
+    () => ({
+      theme: mergeFloppyTheme(
+        parent.theme,
+        resolveThemeInput(theme, colorScheme),
+      ),
+      animation: animation
+        ? { ...parent.animation, ...animation }
+        : parent.animation,
+      size: size ?? parent.size,
+      variant: variant ?? parent.variant,
+    }),
+    [parent, theme, colorScheme, animation, size, variant],
+  );
+
+  return (
+    <FloppyThemeContext.Provider value={settings}>
+      <ProvidedSizeContext.Provider value={size ?? parentSize}>
+        {children}
+      </ProvidedSizeContext.Provider>
+    </FloppyThemeContext.Provider>
+  );
+};
+
+/**
+ * Reads the disk defaults of the nearest FloppyThemeProvider, for custom
+ * components that should match the disks around them
+ * @returns Resolved theme (over DEFAULT_THEME), animation, size and variant; the library defaults outside a provider
+ *
+ * @example
+ * ```tsx
+ * const { theme } = useFloppyTheme();
+ * return <span style={{ color: theme.labelTextColor }}>{title}</span>;
+ * ```
+ */
+export function useFloppyTheme(): FloppyThemeSettings {
+  return useContext(FloppyThemeContext);
+}
+
+/**
+ * Resolves the disk size of a collection: its own `size` prop, else the size
+ * of the nearest FloppyThemeProvider that sets one, else the collection's
+ * default. Collections lay out fixed cells, so a provided 'fluid' is ignored.
+ * @param size - The collection's `size` prop
+ * @param defaultSize - The collection's size outside a sizing provider
+ */
+export function useCollectionSize(
+  size: FloppySize | undefined,
+  defaultSize: FloppySize,
+): FloppySize {
+  const providedSize = useContext(ProvidedSizeContext);
+  if (size !== undefined) return size;
+  return providedSize === undefined || providedSize === 'fluid'
+    ? defaultSize
+    : providedSize;
+}
@@ -0,0 +1,8 @@
+declare const styles: {
+  readonly viewport: string;
+  readonly content: string;
+  readonly row: string;
+  readonly list: string;
+};
+
+export default styles;
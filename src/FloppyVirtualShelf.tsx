@@ -0,0 +1,312 @@
+import React, { CSSProperties, useLayoutEffect, useRef, useState } from 'react';
+import { FloppyShelfItem, FloppyVirtualShelfProps, SIZE_MAP } from './types';
+import styles from './FloppyVirtualShelf.module.css';
+import { FloppyDisk } from './FloppyDisk';
+import { useCollectionSize } from './FloppyThemeProvider';
+import { useControllableState } from './useControllableState';
+import { useShelfKeyboard } from './useShelfKeyboard';
+
+// Constants for component behavior
+const ACTIVE_TAB_INDEX = 0;
+const INACTIVE_TAB_INDEX = -1;
+const DEFAULT_GRID_GAP_PX = 30;
+const DEFAULT_LIST_GAP_PX = 10;
+const DEFAULT_OVERSCAN_ROWS = 2;
+// Used until the viewport has been measured, and where there is no layout
+const FALLBACK_VIEWPORT_HEIGHT_PX = 600;
+const DEFAULT_ARIA_LABEL = 'Disk shelf';
+
+// Scroll offsets by scrollRestorationKey, kept while the page is open
+const scrollPositions = new Map<string, number>();
+
+interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * A shelf for very large disk libraries that only mounts the rows near the
+ * visible area.
+ *
+ * Disks sit in fixed cells of `size`; the column count follows the viewport
+ * width unless `columns` is set. Keyboard navigation matches FloppyShelf and
+ * scrolls the active disk into view. The active disk's row always stays
+ * mounted, so focus survives scrolling it out of view.
+ *
+ * @example
+ * ```tsx
+ * <FloppyVirtualShelf
+ *   height={480}
+ *   items={library.map((game) => ({ id: game.id, label: { name: game.title } }))}
+ *   scrollRestorationKey="library"
+ * />
+ * ```
+ */
+export const FloppyVirtualShelf: React.FC<FloppyVirtualShelfProps> = React.memo(
+  ({
+    items,
+    layout = 'grid',
+    size,
+    columns,
+    pageRows,
+    activeId,
+    defaultActiveId,
+    onActiveChange,
+    onKeyDown,
+    height,
+    gap,
+    overscanRows = DEFAULT_OVERSCAN_ROWS,
+    scrollRestorationKey,
+    className = '',
+    style,
+    'data-testid': dataTestId,
+    ariaLabel,
+    'aria-multiselectable': ariaMultiselectable,
+  }) => {
+    const isGrid = layout === 'grid';
+    const shelfSize = useCollectionSize(size, isGrid ? 'medium' : 'tiny');
+    const itemSizeInPx =
+      typeof shelfSize === 'number' ? shelfSize : SIZE_MAP[shelfSize];
+    const gapInPx = gap ?? (isGrid ? DEFAULT_GRID_GAP_PX : DEFAULT_LIST_GAP_PX);
+    const rowStride = itemSizeInPx + gapInPx;
+
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const itemRefs = useRef(new Map<string, HTMLElement>());
+    // Disk to focus once it has been mounted
+    const pendingFocusRef = useRef<string | null>(null);
+    // Scroll position is restored once per key, not when the row height changes
+    const restoredKeyRef = useRef<string | undefined>(undefined);
+
+    const [viewportSize, setViewportSize] = useState<ViewportSize>({
+      width: 0,
+      height: 0,
+    });
+    const [scrollRow, setScrollRow] = useState(0);
+
+    const [currentActiveId, setActiveId] = useControllableState<
+      string | undefined
+    >(activeId, defaultActiveId, (id) => {
+      if (id !== undefined && onActiveChange) onActiveChange(id);
+    });
+
+    const matchedIndex = items.findIndex((item) => item.id === currentActiveId);
+    const firstEnabledIndex = items.findIndex((item) => !item.disabled);
+    const activeIndex =
+      matchedIndex !== -1 ? matchedIndex : Math.max(0, firstEnabledIndex);
+
+    const columnCount = !isGrid
+      ? 1
+      : (columns ??
+        Math.max(1, Math.floor((viewportSize.width + gapInPx) / rowStride)));
+    const rowCount = Math.ceil(items.length / columnCount);
+    const viewportHeight =
+      viewportSize.height ||
+      (typeof height === 'number' ? height : FALLBACK_VIEWPORT_HEIGHT_PX);
+    const visibleRows = Math.max(1, Math.floor(viewportHeight / rowStride));
+
+    const firstRow = Math.max(0, scrollRow - overscanRows);
+    const lastRow = Math.min(
+      rowCount - 1,
+      scrollRow + Math.ceil(viewportHeight / rowStride) + overscanRows,
+    );
+    const activeRow = Math.floor(activeIndex / columnCount);
+    const renderedRows: number[] = [];
+    if (activeRow < firstRow && activeRow < rowCount)
+      renderedRows.push(activeRow);
+    for (let row = firstRow; row <= lastRow; row++) renderedRows.push(row);
+    if (activeRow > lastRow && activeRow < rowCount)
+      renderedRows.push(activeRow);
+
+    useLayoutEffect(() => {
+      const viewport = viewportRef.current;
+      if (!viewport) return undefined;
+
+      const measure = () => {
+        const { clientWidth, clientHeight } = viewport;
+
+        // A new column count regroups rows and remounts the focused disk
+        const focused = document.activeElement;
+        itemRefs.current.forEach((element, id) => {
+          if (element === focused) pendingFocusRef.current = id;
+        });
+
+        setViewportSize((previous) =>
+          previous.width === clientWidth && previous.height === clientHeight
+            ? previous
+            : { width: clientWidth, height: clientHeight },
+        );
+      };
+
+      measure();
+      const ResizeObserverClass = window.ResizeObserver;
+      if (typeof ResizeObserverClass === 'function') {
+        const observer = new ResizeObserverClass(measure);
+        observer.observe(viewport);
+        return () => observer.disconnect();
+      }
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }, []);
+
+    useLayoutEffect(() => {
+      const viewport = viewportRef.current;
+      if (!viewport || !scrollRestorationKey) return;
+      if (restoredKeyRef.current === scrollRestorationKey) return;
+      restoredKeyRef.current = scrollRestorationKey;
+
+      const savedScrollTop = scrollPositions.get(scrollRestorationKey);
+      if (savedScrollTop === undefined) return;
+      viewport.scrollTop = savedScrollTop;
+      setScrollRow(Math.floor(viewport.scrollTop / rowStride));
+    }, [scrollRestorationKey, rowStride]);
+
+    useLayoutEffect(() => {
+      const targetId = pendingFocusRef.current;
+      if (!targetId) return;
+      const element = itemRefs.current.get(targetId);
+      if (!element) return;
+
+      pendingFocusRef.current = null;
+      if (document.activeElement !== element) element.focus();
+    });
+
+    const updateScrollTop = (scrollTop: number) => {
+      if (scrollRestorationKey) {
+        scrollPositions.set(scrollRestorationKey, scrollTop);
+      }
+      setScrollRow(Math.floor(scrollTop / rowStride));
+    };
+
+    const handleScroll = () => {
+      const viewport = viewportRef.current;
+      if (viewport) updateScrollTop(viewport.scrollTop);
+    };
+
+    const scrollRowIntoView = (row: number) => {
+      const viewport = viewportRef.current;
+      if (!viewport) return;
+
+      const rowTop = row * rowStride;
+      const rowBottom = rowTop + itemSizeInPx;
+      const { scrollTop } = viewport;
+      let nextScrollTop = scrollTop;
+      if (rowTop < scrollTop) nextScrollTop = rowTop;
+      else if (rowBottom > scrollTop + viewportHeight) {
+        nextScrollTop = rowBottom - viewportHeight;
+      }
+      if (nextScrollTop === scrollTop) return;
+
+      viewport.scrollTop = nextScrollTop;
+      updateScrollTop(nextScrollTop);
+    };
+
+    const moveTo = (index: number) => {
+      const item = items[index];
+      if (!item) return;
+      scrollRowIntoView(Math.floor(index / columnCount));
+
+      // Focusing the disk makes it active, so onActiveChange fires once
+      const element = itemRefs.current.get(item.id);
+      if (element) element.focus();
+      else pendingFocusRef.current = item.id;
+      if (!element || document.activeElement !== element) setActiveId(item.id);
+    };
+
+    const handleKeyDownCapture = useShelfKeyboard({
+      items,
+      activeIndex,
+      getColumns: () => columnCount,
+      pageRows: pageRows ?? visibleRows,
+      moveTo,
+      onKeyDown,
+    });
+
+    const renderItem = (item: FloppyShelfItem, index: number) => {
+      const { id, onFocus, ...diskProps } = item;
+
+      const handleItemFocus = (isFocused: boolean) => {
+        if (isFocused && id !== currentActiveId) setActiveId(id);
+        if (onFocus) onFocus(isFocused);
+      };
+
+      return (
+        <FloppyDisk
+          key={id}
+          ref={(element) => {
+            if (element) itemRefs.current.set(id, element);
+            else itemRefs.current.delete(id);
+          }}
+          variant={isGrid ? undefined : 'compact'}
+          data-disk-id={id}
+          {...diskProps}
+          size={shelfSize}
+          onFocus={handleItemFocus}
+          role={isGrid ? 'gridcell' : 'option'}
+          aria-selected={
+            isGrid && !ariaMultiselectable
+              ? item.selected
+              : Boolean(item.selected)
+          }
+          aria-posinset={isGrid ? undefined : index + 1}
+          aria-setsize={isGrid ? undefined : items.length}
+          tabIndex={
+            index === activeIndex ? ACTIVE_TAB_INDEX : INACTIVE_TAB_INDEX
+          }
+        />
+      );
+    };
+
+    const containerClasses = [
+      styles.viewport,
+      !isGrid && styles.list,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const shelfVariables = {
+      '--shelf-item-size': `${itemSizeInPx}px`,
+      '--shelf-columns': columnCount,
+      '--shelf-gap': `${gapInPx}px`,
+    } as CSSProperties;
+
+    return (
+      <div
+        ref={viewportRef}
+        className={containerClasses}
+        style={{ ...shelfVariables, height, ...style }}
+        onScroll={handleScroll}
+        onKeyDownCapture={handleKeyDownCapture}
+        role={isGrid ? 'grid' : 'listbox'}
+        aria-label={ariaLabel || DEFAULT_ARIA_LABEL}
+        aria-orientation={isGrid ? undefined : 'vertical'}
+        aria-multiselectable={ariaMultiselectable}
+        aria-rowcount={isGrid ? rowCount : undefined}
+        aria-colcount={isGrid ? columnCount : undefined}
+        data-testid={dataTestId}
+      >
+        <div
+          className={styles.content}
+          style={{ height: Math.max(0, rowCount * rowStride - gapInPx) }}
+          role="presentation"
+        >
+          {renderedRows.map((row) => (
+            <div
+              key={row}
+              className={styles.row}
+              style={{ transform: `translateY(${row * rowStride}px)` }}
+              role={isGrid ? 'row' : 'presentation'}
+              aria-rowindex={isGrid ? row + 1 : undefined}
+            >
+              {items
+                .slice(row * columnCount, (row + 1) * columnCount)
+                .map((item, column) =>
+                  renderItem(item, row * columnCount + column),
+                )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  },
+);
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { act, render, screen, fireEvent, within } from '@testing-library/react';
 import {
   FloppyDisk,
   DARK_FLOPPY_THEME,
@@ -553,4 +553,659 @@ describe('FloppyDisk', () => {
     // Should contain the custom angle
     expect(gradient).toContain('45deg');
   });
+
+  // Side and flip tests
+  it('does not render the back face by default', () => {
+    const { container } = render(<FloppyDisk label={{ name: 'Front' }} />);
+    const figure = container.querySelector('figure');
+
+    expect(figure?.className).not.toMatch(/flipped/);
+    expect(container.querySelector('[class*="backFace"]')).toBeNull();
+  });
+
+  it('renders the back side with description and metadata', () => {
+    render(
+      <FloppyDisk
+        side="back"
+        diskType="HD"
+        label={{
+          name: 'Second Reality',
+          author: 'Future Crew',
+          year: '1993',
+          description: 'Legendary demo',
+          type: 'ZIP',
+          size: '1.44 MB',
+        }}
+      />,
+    );
+
+    const figure = screen.getByRole('button');
+    expect(figure.className).toMatch(/flipped/);
+    expect(figure).toHaveAttribute(
+      'aria-label',
+      'Second Reality by Future Crew (back side)',
+    );
+    expect(screen.getByText('Legendary demo')).toBeInTheDocument();
+    expect(screen.getByText('ZIP · 1.44 MB · 1993')).toBeInTheDocument();
+    expect(figure.querySelector('[class*="densityHole"]')).not.toBeNull();
+  });
+
+  it('omits the density hole on DD disks', () => {
+    const { container } = render(<FloppyDisk side="back" diskType="DD" />);
+    expect(container.querySelector('[class*="densityHole"]')).toBeNull();
+    expect(
+      container.querySelector('[class*="writeProtectHole"]'),
+    ).not.toBeNull();
+  });
+
+  it('flips with the F key when flippable', () => {
+    const handleSideChange = vi.fn();
+    render(<FloppyDisk flippable onSideChange={handleSideChange} />);
+    const figure = screen.getByRole('button');
+
+    expect(figure.className).toMatch(/flippable/);
+    expect(figure.className).not.toMatch(/flipped/);
+
+    fireEvent.keyDown(figure, { key: 'f' });
+    expect(handleSideChange).toHaveBeenLastCalledWith('back');
+    expect(figure.className).toMatch(/flipped/);
+
+    fireEvent.keyDown(figure, { key: 'F' });
+    expect(handleSideChange).toHaveBeenLastCalledWith('front');
+    expect(figure.className).not.toMatch(/flipped/);
+  });
+
+  it('ignores the F key when not flippable or disabled', () => {
+    const handleSideChange = vi.fn();
+    const { rerender } = render(<FloppyDisk onSideChange={handleSideChange} />);
+
+    fireEvent.keyDown(screen.getByRole('button'), { key: 'f' });
+    rerender(<FloppyDisk flippable disabled onSideChange={handleSideChange} />);
+    fireEvent.keyDown(screen.getByRole('button'), { key: 'f' });
+
+    expect(handleSideChange).not.toHaveBeenCalled();
+  });
+
+  it('keeps a controlled side until the parent updates it', () => {
+    const handleSideChange = vi.fn();
+    render(
+      <FloppyDisk flippable side="front" onSideChange={handleSideChange} />,
+    );
+    const figure = screen.getByRole('button');
+
+    fireEvent.keyDown(figure, { key: 'f' });
+    expect(handleSideChange).toHaveBeenCalledWith('back');
+    expect(figure.className).not.toMatch(/flipped/);
+  });
+
+  it('starts on defaultSide when uncontrolled', () => {
+    render(<FloppyDisk flippable defaultSide="back" />);
+    expect(screen.getByRole('button').className).toMatch(/flipped/);
+  });
+
+  it('applies flip duration and respects disableAnimations', () => {
+    const { container, rerender } = render(
+      <FloppyDisk flippable animation={{ flipDuration: 900 }} />,
+    );
+    const figure = container.querySelector('figure');
+    expect(figure?.style.getPropertyValue('--flip-duration')).toBe('900ms');
+
+    rerender(
+      <FloppyDisk
+        flippable
+        animation={{ flipDuration: 900, disableAnimations: true }}
+      />,
+    );
+    expect(figure?.style.getPropertyValue('--flip-duration')).toBe('0ms');
+  });
+
+  // Write-protect tests
+  it('does not render a write-protect switch by default', () => {
+    render(<FloppyDisk />);
+    expect(screen.queryByRole('switch')).not.toBeInTheDocument();
+  });
+
+  it('toggles an uncontrolled write-protect tab on click', () => {
+    const handleWriteProtectChange = vi.fn();
+    const handleClick = vi.fn();
+    render(
+      <FloppyDisk
+        defaultWriteProtected={false}
+        onWriteProtectChange={handleWriteProtectChange}
+        onClick={handleClick}
+      />,
+    );
+    const toggle = screen.getByRole('switch', { name: 'Write protection' });
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+    expect(handleWriteProtectChange).toHaveBeenCalledWith(true);
+    expect(handleClick).not.toHaveBeenCalled();
+  });
+
+  it('exposes the disk as a group so the write-protect switch stays reachable', () => {
+    render(<FloppyDisk label={{ name: 'Backup' }} defaultWriteProtected />);
+
+    const disk = screen.getByRole('group', { name: /^Backup/ });
+    expect(screen.queryByRole('button')).toBeNull();
+    expect(within(disk).getByRole('switch')).toBeInTheDocument();
+  });
+
+  it('toggles write protection with Enter and Space without activating the disk', () => {
+    const handleClick = vi.fn();
+    render(<FloppyDisk defaultWriteProtected onClick={handleClick} />);
+    const toggle = screen.getByRole('switch');
+
+    fireEvent.keyDown(toggle, { key: 'Enter' });
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+
+    fireEvent.keyDown(toggle, { key: ' ' });
+    fireEvent.keyUp(toggle, { key: ' ' });
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+    expect(handleClick).not.toHaveBeenCalled();
+  });
+
+  it('keeps the write-protect switch out of a collection tab order', () => {
+    render(
+      <FloppyDisk role="gridcell" tabIndex={0} defaultWriteProtected={false} />,
+    );
+    const disk = screen.getByRole('gridcell');
+    const toggle = within(disk).getByRole('switch');
+    expect(disk).toHaveAttribute('tabIndex', '0');
+    expect(toggle).toHaveAttribute('tabIndex', '-1');
+
+    fireEvent.keyDown(disk, { key: 'w' });
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('announces write protection on options instead of a nested switch', () => {
+    const { container } = render(
+      <FloppyDisk
+        role="option"
+        tabIndex={-1}
+        label={{ name: 'Backup' }}
+        defaultWriteProtected
+      />,
+    );
+
+    expect(screen.getByRole('option')).toHaveAccessibleName(
+      /Backup .*\(write-protected\)$/,
+    );
+    expect(screen.queryByRole('switch')).toBeNull();
+    expect(container.querySelector('[role="switch"]')).toHaveAttribute(
+      'tabIndex',
+      '-1',
+    );
+  });
+
+  it('keeps a controlled write-protect state until the parent updates it', () => {
+    const handleWriteProtectChange = vi.fn();
+    const { rerender } = render(
+      <FloppyDisk
+        writeProtected={false}
+        onWriteProtectChange={handleWriteProtectChange}
+      />,
+    );
+    const toggle = screen.getByRole('switch');
+
+    fireEvent.click(toggle);
+    expect(handleWriteProtectChange).toHaveBeenCalledWith(true);
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+
+    rerender(
+      <FloppyDisk
+        writeProtected
+        onWriteProtectChange={handleWriteProtectChange}
+      />,
+    );
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('does not toggle write protection when disabled', () => {
+    const handleWriteProtectChange = vi.fn();
+    render(
+      <FloppyDisk
+        disabled
+        writeProtected={false}
+        onWriteProtectChange={handleWriteProtectChange}
+      />,
+    );
+    const toggle = screen.getByRole('switch');
+
+    fireEvent.click(toggle);
+    fireEvent.keyDown(toggle, { key: 'Enter' });
+
+    expect(handleWriteProtectChange).not.toHaveBeenCalled();
+    expect(toggle).toHaveAttribute('aria-disabled', 'true');
+    expect(toggle).toHaveAttribute('tabIndex', '-1');
+  });
+
+  // Slide state tests
+  const getSlide = (container: HTMLElement) =>
+    container.querySelector('[class*="cutout"]')?.parentElement;
+
+  it('opens the slide on hover and reports changes', () => {
+    const handleSlideOpenChange = vi.fn();
+    const { container } = render(
+      <FloppyDisk size="medium" onSlideOpenChange={handleSlideOpenChange} />,
+    );
+    const slide = getSlide(container)!;
+
+    fireEvent.mouseEnter(slide);
+    expect(slide.className).toMatch(/slideOpen/);
+    expect(handleSlideOpenChange).toHaveBeenLastCalledWith(true);
+
+    fireEvent.mouseLeave(slide);
+    expect(slide.className).not.toMatch(/slideOpen/);
+    expect(handleSlideOpenChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('does not open the slide on hover when enableSlideHover is false', () => {
+    const handleSlideOpenChange = vi.fn();
+    const { container } = render(
+      <FloppyDisk
+        enableSlideHover={false}
+        onSlideOpenChange={handleSlideOpenChange}
+      />,
+    );
+
+    fireEvent.mouseEnter(getSlide(container)!);
+
+    expect(handleSlideOpenChange).not.toHaveBeenCalled();
+  });
+
+  it('toggles the slide with the O key', () => {
+    const handleSlideOpenChange = vi.fn();
+    const { container } = render(
+      <FloppyDisk onSlideOpenChange={handleSlideOpenChange} />,
+    );
+
+    fireEvent.keyDown(screen.getByRole('button'), { key: 'o' });
+    expect(getSlide(container)!.className).toMatch(/slideOpen/);
+    expect(handleSlideOpenChange).toHaveBeenCalledWith(true);
+
+    fireEvent.keyDown(screen.getByRole('button'), { key: 'O' });
+    expect(getSlide(container)!.className).not.toMatch(/slideOpen/);
+  });
+
+  it('toggles the slide on tap without activating the disk', () => {
+    const handleClick = vi.fn();
+    const { container } = render(<FloppyDisk onClick={handleClick} />);
+    const slide = getSlide(container)!;
+
+    fireEvent.touchStart(slide);
+    fireEvent.touchEnd(slide);
+    expect(slide.className).toMatch(/slideOpen/);
+
+    // A scroll gesture ending on the slide is not a tap
+    fireEvent.touchStart(slide);
+    fireEvent.touchMove(slide);
+    fireEvent.touchEnd(slide);
+    expect(slide.className).toMatch(/slideOpen/);
+    expect(handleClick).not.toHaveBeenCalled();
+  });
+
+  it('keeps a controlled slide state until the parent updates it', () => {
+    const handleSlideOpenChange = vi.fn();
+    const { container, rerender } = render(
+      <FloppyDisk
+        slideOpen={false}
+        onSlideOpenChange={handleSlideOpenChange}
+      />,
+    );
+    const slide = getSlide(container)!;
+
+    fireEvent.keyDown(screen.getByRole('button'), { key: 'o' });
+    expect(handleSlideOpenChange).toHaveBeenCalledWith(true);
+    expect(slide.className).not.toMatch(/slideOpen/);
+
+    rerender(
+      <FloppyDisk slideOpen onSlideOpenChange={handleSlideOpenChange} />,
+    );
+    expect(slide.className).toMatch(/slideOpen/);
+  });
+
+  it('starts on defaultSlideOpen when uncontrolled', () => {
+    const { container } = render(<FloppyDisk defaultSlideOpen />);
+    expect(getSlide(container)!.className).toMatch(/slideOpen/);
+  });
+
+  it('applies slide duration and respects disableAnimations', () => {
+    const { container, rerender } = render(<FloppyDisk />);
+    const figure = container.querySelector('figure');
+    expect(figure?.style.getPropertyValue('--slide-duration')).toBe('300ms');
+
+    rerender(<FloppyDisk animation={{ slideDuration: 800 }} />);
+    expect(figure?.style.getPropertyValue('--slide-duration')).toBe('800ms');
+
+    rerender(
+      <FloppyDisk
+        animation={{ slideDuration: 800, disableAnimations: true }}
+      />,
+    );
+    expect(figure?.style.getPropertyValue('--slide-duration')).toBe('0ms');
+  });
+
+  describe('label images', () => {
+    const getLabel = (container: HTMLElement) =>
+      container.querySelector('[data-image-fit]') as HTMLElement | null;
+
+    it('renders an image URL in the contain layout by default', () => {
+      const { container } = render(
+        <FloppyDisk
+          label={{
+            name: 'SimCity',
+            year: '1989',
+            image: '/box/simcity.png',
+            imageAlt: 'SimCity box art',
+          }}
+        />,
+      );
+      const label = getLabel(container);
+
+      expect(label).toHaveAttribute('data-image-fit', 'contain');
+      expect(label?.className).toMatch(/imageContain/);
+      expect(screen.getByAltText('SimCity box art')).toHaveAttribute(
+        'src',
+        '/box/simcity.png',
+      );
+      // The year moves into the text area next to the image
+      expect(screen.getByText('1989').parentElement?.className).toMatch(
+        /lines/,
+      );
+    });
+
+    it('supports cover, icon-left and bottom positions', () => {
+      const { container, rerender } = render(
+        <FloppyDisk
+          label={{ name: 'Doom', image: '/doom.png', imageFit: 'cover' }}
+        />,
+      );
+      expect(getLabel(container)?.className).toMatch(/imageCover/);
+
+      rerender(
+        <FloppyDisk
+          label={{ name: 'Doom', image: '/doom.png', imageFit: 'icon-left' }}
+        />,
+      );
+      expect(getLabel(container)?.className).toMatch(/imageIconLeft/);
+
+      rerender(
+        <FloppyDisk
+          label={{ name: 'Doom', image: '/doom.png', imagePosition: 'bottom' }}
+        />,
+      );
+      expect(getLabel(container)?.className).toMatch(/imageBottom/);
+    });
+
+    it('renders React node images', () => {
+      render(
+        <FloppyDisk
+          label={{
+            name: 'Logo',
+            image: <svg data-testid="company-logo" />,
+            imageFit: 'icon-left',
+          }}
+        />,
+      );
+      expect(screen.getByTestId('company-logo')).toBeInTheDocument();
+    });
+
+    it('shows the fallback when an image fails to load', () => {
+      const { container } = render(
+        <FloppyDisk
+          label={{
+            name: 'Broken',
+            image: '/missing.png',
+            imageFallback: <span>No art</span>,
+          }}
+        />,
+      );
+
+      fireEvent.error(container.querySelector('img')!);
+
+      expect(container.querySelector('img')).toBeNull();
+      expect(screen.getByText('No art')).toBeInTheDocument();
+    });
+
+    it('falls back to the text-only label without a fallback', () => {
+      const { container, rerender } = render(
+        <FloppyDisk label={{ name: 'Broken', image: '/missing.png' }} />,
+      );
+
+      fireEvent.error(container.querySelector('img')!);
+      expect(getLabel(container)).toBeNull();
+
+      // A new URL is tried again
+      rerender(<FloppyDisk label={{ name: 'Broken', image: '/found.png' }} />);
+      expect(container.querySelector('img')).toHaveAttribute(
+        'src',
+        '/found.png',
+      );
+    });
+  });
+
+  describe('inline label editing', () => {
+    const LABEL = { name: 'Untitled', author: 'Me', year: '1994' };
+
+    it('edits the label in place and saves with Enter', () => {
+      const handleLabelChange = vi.fn();
+      const handleClick = vi.fn();
+      render(
+        <FloppyDisk
+          label={LABEL}
+          editable
+          onLabelChange={handleLabelChange}
+          onClick={handleClick}
+        />,
+      );
+      const disk = screen.getByRole('button');
+
+      fireEvent.keyDown(disk, { key: 'Enter' });
+      const name = screen.getByLabelText('Disk name');
+      expect(name).toHaveFocus();
+      expect(name).toHaveValue('Untitled');
+      expect(handleClick).not.toHaveBeenCalled();
+
+      fireEvent.change(name, { target: { value: 'Tax returns' } });
+      fireEvent.change(screen.getByLabelText('Year'), {
+        target: { value: '' },
+      });
+      fireEvent.keyDown(name, { key: 'Enter' });
+
+      expect(handleLabelChange).toHaveBeenCalledTimes(1);
+      expect(handleLabelChange).toHaveBeenCalledWith({
+        name: 'Tax returns',
+        author: 'Me',
+        year: undefined,
+      });
+      expect(screen.queryByLabelText('Disk name')).toBeNull();
+      expect(disk).toHaveFocus();
+      expect(handleClick).not.toHaveBeenCalled();
+    });
+
+    it('cancels with Escape', () => {
+      const handleLabelChange = vi.fn();
+      render(
+        <FloppyDisk label={LABEL} editable onLabelChange={handleLabelChange} />,
+      );
+
+      fireEvent.keyDown(screen.getByRole('button'), { key: 'F2' });
+      const name = screen.getByLabelText('Disk name');
+      fireEvent.change(name, { target: { value: 'Discarded' } });
+      fireEvent.keyDown(name, { key: 'Escape' });
+
+      expect(handleLabelChange).not.toHaveBeenCalled();
+      expect(screen.getByText('Untitled')).toBeInTheDocument();
+    });
+
+    it('focuses the double-clicked field and saves on blur', () => {
+      const handleLabelChange = vi.fn();
+      const handleDoubleClick = vi.fn();
+      render(
+        <FloppyDisk
+          label={LABEL}
+          editable
+          onLabelChange={handleLabelChange}
+          onDoubleClick={handleDoubleClick}
+        />,
+      );
+
+      fireEvent.doubleClick(screen.getByText('1994'));
+      const year = screen.getByLabelText('Year');
+      expect(year).toHaveFocus();
+      expect(handleDoubleClick).not.toHaveBeenCalled();
+
+      // Moving between fields keeps editing
+      fireEvent.change(year, { target: { value: '1995' } });
+      fireEvent.blur(year, { relatedTarget: screen.getByLabelText('Author') });
+      expect(handleLabelChange).not.toHaveBeenCalled();
+
+      fireEvent.blur(screen.getByLabelText('Author'), {
+        relatedTarget: document.body,
+      });
+      expect(handleLabelChange).toHaveBeenCalledWith({
+        ...LABEL,
+        year: '1995',
+      });
+    });
+
+    it('enforces maximum lengths and keeps typing away from disk shortcuts', () => {
+      const handleSideChange = vi.fn();
+      render(
+        <FloppyDisk
+          label={LABEL}
+          editable
+          flippable
+          onSideChange={handleSideChange}
+          labelMaxLength={{ name: 5 }}
+        />,
+      );
+
+      fireEvent.keyDown(screen.getByRole('button'), { key: 'Enter' });
+      const name = screen.getByLabelText('Disk name');
+      expect(name).toHaveAttribute('maxLength', '5');
+      expect(screen.getByLabelText('Author')).toHaveAttribute(
+        'maxLength',
+        '40',
+      );
+
+      fireEvent.change(name, { target: { value: 'Floppy disk' } });
+      expect(name).toHaveValue('Flopp');
+
+      fireEvent.keyDown(name, { key: 'f' });
+      expect(handleSideChange).not.toHaveBeenCalled();
+    });
+
+    it('does not edit when disabled or not editable', () => {
+      const handleDoubleClick = vi.fn();
+      const { rerender } = render(
+        <FloppyDisk label={LABEL} onDoubleClick={handleDoubleClick} />,
+      );
+
+      fireEvent.doubleClick(screen.getByRole('button'));
+      expect(handleDoubleClick).toHaveBeenCalledTimes(1);
+      expect(screen.queryByLabelText('Disk name')).toBeNull();
+
+      rerender(<FloppyDisk label={LABEL} editable disabled />);
+      fireEvent.keyDown(screen.getByRole('button'), { key: 'F2' });
+      expect(screen.queryByLabelText('Disk name')).toBeNull();
+    });
+  });
+
+  describe('fluid size', () => {
+    const originalResizeObserver = window.ResizeObserver;
+    const clientWidth = Object.getOwnPropertyDescriptor(
+      window.Element.prototype,
+      'clientWidth',
+    );
+    let resizeCallbacks: Array<() => void>;
+
+    // Containers report the width in their data-width attribute
+    beforeEach(() => {
+      resizeCallbacks = [];
+      window.ResizeObserver = class {
+        constructor(callback: () => void) {
+          resizeCallbacks.push(callback);
+        }
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      } as unknown as typeof window.ResizeObserver;
+      Object.defineProperty(window.Element.prototype, 'clientWidth', {
+        configurable: true,
+        get(this: HTMLElement) {
+          return Number(this.getAttribute('data-width')) || 0;
+        },
+      });
+    });
+
+    afterEach(() => {
+      window.ResizeObserver = originalResizeObserver;
+      Object.defineProperty(
+        window.Element.prototype,
+        'clientWidth',
+        clientWidth!,
+      );
+    });
+
+    const renderInContainer = (
+      width: number,
+      props: React.ComponentProps<typeof FloppyDisk> = {},
+    ) =>
+      render(
+        <div data-width={width} style={{ padding: '0 10px' }}>
+          <FloppyDisk size="fluid" {...props} />
+        </div>,
+      );
+
+    it('fills the content width of its container', () => {
+      renderInContainer(420);
+      const figure = screen.getByRole('button');
+
+      // 400px content box minus a 2px border on each side
+      expect(figure).toHaveStyle({
+        '--floppy-size': '396px',
+        '--floppy-border': '2px',
+      });
+    });
+
+    it('uses the medium size until measured, within the bounds', () => {
+      const { unmount } = renderInContainer(0);
+      expect(screen.getByRole('button')).toHaveStyle({
+        '--floppy-size': '200px',
+      });
+      unmount();
+
+      renderInContainer(0, { maxSize: 150 });
+      expect(screen.getByRole('button')).toHaveStyle({
+        '--floppy-size': '150px',
+      });
+    });
+
+    it('follows container resizes within minSize and maxSize', () => {
+      const { container } = renderInContainer(320, {
+        minSize: 100,
+        maxSize: 250,
+      });
+      const figure = screen.getByRole('button');
+      expect(figure).toHaveStyle({ '--floppy-size': '250px' });
+
+      container.firstElementChild!.setAttribute('data-width', '100');
+      act(() => resizeCallbacks.forEach((callback) => callback()));
+      expect(figure).toHaveStyle({ '--floppy-size': '100px' });
+    });
+
+    it('derives the slide hover default from the measured size', () => {
+      const handleSlideOpenChange = vi.fn();
+      const { container } = renderInContainer(150, {
+        onSlideOpenChange: handleSlideOpenChange,
+      });
+
+      fireEvent.mouseEnter(getSlide(container)!);
+      expect(handleSlideOpenChange).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,135 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FloppyDisk525, FloppyDisk, RETRO_THEME } from '../index';
+
+describe('FloppyDisk525', () => {
+  it('renders with minimal props', () => {
+    render(<FloppyDisk525 />);
+    const figure = screen.getByRole('button');
+    expect(figure).toHaveAttribute('aria-label', '5.25-inch floppy disk');
+  });
+
+  it('renders label name, author and year', () => {
+    render(
+      <FloppyDisk525
+        label={{ name: 'Zork I', author: 'Infocom', year: '1980' }}
+      />,
+    );
+
+    expect(screen.getByText('Zork I')).toBeInTheDocument();
+    expect(screen.getByText('Infocom')).toBeInTheDocument();
+    expect(screen.getByText('1980')).toBeInTheDocument();
+    expect(screen.getByRole('button')).toHaveAttribute(
+      'aria-label',
+      'Zork I by Infocom',
+    );
+  });
+
+  it('defaults capacity from disk type', () => {
+    const { rerender } = render(<FloppyDisk525 />);
+    expect(screen.getByText('360 KB')).toBeInTheDocument();
+    expect(screen.getByText('DS/DD')).toBeInTheDocument();
+
+    rerender(<FloppyDisk525 diskType="HD" />);
+    expect(screen.getByText('1.2 MB')).toBeInTheDocument();
+    expect(screen.getByText('DS/HD')).toBeInTheDocument();
+  });
+
+  it('prefers capacity prop over label.size', () => {
+    render(
+      <FloppyDisk525
+        label={{ name: 'Test', size: '180 KB' }}
+        capacity="1 MB"
+      />,
+    );
+    expect(screen.getByText('1 MB')).toBeInTheDocument();
+    expect(screen.queryByText('180 KB')).not.toBeInTheDocument();
+  });
+
+  it('applies state classes', () => {
+    render(<FloppyDisk525 selected loading error disabled />);
+    const figure = screen.getByRole('button');
+    expect(figure.className).toMatch(/selected/);
+    expect(figure.className).toMatch(/loading/);
+    expect(figure.className).toMatch(/error/);
+    expect(figure.className).toMatch(/disabled/);
+    expect(figure).toHaveAttribute('aria-disabled', 'true');
+    expect(figure).toHaveAttribute('tabIndex', '-1');
+  });
+
+  it('invokes onClick via mouse and keyboard', () => {
+    const handleClick = vi.fn();
+    render(<FloppyDisk525 onClick={handleClick} />);
+    const figure = screen.getByRole('button');
+
+    fireEvent.click(figure);
+    fireEvent.keyDown(figure, { key: 'Enter' });
+    fireEvent.keyUp(figure, { key: ' ' });
+
+    expect(handleClick).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not invoke onClick when disabled', () => {
+    const handleClick = vi.fn();
+    render(<FloppyDisk525 onClick={handleClick} disabled />);
+    fireEvent.click(screen.getByRole('button'));
+    expect(handleClick).not.toHaveBeenCalled();
+  });
+
+  it('shares theme CSS variables with FloppyDisk', () => {
+    const props = {
+      label: { name: 'Shared Look' },
+      theme: { ...RETRO_THEME, enableGradient: true },
+      size: 'large' as const,
+    };
+    const { container: c35 } = render(<FloppyDisk {...props} />);
+    const { container: c525 } = render(<FloppyDisk525 {...props} />);
+
+    const style35 = c35.querySelector('figure')!.style;
+    const style525 = c525.querySelector('figure')!.style;
+
+    for (const variable of [
+      '--floppy-size',
+      '--floppy-color',
+      '--floppy-highlight',
+      '--label-color',
+      '--label-text-color',
+    ]) {
+      expect(style525.getPropertyValue(variable)).toBe(
+        style35.getPropertyValue(variable),
+      );
+    }
+  });
+
+  it('renders badge and children overlays', () => {
+    render(
+      <FloppyDisk525 badge={<span>NEW</span>}>
+        <div>Overlay</div>
+      </FloppyDisk525>,
+    );
+    expect(screen.getByText('NEW')).toBeInTheDocument();
+    expect(screen.getByText('Overlay')).toBeInTheDocument();
+  });
+
+  it('forwards its ref and accepts collection props', () => {
+    const ref = React.createRef<HTMLElement>();
+    render(
+      <FloppyDisk525
+        ref={ref}
+        label={{ name: 'Zork I' }}
+        tabIndex={-1}
+        role="option"
+        aria-selected
+        aria-posinset={3}
+        aria-setsize={10}
+      />,
+    );
+    const option = screen.getByRole('option');
+
+    expect(ref.current).toBe(option);
+    expect(option).toHaveAttribute('tabIndex', '-1');
+    expect(option).toHaveAttribute('aria-selected', 'true');
+    expect(option).toHaveAttribute('aria-posinset', '3');
+    expect(option).toHaveAttribute('aria-setsize', '10');
+  });
+});
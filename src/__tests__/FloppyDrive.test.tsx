@@ -0,0 +1,174 @@
+import React from 'react';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { FloppyDrive, FloppyDisk } from '../index';
+
+describe('FloppyDrive', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const getDrive = () => screen.getByRole('group', { name: 'Floppy drive' });
+  const getEjectButton = () =>
+    screen.getByRole('button', { name: 'Eject disk' });
+
+  it('renders an empty drive', () => {
+    render(<FloppyDrive />);
+
+    expect(getDrive()).toHaveAttribute('data-phase', 'empty');
+    expect(getEjectButton()).toBeDisabled();
+  });
+
+  it('renders a FloppyDisk child sticking out of the slot', () => {
+    render(
+      <FloppyDrive>
+        <FloppyDisk label={{ name: 'Zork I' }} />
+      </FloppyDrive>,
+    );
+
+    expect(getDrive()).toHaveAttribute('data-phase', 'ejected');
+    expect(screen.getByText('Zork I')).toBeInTheDocument();
+  });
+
+  it('renders a disk from disk data', () => {
+    render(<FloppyDrive disk={{ label: { name: 'Lemmings' } }} />);
+    expect(screen.getByText('Lemmings')).toBeInTheDocument();
+  });
+
+  it('inserts the disk on click and fires onInsert after the animation', () => {
+    const handleInsert = vi.fn();
+    const handleDiskClick = vi.fn();
+    render(
+      <FloppyDrive onInsert={handleInsert}>
+        <FloppyDisk
+          data-disk-id="zork"
+          label={{ name: 'Zork I' }}
+          onClick={handleDiskClick}
+        />
+      </FloppyDrive>,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Zork I/ }));
+
+    expect(handleDiskClick).toHaveBeenCalledTimes(1);
+    expect(getDrive()).toHaveAttribute('data-phase', 'inserting');
+    expect(handleInsert).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+
+    expect(getDrive()).toHaveAttribute('data-phase', 'inserted');
+    expect(handleInsert).toHaveBeenCalledWith('zork');
+    // The inserted disk is hidden, so it leaves the tab order
+    expect(
+      screen.getByRole('button', { name: /Zork I/, hidden: true }),
+    ).toHaveAttribute('tabIndex', '-1');
+    expect(getEjectButton()).not.toBeDisabled();
+  });
+
+  it('ejects the disk and fires onEject after the animation', () => {
+    const handleEject = vi.fn();
+    render(
+      <FloppyDrive
+        defaultInserted
+        diskId="disk-1"
+        onEject={handleEject}
+        animation={{ insertDuration: 200 }}
+      >
+        <FloppyDisk label={{ name: 'Zork I' }} />
+      </FloppyDrive>,
+    );
+    expect(getDrive()).toHaveAttribute('data-phase', 'inserted');
+
+    fireEvent.click(getEjectButton());
+    expect(getDrive()).toHaveAttribute('data-phase', 'ejecting');
+
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+
+    expect(getDrive()).toHaveAttribute('data-phase', 'ejected');
+    expect(handleEject).toHaveBeenCalledWith('disk-1');
+  });
+
+  it('falls back to the label name as disk id', () => {
+    const handleInsert = vi.fn();
+    render(
+      <FloppyDrive
+        disk={{ label: { name: 'Lemmings' } }}
+        onInsert={handleInsert}
+        animation={{ disableAnimations: true }}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Lemmings/ }));
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(handleInsert).toHaveBeenCalledWith('Lemmings');
+  });
+
+  it('keeps a controlled inserted state until the parent updates it', () => {
+    const handleInsertedChange = vi.fn();
+    const handleInsert = vi.fn();
+    const { rerender } = render(
+      <FloppyDrive
+        inserted={false}
+        onInsertedChange={handleInsertedChange}
+        onInsert={handleInsert}
+        disk={{ label: { name: 'Zork I' } }}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Zork I/ }));
+    expect(handleInsertedChange).toHaveBeenCalledWith(true);
+    expect(getDrive()).toHaveAttribute('data-phase', 'ejected');
+
+    rerender(
+      <FloppyDrive
+        inserted
+        onInsertedChange={handleInsertedChange}
+        onInsert={handleInsert}
+        disk={{ label: { name: 'Zork I' } }}
+      />,
+    );
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(getDrive()).toHaveAttribute('data-phase', 'inserted');
+    expect(handleInsert).toHaveBeenCalledWith('Zork I');
+  });
+
+  it('reflects busy on the LED and aria-busy', () => {
+    const { container, rerender } = render(<FloppyDrive />);
+    const led = container.querySelector('[class*="led"]');
+    expect(getDrive()).toHaveAttribute('aria-busy', 'false');
+    expect(led?.className).not.toMatch(/ledBusy/);
+
+    rerender(<FloppyDrive busy />);
+    expect(getDrive()).toHaveAttribute('aria-busy', 'true');
+    expect(led?.className).toMatch(/ledBusy/);
+  });
+
+  it('does not insert or eject when disabled', () => {
+    const handleInsertedChange = vi.fn();
+    render(
+      <FloppyDrive
+        disabled
+        onInsertedChange={handleInsertedChange}
+        disk={{ label: { name: 'Zork I' } }}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Zork I/ }));
+
+    expect(handleInsertedChange).not.toHaveBeenCalled();
+    expect(getEjectButton()).toBeDisabled();
+  });
+});
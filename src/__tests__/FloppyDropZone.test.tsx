@@ -0,0 +1,353 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FloppyDisk, FloppyDropZone, FLOPPY_DRAG_MIME } from '../index';
+
+/**
+ * Minimal DataTransfer stand-in (jsdom does not implement drag-and-drop)
+ */
+const createDataTransfer = (initial: Record<string, string> = {}) => {
+  const data: Record<string, string> = { ...initial };
+  return {
+    get types() {
+      return Object.keys(data);
+    },
+    setData: (format: string, value: string) => {
+      data[format] = value;
+    },
+    getData: (format: string) => data[format] || '',
+    setDragImage: vi.fn(),
+    effectAllowed: 'all',
+    dropEffect: 'none',
+  };
+};
+
+describe('FloppyDropZone', () => {
+  const label = { name: 'Zork I', author: 'Infocom' };
+
+  it('renders children in a labelled group', () => {
+    render(
+      <FloppyDropZone ariaLabel="Trash">
+        <span>Trash can</span>
+      </FloppyDropZone>,
+    );
+
+    expect(screen.getByRole('group', { name: 'Trash' })).toBeInTheDocument();
+    expect(screen.getByText('Trash can')).toBeInTheDocument();
+  });
+
+  it('only makes disks draggable when requested', () => {
+    const { rerender } = render(<FloppyDisk label={label} />);
+    expect(screen.getByRole('button')).not.toHaveAttribute('draggable');
+
+    rerender(<FloppyDisk label={label} draggable />);
+    expect(screen.getByRole('button')).toHaveAttribute('draggable', 'true');
+  });
+
+  it('writes a typed payload and uses the disk as drag image', () => {
+    const handleDragStart = vi.fn();
+    render(
+      <FloppyDisk
+        draggable
+        label={label}
+        data-disk-id="zork"
+        dragData={{ projectId: 42 }}
+        onDragStart={handleDragStart}
+      />,
+    );
+    const disk = screen.getByRole('button');
+    const dataTransfer = createDataTransfer();
+
+    fireEvent.dragStart(disk, { dataTransfer });
+
+    const expectedPayload = {
+      diskId: 'zork',
+      label,
+      data: { projectId: 42 },
+    };
+    expect(JSON.parse(dataTransfer.getData(FLOPPY_DRAG_MIME))).toEqual(
+      expectedPayload,
+    );
+    expect(dataTransfer.getData('text/plain')).toBe('Zork I');
+    expect(dataTransfer.setDragImage).toHaveBeenCalledWith(
+      disk,
+      expect.any(Number),
+      expect.any(Number),
+    );
+    expect(handleDragStart).toHaveBeenCalledWith(expectedPayload);
+
+    fireEvent.dragEnd(disk, { dataTransfer });
+  });
+
+  it('highlights on HTML5 drag over and calls onDiskDrop', () => {
+    const handleDiskDrop = vi.fn();
+    const handleHoverChange = vi.fn();
+    render(
+      <FloppyDropZone
+        onDiskDrop={handleDiskDrop}
+        onDragHoverChange={handleHoverChange}
+      />,
+    );
+    const zone = screen.getByRole('group');
+    const dataTransfer = createDataTransfer({
+      [FLOPPY_DRAG_MIME]: JSON.stringify({ diskId: 'zork', label }),
+    });
+
+    fireEvent.dragOver(zone, { dataTransfer });
+    expect(zone.className).toMatch(/hovered/);
+    expect(handleHoverChange).toHaveBeenLastCalledWith(true);
+
+    fireEvent.drop(zone, { dataTransfer });
+    expect(zone.className).not.toMatch(/hovered/);
+    expect(handleHoverChange).toHaveBeenLastCalledWith(false);
+    expect(handleDiskDrop).toHaveBeenCalledWith({ diskId: 'zork', label });
+  });
+
+  it('reports a drop that removes the dragged disk as dropped', () => {
+    const handleDragEnd = vi.fn();
+    const Shelves = () => {
+      const [moved, setMoved] = React.useState(false);
+      return (
+        <>
+          {!moved && (
+            <FloppyDisk draggable label={label} onDragEnd={handleDragEnd} />
+          )}
+          <FloppyDropZone onDiskDrop={() => setMoved(true)}>
+            {moved && <FloppyDisk label={label} />}
+          </FloppyDropZone>
+        </>
+      );
+    };
+    render(<Shelves />);
+    const dataTransfer = createDataTransfer();
+
+    fireEvent.dragStart(screen.getByRole('button'), { dataTransfer });
+    fireEvent.drop(screen.getByRole('group'), { dataTransfer });
+
+    expect(handleDragEnd).toHaveBeenCalledTimes(1);
+    expect(handleDragEnd).toHaveBeenCalledWith(expect.anything(), true);
+    expect(screen.getByRole('group')).toContainElement(
+      screen.getByRole('button'),
+    );
+  });
+
+  it('ignores drags that do not carry a disk', () => {
+    const handleDiskDrop = vi.fn();
+    render(<FloppyDropZone onDiskDrop={handleDiskDrop} />);
+    const zone = screen.getByRole('group');
+    const dataTransfer = createDataTransfer({ 'text/plain': 'hello' });
+
+    fireEvent.dragOver(zone, { dataTransfer });
+    fireEvent.drop(zone, { dataTransfer });
+
+    expect(zone.className).not.toMatch(/hovered/);
+    expect(handleDiskDrop).not.toHaveBeenCalled();
+  });
+
+  it('warns and ignores malformed payloads', () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {});
+    const handleDiskDrop = vi.fn();
+    render(<FloppyDropZone onDiskDrop={handleDiskDrop} />);
+
+    fireEvent.drop(screen.getByRole('group'), {
+      dataTransfer: createDataTransfer({ [FLOPPY_DRAG_MIME]: '{not json' }),
+    });
+
+    expect(handleDiskDrop).not.toHaveBeenCalled();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('malformed'),
+    );
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('picks up with Ctrl+Enter and drops with Enter on a zone', () => {
+    const handleDiskDrop = vi.fn();
+    const handleDragEnd = vi.fn();
+    const handleClick = vi.fn();
+    render(
+      <>
+        <FloppyDisk
+          draggable
+          label={label}
+          data-disk-id="zork"
+          onClick={handleClick}
+          onDragEnd={handleDragEnd}
+        />
+        <FloppyDropZone ariaLabel="Drive" onDiskDrop={handleDiskDrop} />
+      </>,
+    );
+    const disk = screen.getByRole('button');
+    const zone = screen.getByRole('group', { name: 'Drive' });
+    expect(zone).not.toHaveAttribute('tabIndex');
+
+    fireEvent.keyDown(disk, { key: 'Enter', ctrlKey: true });
+
+    expect(handleClick).not.toHaveBeenCalled();
+    expect(disk).toHaveAttribute('aria-label', 'Zork I by Infocom (picked up)');
+    expect(zone).toHaveAttribute('tabIndex', '0');
+    expect(zone.className).toMatch(/active/);
+
+    fireEvent.focus(zone);
+    expect(zone.className).toMatch(/hovered/);
+
+    fireEvent.keyDown(zone, { key: 'Enter' });
+
+    expect(handleDiskDrop).toHaveBeenCalledWith({ diskId: 'zork', label });
+    expect(handleDragEnd).toHaveBeenCalledWith({ diskId: 'zork', label }, true);
+    expect(disk).toHaveAttribute('aria-label', 'Zork I by Infocom');
+    expect(zone).not.toHaveAttribute('tabIndex');
+  });
+
+  it('cancels a keyboard pick-up with Escape', () => {
+    const handleDragEnd = vi.fn();
+    render(
+      <>
+        <FloppyDisk draggable label={label} onDragEnd={handleDragEnd} />
+        <FloppyDropZone />
+      </>,
+    );
+
+    fireEvent.keyDown(screen.getByRole('button'), {
+      key: 'Enter',
+      metaKey: true,
+    });
+    fireEvent.keyDown(document.body, { key: 'Escape' });
+
+    expect(handleDragEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ label }),
+      false,
+    );
+    expect(screen.getByRole('group').className).not.toMatch(/active/);
+  });
+
+  it('rejects drops filtered out by accepts', () => {
+    const handleDiskDrop = vi.fn();
+    const handleDragEnd = vi.fn();
+    render(
+      <>
+        <FloppyDisk draggable label={label} onDragEnd={handleDragEnd} />
+        <FloppyDropZone
+          accepts={(payload) => payload.diskId === 'other'}
+          onDiskDrop={handleDiskDrop}
+        />
+      </>,
+    );
+
+    fireEvent.keyDown(screen.getByRole('button'), {
+      key: 'Enter',
+      ctrlKey: true,
+    });
+    fireEvent.keyDown(screen.getByRole('group'), { key: ' ' });
+
+    expect(handleDiskDrop).not.toHaveBeenCalled();
+    expect(handleDragEnd).toHaveBeenCalledWith(expect.anything(), false);
+  });
+
+  it('drags with touch pointer events and a disk preview', () => {
+    const handleDiskDrop = vi.fn();
+    const handleClick = vi.fn();
+    render(
+      <>
+        <FloppyDisk
+          draggable
+          label={label}
+          data-disk-id="zork"
+          onClick={handleClick}
+        />
+        <FloppyDropZone onDiskDrop={handleDiskDrop}>
+          <span>Shelf</span>
+        </FloppyDropZone>
+      </>,
+    );
+    const disk = screen.getByRole('button');
+    const zone = screen.getByRole('group');
+    const originalElementFromPoint = document.elementFromPoint;
+    document.elementFromPoint = vi.fn(() => screen.getByText('Shelf'));
+
+    const pointer = { pointerType: 'touch', pointerId: 1 };
+    fireEvent.pointerDown(disk, { ...pointer, clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(disk, { ...pointer, clientX: 60, clientY: 80 });
+
+    const preview = document.body.querySelector('[class*="dragPreview"]');
+    expect(preview).toBeInTheDocument();
+    expect(preview).toHaveAttribute('aria-hidden', 'true');
+    expect(disk.className).toMatch(/dragging/);
+    expect(zone.className).toMatch(/hovered/);
+
+    fireEvent.pointerUp(disk, { ...pointer, clientX: 60, clientY: 80 });
+    fireEvent.click(disk);
+
+    expect(handleDiskDrop).toHaveBeenCalledWith({ diskId: 'zork', label });
+    expect(preview).not.toBeInTheDocument();
+    expect(disk.className).not.toMatch(/dragging/);
+    expect(handleClick).not.toHaveBeenCalled();
+
+    document.elementFromPoint = originalElementFromPoint;
+  });
+
+  it('does not swallow the next tap when no click follows a touch drag', () => {
+    const handleClick = vi.fn();
+    render(<FloppyDisk draggable label={label} onClick={handleClick} />);
+    const disk = screen.getByRole('button');
+
+    const pointer = { pointerType: 'touch', pointerId: 1 };
+    fireEvent.pointerDown(disk, { ...pointer, clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(disk, { ...pointer, clientX: 60, clientY: 80 });
+    fireEvent.pointerUp(disk, { ...pointer, clientX: 60, clientY: 80 });
+
+    // The browser fired no click after the drag; the next tap clicks
+    fireEvent.pointerDown(disk, { ...pointer, pointerId: 2 });
+    fireEvent.pointerUp(disk, { ...pointer, pointerId: 2 });
+    fireEvent.click(disk);
+
+    expect(handleClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the drag and removes the preview when the disk unmounts', () => {
+    const handleDragEnd = vi.fn();
+    const renderTree = (withDisk: boolean) => (
+      <>
+        {withDisk && (
+          <FloppyDisk draggable label={label} onDragEnd={handleDragEnd} />
+        )}
+        <FloppyDropZone>
+          <span>Shelf</span>
+        </FloppyDropZone>
+      </>
+    );
+    const { rerender } = render(renderTree(true));
+    const disk = screen.getByRole('button');
+    const zone = screen.getByRole('group');
+
+    const pointer = { pointerType: 'touch', pointerId: 1 };
+    fireEvent.pointerDown(disk, { ...pointer, clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(disk, { ...pointer, clientX: 60, clientY: 80 });
+    expect(zone.className).toMatch(/active/);
+
+    rerender(renderTree(false));
+
+    expect(
+      document.body.querySelector('[class*="dragPreview"]'),
+    ).not.toBeInTheDocument();
+    expect(handleDragEnd).toHaveBeenCalledWith(expect.anything(), false);
+    expect(zone.className).not.toMatch(/active/);
+  });
+
+  it('does not drag disabled disks', () => {
+    const handleDragStart = vi.fn();
+    render(
+      <FloppyDisk
+        draggable
+        disabled
+        label={label}
+        onDragStart={handleDragStart}
+      />,
+    );
+    const disk = screen.getByRole('button');
+
+    expect(disk).not.toHaveAttribute('draggable');
+    fireEvent.keyDown(disk, { key: 'Enter', ctrlKey: true });
+    expect(handleDragStart).not.toHaveBeenCalled();
+  });
+});
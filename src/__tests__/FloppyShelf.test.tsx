@@ -0,0 +1,265 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { FloppyShelf, FloppyShelfItem } from '../index';
+import {
+  TYPE_AHEAD_TIMEOUT_MS,
+  findTypeAheadMatch,
+  getNavigationIndex,
+} from '../shelfNavigation';
+
+const NAMES = [
+  'Doom',
+  'Dune II',
+  'Elite',
+  'Frontier',
+  'Lemmings',
+  'Monkey Island',
+  'Prince of Persia',
+  'SimCity',
+  'Tetris',
+];
+
+const ITEMS: FloppyShelfItem[] = NAMES.map((name, index) => ({
+  id: `disk-${index}`,
+  label: { name },
+}));
+
+describe('FloppyShelf', () => {
+  const getCell = (name: string) =>
+    screen.getByRole('gridcell', { name: new RegExp(`^${name}`) });
+
+  it('renders a grid with rows of gridcells', () => {
+    render(<FloppyShelf items={ITEMS} columns={3} ariaLabel="Games" />);
+
+    const grid = screen.getByRole('grid', { name: 'Games' });
+    const rows = within(grid).getAllByRole('row');
+    expect(rows).toHaveLength(3);
+    expect(within(rows[0]).getAllByRole('gridcell')).toHaveLength(3);
+    expect(getCell('Doom')).toHaveAttribute('data-disk-id', 'disk-0');
+  });
+
+  it('renders the list layout as a listbox of options', () => {
+    render(
+      <FloppyShelf
+        layout="list"
+        items={[{ ...ITEMS[0], selected: true }, ITEMS[1]]}
+      />,
+    );
+
+    expect(screen.getByRole('listbox')).toHaveAttribute(
+      'aria-orientation',
+      'vertical',
+    );
+    const options = screen.getAllByRole('option');
+    expect(options).toHaveLength(2);
+    expect(options[0]).toHaveAttribute('aria-selected', 'true');
+    expect(options[1]).toHaveAttribute('aria-selected', 'false');
+  });
+
+  it('exposes a single tab stop', () => {
+    render(<FloppyShelf items={ITEMS} columns={3} />);
+
+    const tabStops = screen
+      .getAllByRole('gridcell')
+      .filter((cell) => cell.getAttribute('tabIndex') === '0');
+    expect(tabStops).toEqual([getCell('Doom')]);
+  });
+
+  it('keeps a single tab stop with write-protect switches', () => {
+    const { container } = render(
+      <FloppyShelf
+        items={ITEMS.map((item) => ({ ...item, defaultWriteProtected: true }))}
+        columns={3}
+      />,
+    );
+
+    expect(container.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+  });
+
+  it('moves focus with arrow keys in the grid', () => {
+    const handleActiveChange = vi.fn();
+    render(
+      <FloppyShelf
+        items={ITEMS}
+        columns={3}
+        onActiveChange={handleActiveChange}
+      />,
+    );
+
+    fireEvent.keyDown(getCell('Doom'), { key: 'ArrowRight' });
+    expect(getCell('Dune II')).toHaveFocus();
+    expect(getCell('Dune II')).toHaveAttribute('tabIndex', '0');
+    expect(getCell('Doom')).toHaveAttribute('tabIndex', '-1');
+    expect(handleActiveChange).toHaveBeenCalledTimes(1);
+    expect(handleActiveChange).toHaveBeenLastCalledWith('disk-1');
+
+    fireEvent.keyDown(getCell('Dune II'), { key: 'ArrowDown' });
+    expect(getCell('Lemmings')).toHaveFocus();
+
+    fireEvent.keyDown(getCell('Lemmings'), { key: 'End' });
+    expect(getCell('Monkey Island')).toHaveFocus();
+
+    fireEvent.keyDown(getCell('Monkey Island'), { key: 'Home' });
+    expect(getCell('Frontier')).toHaveFocus();
+
+    fireEvent.keyDown(getCell('Frontier'), { key: 'End', ctrlKey: true });
+    expect(getCell('Tetris')).toHaveFocus();
+
+    fireEvent.keyDown(getCell('Tetris'), { key: 'PageUp' });
+    expect(getCell('Doom')).toHaveFocus();
+  });
+
+  it('gives every disk the shelf size', () => {
+    render(
+      <FloppyShelf
+        items={[ITEMS[0], { ...ITEMS[1], size: 'hero' }]}
+        size="small"
+      />,
+    );
+
+    expect(getCell('Dune II')).toHaveStyle({ '--floppy-size': '120px' });
+  });
+
+  it('moves focus with Up/Down in the list', () => {
+    render(<FloppyShelf layout="list" items={ITEMS} />);
+    const options = screen.getAllByRole('option');
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown' });
+    expect(options[1]).toHaveFocus();
+
+    fireEvent.keyDown(options[1], { key: 'ArrowRight' });
+    expect(options[1]).toHaveFocus();
+
+    fireEvent.keyDown(options[1], { key: 'End' });
+    expect(options[8]).toHaveFocus();
+  });
+
+  it('finds disks by type-ahead on label name', () => {
+    vi.useFakeTimers();
+    render(<FloppyShelf items={ITEMS} columns={3} />);
+
+    fireEvent.keyDown(getCell('Doom'), { key: 's' });
+    expect(getCell('SimCity')).toHaveFocus();
+
+    // The buffer resets after a pause, then refines with each key
+    vi.advanceTimersByTime(TYPE_AHEAD_TIMEOUT_MS + 100);
+    fireEvent.keyDown(getCell('SimCity'), { key: 'd' });
+    expect(getCell('Doom')).toHaveFocus();
+    fireEvent.keyDown(getCell('Doom'), { key: 'u' });
+    expect(getCell('Dune II')).toHaveFocus();
+
+    vi.useRealTimers();
+  });
+
+  it('keeps disk letter shortcuts from firing during type-ahead', () => {
+    const handleSlideOpenChange = vi.fn();
+    render(
+      <FloppyShelf
+        items={[
+          { id: 'a', label: { name: 'Outrun' } },
+          {
+            id: 'b',
+            label: { name: 'Zork' },
+            onSlideOpenChange: handleSlideOpenChange,
+          },
+        ]}
+      />,
+    );
+
+    fireEvent.keyDown(getCell('Zork'), { key: 'o' });
+
+    expect(getCell('Outrun')).toHaveFocus();
+    expect(handleSlideOpenChange).not.toHaveBeenCalled();
+  });
+
+  it('leaves keys typed into an editable label to the input', () => {
+    render(
+      <FloppyShelf
+        items={ITEMS.map((item) => ({ ...item, editable: true }))}
+        columns={3}
+      />,
+    );
+
+    fireEvent.keyDown(getCell('Elite'), { key: 'F2' });
+    const name = screen.getByLabelText('Disk name');
+    expect(name).toHaveFocus();
+
+    fireEvent.keyDown(name, { key: 'd' });
+    expect(name).toHaveFocus();
+    // Not prevented, so the caret moves
+    expect(fireEvent.keyDown(name, { key: 'ArrowLeft' })).toBe(true);
+    expect(fireEvent.keyDown(name, { key: 'Home' })).toBe(true);
+    expect(name).toHaveFocus();
+  });
+
+  it('moves the tab stop to a clicked (focused) disk', () => {
+    const handleClick = vi.fn();
+    render(
+      <FloppyShelf
+        items={[ITEMS[0], { ...ITEMS[1], onClick: handleClick }]}
+        columns={2}
+      />,
+    );
+
+    fireEvent.focus(getCell('Dune II'));
+    fireEvent.click(getCell('Dune II'));
+
+    expect(getCell('Dune II')).toHaveAttribute('tabIndex', '0');
+    expect(handleClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('respects a controlled activeId', () => {
+    const { rerender } = render(
+      <FloppyShelf items={ITEMS} columns={3} activeId="disk-4" />,
+    );
+    expect(getCell('Lemmings')).toHaveAttribute('tabIndex', '0');
+
+    fireEvent.keyDown(getCell('Lemmings'), { key: 'ArrowRight' });
+    expect(getCell('Lemmings')).toHaveAttribute('tabIndex', '0');
+
+    rerender(<FloppyShelf items={ITEMS} columns={3} activeId="disk-5" />);
+    expect(getCell('Monkey Island')).toHaveAttribute('tabIndex', '0');
+  });
+
+  it('starts on the first enabled disk', () => {
+    render(
+      <FloppyShelf
+        items={[{ ...ITEMS[0], disabled: true }, ITEMS[1]]}
+        columns={2}
+      />,
+    );
+
+    expect(getCell('Dune II')).toHaveAttribute('tabIndex', '0');
+    expect(getCell('Doom')).toHaveAttribute('tabIndex', '-1');
+  });
+});
+
+describe('shelfNavigation', () => {
+  const layout = { index: 4, count: 9, columns: 3, pageRows: 1 };
+
+  it('resolves grid navigation keys', () => {
+    expect(getNavigationIndex('ArrowLeft', layout)).toBe(3);
+    expect(getNavigationIndex('ArrowUp', layout)).toBe(1);
+    expect(getNavigationIndex('Home', layout)).toBe(3);
+    expect(getNavigationIndex('Home', { ...layout, ctrlKey: true })).toBe(0);
+    expect(getNavigationIndex('PageDown', layout)).toBe(7);
+    expect(getNavigationIndex('Enter', layout)).toBeNull();
+  });
+
+  it('stays in place at the grid edges', () => {
+    expect(getNavigationIndex('ArrowDown', { ...layout, index: 7 })).toBe(7);
+    expect(getNavigationIndex('ArrowUp', { ...layout, index: 1 })).toBe(1);
+    expect(getNavigationIndex('ArrowRight', { ...layout, index: 8 })).toBe(8);
+    expect(getNavigationIndex('End', { ...layout, count: 8, index: 6 })).toBe(
+      7,
+    );
+  });
+
+  it('matches type-ahead queries case-insensitively with wrap-around', () => {
+    expect(findTypeAheadMatch(NAMES, 'T', 0)).toBe(8);
+    expect(findTypeAheadMatch(NAMES, 'd', 1)).toBe(0);
+    expect(findTypeAheadMatch(NAMES, 'dd', 0)).toBe(1);
+    expect(findTypeAheadMatch(NAMES, 'pri', 0)).toBe(6);
+    expect(findTypeAheadMatch(NAMES, 'x', 0)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FloppyStack, FloppyStackItem } from '../index';
+
+const DISKS: FloppyStackItem[] = [1, 2, 3, 4].map((number) => ({
+  id: `setup-${number}`,
+  label: { name: `Setup ${number}`, author: 'Workbench' },
+}));
+
+describe('FloppyStack', () => {
+  const getDisk = (number: number) =>
+    screen.getByRole('option', { name: `Setup ${number} by Workbench` });
+
+  const getRotation = (disk: HTMLElement) =>
+    disk.parentElement?.style.getPropertyValue('--stack-rotate');
+
+  it('renders a listbox with the last disk on top', () => {
+    render(<FloppyStack disks={DISKS} ariaLabel="Install disks" />);
+
+    expect(
+      screen.getByRole('listbox', { name: 'Install disks' }),
+    ).toHaveAttribute('data-layout', 'stack');
+    expect(getDisk(4)).toHaveAttribute('aria-selected', 'true');
+    expect(getDisk(4)).toHaveAttribute('tabIndex', '0');
+    expect(getDisk(1)).toHaveAttribute('aria-selected', 'false');
+    expect(getDisk(1)).toHaveAttribute('tabIndex', '-1');
+    expect(getDisk(4).parentElement?.style.zIndex).toBe('4');
+  });
+
+  it('places disks deterministically from their ids and seed', () => {
+    const { unmount } = render(<FloppyStack disks={DISKS} />);
+    const rotations = [1, 2, 3].map((number) => getRotation(getDisk(number)));
+    unmount();
+
+    // Adding a disk does not move the others
+    render(
+      <FloppyStack
+        disks={[...DISKS, { id: 'setup-5', label: { name: 'Setup 5' } }]}
+      />,
+    );
+    expect([1, 2, 3].map((number) => getRotation(getDisk(number)))).toEqual(
+      rotations,
+    );
+  });
+
+  it('changes the pile with a different seed', () => {
+    const { rerender } = render(<FloppyStack disks={DISKS} seed={1} />);
+    const rotation = getRotation(getDisk(1));
+
+    rerender(<FloppyStack disks={DISKS} seed={2} />);
+    expect(getRotation(getDisk(1))).not.toBe(rotation);
+  });
+
+  it('fans out on hover and while focused', () => {
+    render(<FloppyStack disks={DISKS} />);
+    const stack = screen.getByRole('listbox');
+    expect(stack).toHaveAttribute('data-expanded', 'false');
+
+    fireEvent.mouseEnter(stack);
+    expect(stack).toHaveAttribute('data-expanded', 'true');
+    expect(stack.className).toMatch(/fanned/);
+    fireEvent.mouseLeave(stack);
+    expect(stack).toHaveAttribute('data-expanded', 'false');
+
+    fireEvent.focus(getDisk(4));
+    expect(stack).toHaveAttribute('data-expanded', 'true');
+    fireEvent.blur(getDisk(4), { relatedTarget: document.body });
+    expect(stack).toHaveAttribute('data-expanded', 'false');
+  });
+
+  it('respects a controlled expanded state', () => {
+    render(<FloppyStack disks={DISKS} expanded={false} />);
+    const stack = screen.getByRole('listbox');
+
+    fireEvent.mouseEnter(stack);
+    expect(stack).toHaveAttribute('data-expanded', 'false');
+  });
+
+  it('brings disks to the top with arrow keys', () => {
+    const handleTopChange = vi.fn();
+    render(<FloppyStack disks={DISKS} onTopChange={handleTopChange} />);
+
+    fireEvent.keyDown(getDisk(4), { key: 'ArrowRight' });
+    expect(getDisk(1)).toHaveFocus();
+    expect(getDisk(1)).toHaveAttribute('aria-selected', 'true');
+    expect(getDisk(1).parentElement?.style.zIndex).toBe('4');
+    expect(handleTopChange).toHaveBeenLastCalledWith('setup-1');
+
+    fireEvent.keyDown(getDisk(1), { key: 'ArrowLeft' });
+    expect(getDisk(4)).toHaveFocus();
+
+    fireEvent.keyDown(getDisk(4), { key: 'Home' });
+    expect(getDisk(1)).toHaveFocus();
+  });
+
+  it('brings a clicked disk to the top and calls its onClick', () => {
+    const handleClick = vi.fn();
+    render(
+      <FloppyStack
+        disks={[{ ...DISKS[0], onClick: handleClick }, ...DISKS.slice(1)]}
+      />,
+    );
+
+    fireEvent.click(getDisk(1));
+
+    expect(getDisk(1)).toHaveAttribute('aria-selected', 'true');
+    expect(handleClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders a box front panel in the box layout', () => {
+    const { container } = render(<FloppyStack disks={DISKS} layout="box" />);
+
+    expect(container.querySelector('[class*="boxFront"]')).toHaveAttribute(
+      'aria-hidden',
+      'true',
+    );
+  });
+
+  it('passes theme and animation to its disks, item props first', () => {
+    render(
+      <FloppyStack
+        disks={[
+          ...DISKS.slice(0, 3),
+          { ...DISKS[3], theme: { diskColor: '#abcdef' } },
+        ]}
+        theme={{ diskColor: '#112233' }}
+        animation={{ hoverDuration: 150 }}
+      />,
+    );
+
+    expect(getDisk(1)).toHaveStyle({
+      '--floppy-color': '#112233',
+      '--animation-duration': '150ms',
+    });
+    expect(getDisk(4)).toHaveStyle({ '--floppy-color': '#abcdef' });
+  });
+});
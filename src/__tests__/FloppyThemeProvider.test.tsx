@@ -0,0 +1,143 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import {
+  DEFAULT_THEME,
+  FloppyDisk,
+  FloppyDisk525,
+  FloppyShelf,
+  FloppyStack,
+  FloppyThemeProvider,
+  FloppyThemeSettings,
+  useFloppyTheme,
+} from '../index';
+
+describe('FloppyThemeProvider', () => {
+  // Renders what useFloppyTheme() returns at its position in the tree
+  const SettingsProbe = () => (
+    <output data-testid="settings">{JSON.stringify(useFloppyTheme())}</output>
+  );
+
+  const renderSettings = (
+    tree: (probe: React.ReactNode) => React.ReactNode,
+  ): FloppyThemeSettings => {
+    render(<>{tree(<SettingsProbe />)}</>);
+    return JSON.parse(screen.getByTestId('settings').textContent || '{}');
+  };
+
+  it('supplies theme, animation, size and variant to disks', () => {
+    render(
+      <FloppyThemeProvider
+        theme={{ diskColor: '#112233' }}
+        animation={{ hoverDuration: 150 }}
+        size="small"
+        variant="static"
+      >
+        <FloppyDisk label={{ name: 'Doom' }} />
+        <FloppyDisk525 label={{ name: 'Zork I' }} />
+      </FloppyThemeProvider>,
+    );
+
+    const [disk, disk525] = screen.getAllByRole('button');
+    [disk, disk525].forEach((element) => {
+      expect(element).toHaveStyle({
+        '--floppy-size': '120px',
+        '--floppy-color': '#112233',
+        '--animation-duration': '150ms',
+      });
+      expect(element.className).toMatch(/static/);
+    });
+  });
+
+  it('lets props on a disk win', () => {
+    render(
+      <FloppyThemeProvider
+        theme={{ diskColor: '#112233', slideColor: '#445566' }}
+        size="small"
+      >
+        <FloppyDisk size={300} theme={{ diskColor: '#abcdef' }} />
+      </FloppyThemeProvider>,
+    );
+
+    expect(screen.getByRole('button')).toHaveStyle({
+      '--floppy-size': '300px',
+      '--floppy-color': '#abcdef',
+      '--slide-color': '#445566',
+    });
+  });
+
+  it('sizes the disks of collections without their own size', () => {
+    const items = [{ id: 'doom', label: { name: 'Doom' } }];
+    render(
+      <FloppyThemeProvider size="small">
+        <FloppyThemeProvider theme={{ diskColor: '#112233' }}>
+          <FloppyShelf layout="list" items={items} ariaLabel="Shelf" />
+          <FloppyShelf
+            layout="list"
+            size="large"
+            items={items}
+            ariaLabel="Sized shelf"
+          />
+          <FloppyStack disks={items} ariaLabel="Stack" />
+        </FloppyThemeProvider>
+        <FloppyThemeProvider size="fluid">
+          <FloppyShelf layout="list" items={items} ariaLabel="Fluid shelf" />
+        </FloppyThemeProvider>
+      </FloppyThemeProvider>,
+    );
+
+    const diskSize = (name: string) =>
+      within(screen.getByRole('listbox', { name }))
+        .getByRole('option')
+        .style.getPropertyValue('--floppy-size');
+    expect(diskSize('Shelf')).toBe('120px');
+    expect(diskSize('Sized shelf')).toBe('400px');
+    expect(diskSize('Stack')).toBe('120px');
+    // Collections lay out fixed cells, so they keep their own default
+    expect(diskSize('Fluid shelf')).toBe('60px');
+  });
+
+  it('deep-merges nested providers', () => {
+    const settings = renderSettings((probe) => (
+      <FloppyThemeProvider
+        theme={{
+          diskColor: '#112233',
+          gradientOptions: { seed: 7, angle: 45 },
+        }}
+        animation={{ hoverDuration: 150, easing: 'ease-in' }}
+        size="large"
+      >
+        <FloppyThemeProvider
+          theme={{ labelColor: '#ffe9a8', gradientOptions: { angle: 90 } }}
+          animation={{ hoverDuration: 80 }}
+          variant="compact"
+        >
+          {probe}
+        </FloppyThemeProvider>
+      </FloppyThemeProvider>
+    ));
+
+    expect(settings.theme).toMatchObject({
+      diskColor: '#112233',
+      labelColor: '#ffe9a8',
+      slideColor: DEFAULT_THEME.slideColor,
+      gradientOptions: { seed: 7, angle: 90 },
+    });
+    expect(settings.animation).toEqual({
+      hoverDuration: 80,
+      easing: 'ease-in',
+    });
+    expect(settings.size).toBe('large');
+    expect(settings.variant).toBe('compact');
+  });
+
+  it('returns the library defaults outside a provider', () => {
+    const settings = renderSettings((probe) => probe);
+
+    expect(settings).toEqual({
+      theme: DEFAULT_THEME,
+      animation: {},
+      size: 'medium',
+      variant: 'interactive',
+    });
+  });
+});
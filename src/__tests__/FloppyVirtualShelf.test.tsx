@@ -0,0 +1,192 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { FloppyShelfItem, FloppyVirtualShelf } from '../index';
+
+const ITEMS: FloppyShelfItem[] = Array.from({ length: 1000 }, (_, index) => ({
+  id: `disk-${index}`,
+  label: { name: `Disk ${index}` },
+}));
+
+// small disks (120px) + default 30px gap
+const ROW_STRIDE = 150;
+
+/**
+ * jsdom has no layout: give every element a fixed client size and a
+ * writable scrollTop
+ */
+const mockLayout = (width: number, height: number) => {
+  const scrollTops = new WeakMap<object, number>();
+  const descriptors = {
+    clientWidth: Object.getOwnPropertyDescriptor(
+      window.Element.prototype,
+      'clientWidth',
+    ),
+    clientHeight: Object.getOwnPropertyDescriptor(
+      window.Element.prototype,
+      'clientHeight',
+    ),
+    scrollTop: Object.getOwnPropertyDescriptor(
+      window.Element.prototype,
+      'scrollTop',
+    ),
+  };
+
+  Object.defineProperties(window.Element.prototype, {
+    clientWidth: { configurable: true, get: () => width },
+    clientHeight: { configurable: true, get: () => height },
+  });
+  Object.defineProperty(window.Element.prototype, 'scrollTop', {
+    configurable: true,
+    get(this: HTMLElement) {
+      return scrollTops.get(this) ?? 0;
+    },
+    set(this: HTMLElement, value: number) {
+      scrollTops.set(this, value);
+    },
+  });
+
+  return () => {
+    Object.defineProperty(
+      window.Element.prototype,
+      'clientWidth',
+      descriptors.clientWidth!,
+    );
+    Object.defineProperty(
+      window.Element.prototype,
+      'clientHeight',
+      descriptors.clientHeight!,
+    );
+    Object.defineProperty(
+      window.Element.prototype,
+      'scrollTop',
+      descriptors.scrollTop!,
+    );
+  };
+};
+
+describe('FloppyVirtualShelf', () => {
+  let restoreLayout: () => void;
+
+  beforeEach(() => {
+    restoreLayout = mockLayout(630, 450);
+  });
+
+  afterEach(() => {
+    restoreLayout();
+  });
+
+  // Label lookups stay fast with hundreds of mounted disks
+  const getDisk = (index: number) =>
+    screen.getByLabelText(`Disk ${index} by Unknown`);
+
+  const scrollTo = (scrollTop: number) => {
+    const grid = screen.getByRole('grid');
+    grid.scrollTop = scrollTop;
+    fireEvent.scroll(grid);
+  };
+
+  it('only mounts rows near the visible area', () => {
+    render(<FloppyVirtualShelf items={ITEMS} size="small" />);
+
+    const grid = screen.getByRole('grid');
+    // 630px fits four 120px disks with 30px gaps
+    expect(grid).toHaveAttribute('aria-colcount', '4');
+    expect(grid).toHaveAttribute('aria-rowcount', '250');
+
+    // Three visible rows plus two overscan rows below
+    const rows = within(grid).getAllByRole('row');
+    expect(rows).toHaveLength(6);
+    expect(within(grid).getAllByRole('gridcell')).toHaveLength(24);
+    expect(rows[0]).toHaveAttribute('aria-rowindex', '1');
+  });
+
+  it('mounts the rows scrolled into view', () => {
+    render(<FloppyVirtualShelf items={ITEMS} size="small" />);
+
+    scrollTo(100 * ROW_STRIDE);
+
+    expect(getDisk(400)).toBeInTheDocument();
+    expect(screen.queryByLabelText('Disk 20 by Unknown')).toBeNull();
+  });
+
+  it('keeps the focused disk mounted while scrolling away', () => {
+    render(<FloppyVirtualShelf items={ITEMS} size="small" />);
+
+    const firstDisk = getDisk(0);
+    firstDisk.focus();
+    scrollTo(100 * ROW_STRIDE);
+
+    expect(firstDisk).toBeInTheDocument();
+    expect(firstDisk).toHaveFocus();
+    expect(firstDisk).toHaveAttribute('tabIndex', '0');
+  });
+
+  it('scrolls keyboard navigation targets into view', () => {
+    const handleActiveChange = vi.fn();
+    render(
+      <FloppyVirtualShelf
+        items={ITEMS}
+        size="small"
+        onActiveChange={handleActiveChange}
+      />,
+    );
+
+    fireEvent.keyDown(getDisk(0), { key: 'End', ctrlKey: true });
+
+    expect(getDisk(999)).toHaveFocus();
+    expect(handleActiveChange).toHaveBeenCalledTimes(1);
+    expect(handleActiveChange).toHaveBeenLastCalledWith('disk-999');
+    expect(screen.getByRole('grid').scrollTop).toBe(
+      249 * ROW_STRIDE + 120 - 450,
+    );
+
+    // PageUp moves by the three visible rows
+    fireEvent.keyDown(getDisk(999), { key: 'PageUp' });
+    expect(getDisk(987)).toHaveFocus();
+    expect(handleActiveChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a fixed column count when given', () => {
+    render(<FloppyVirtualShelf items={ITEMS} size="small" columns={2} />);
+
+    expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '500');
+    expect(
+      within(screen.getAllByRole('row')[0]).getAllByRole('gridcell'),
+    ).toHaveLength(2);
+  });
+
+  it('restores the scroll position by key', () => {
+    const { unmount } = render(
+      <FloppyVirtualShelf
+        items={ITEMS}
+        size="small"
+        scrollRestorationKey="library"
+      />,
+    );
+    scrollTo(50 * ROW_STRIDE);
+    unmount();
+
+    render(
+      <FloppyVirtualShelf
+        items={ITEMS}
+        size="small"
+        scrollRestorationKey="library"
+      />,
+    );
+
+    expect(screen.getByRole('grid').scrollTop).toBe(50 * ROW_STRIDE);
+    expect(getDisk(200)).toBeInTheDocument();
+  });
+
+  it('renders the list layout with set size and position', () => {
+    render(<FloppyVirtualShelf layout="list" items={ITEMS} />);
+
+    const options = screen.getAllByRole('option');
+    expect(options.length).toBeLessThan(20);
+    expect(options[3]).toHaveAttribute('aria-posinset', '4');
+    expect(options[3]).toHaveAttribute('aria-setsize', '1000');
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown' });
+    expect(getDisk(1)).toHaveFocus();
+  });
+});
@@ -2,6 +2,7 @@ import React from 'react';
 import { describe, it, expect } from 'vitest';
 import { render } from '@testing-library/react';
 import { FloppyDisk } from '../FloppyDisk';
+import { formatColor, parseColor, simulateColorVision } from '../colorUtils';
 
 describe('Color Manipulation Functions', () => {
   describe('lightenColor', () => {
@@ -154,4 +155,128 @@ describe('Color Manipulation Functions', () => {
       expect(highlight1).toBe(highlight2);
     });
   });
+
+  describe('parseColor', () => {
+    it('parses hex colors with and without alpha', () => {
+      expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+      expect(parseColor('2a2a2a')).toEqual({ r: 42, g: 42, b: 42, a: 1 });
+      expect(parseColor('#00000080')?.a).toBeCloseTo(0.5, 2);
+      expect(parseColor('#f008')?.a).toBeCloseTo(0.533, 2);
+    });
+
+    it('parses rgb, hsl and hwb in modern and legacy syntax', () => {
+      const green = { r: 0, g: 128, b: 0, a: 1 };
+      const toHex = (color: string) => formatColor(parseColor(color)!);
+
+      expect(parseColor('rgb(40 40 40 / 50%)')).toEqual({
+        r: 40,
+        g: 40,
+        b: 40,
+        a: 0.5,
+      });
+      expect(parseColor('rgba(40, 40, 40, 0.5)')).toEqual(
+        parseColor('rgb(40 40 40 / 50%)'),
+      );
+      expect(parseColor('rgb(100% 0% 50%)')).toEqual({
+        r: 255,
+        g: 0,
+        b: 127.5,
+        a: 1,
+      });
+      expect(toHex('hsl(120, 100%, 25.1%)')).toBe(formatColor(green));
+      expect(toHex('hsla(0.5turn 100% 50% / 1)')).toBe('#00ffff');
+      expect(toHex('hwb(240 0% 0%)')).toBe('#0000ff');
+      expect(toHex('hwb(0 60% 60%)')).toBe('#808080');
+    });
+
+    it('parses lab, lch, oklab and oklch', () => {
+      ['lab(54.29 80.8 69.89)', 'lch(54.29% 106.84 40.85)'].forEach((color) =>
+        expect(formatColor(parseColor(color)!)).toBe('#ff0000'),
+      );
+      ['oklab(0.628 0.2249 0.1258)', 'oklch(62.8% 0.2577 29.23deg)'].forEach(
+        (color) => expect(formatColor(parseColor(color)!)).toBe('#ff0000'),
+      );
+      expect(formatColor(parseColor('oklch(100% 0 none)')!)).toBe('#ffffff');
+    });
+
+    it('parses named colors and transparent', () => {
+      expect(formatColor(parseColor('RebeccaPurple')!)).toBe('#663399');
+      expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+
+    it('returns null for invalid colors and var() references', () => {
+      ['not-a-color', '#12345', 'rgb(1, 2)', 'hsl(10% 50% 50%)'].forEach(
+        (color) => expect(parseColor(color)).toBeNull(),
+      );
+      expect(parseColor('var(--brand)')).toBeNull();
+    });
+
+    it('does not treat object prototype keys as named colors', () => {
+      ['constructor', '__proto__', 'toString', 'hasOwnProperty'].forEach(
+        (color) => expect(parseColor(color)).toBeNull(),
+      );
+    });
+  });
+
+  describe('Theme colors in any CSS syntax', () => {
+    const getVariables = (diskColor: string) => {
+      const { container } = render(<FloppyDisk theme={{ diskColor }} />);
+      const figure = container.querySelector('figure')!;
+      return {
+        highlight: figure.style.getPropertyValue('--floppy-highlight'),
+        shadow: figure.style.getPropertyValue('--floppy-shadow'),
+      };
+    };
+
+    it('derives shades from non-hex colors', () => {
+      expect(getVariables('rgb(42, 42, 42)')).toEqual(getVariables('#2a2a2a'));
+      expect(getVariables('hsl(0 0% 16.5%)')).toEqual(getVariables('#2a2a2a'));
+    });
+
+    it('keeps the alpha of translucent colors', () => {
+      expect(getVariables('rgb(42 42 42 / 50%)')).toEqual({
+        highlight: 'rgba(68, 68, 68, 0.5)',
+        shadow: 'rgba(16, 16, 16, 0.5)',
+      });
+    });
+
+    it('mixes var() colors with CSS color-mix()', () => {
+      expect(getVariables('var(--brand)')).toEqual({
+        highlight: 'color-mix(in srgb, var(--brand), white 10%)',
+        shadow: 'color-mix(in srgb, var(--brand), black 10%)',
+      });
+    });
+  });
+
+  describe('simulateColorVision', () => {
+    const RED = { r: 255, g: 0, b: 0, a: 1 };
+
+    it('keeps white, black and alpha', () => {
+      (['protanopia', 'deuteranopia', 'tritanopia'] as const).forEach(
+        (deficiency) => {
+          expect(
+            formatColor(
+              simulateColorVision({ r: 255, g: 255, b: 255, a: 1 }, deficiency),
+            ),
+          ).toBe('#ffffff');
+          expect(
+            simulateColorVision({ r: 0, g: 0, b: 0, a: 0.5 }, deficiency),
+          ).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+        },
+      );
+    });
+
+    it('merges red and green without red or green cones', () => {
+      (['protanopia', 'deuteranopia'] as const).forEach((deficiency) => {
+        const { r, g, b } = simulateColorVision(RED, deficiency);
+        expect(Math.abs(r - g)).toBeLessThan(60);
+        expect(b).toBeLessThan(r);
+      });
+    });
+
+    it('darkens red without red cones', () => {
+      const { r } = simulateColorVision(RED, 'protanopia');
+      expect(r).toBeLessThan(130);
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import {
+  FloppyDisk,
+  registerFormFactor,
+  getFormFactor,
+  getFormFactors,
+  FormFactorDefinition,
+} from '../index';
+
+const MINIDISC: FormFactorDefinition = {
+  id: 'minidisc',
+  name: 'MiniDisc',
+  aspectRatio: 0.8,
+  outline: 'M 0 0 H 1 V 1 H 0 Z',
+  labelBounds: { x: 0.1, y: 0.55, width: 0.8, height: 0.35 },
+  shutter: { x: 0.1, y: 0.05, width: 0.6, height: 0.4 },
+  decals: [{ path: 'M 0.8 0.1 h 0.05 v 0.05 h -0.05 Z', fill: 'background' }],
+};
+
+describe('form factor registry', () => {
+  it('provides the built-in form factors', () => {
+    const ids = getFormFactors().map((definition) => definition.id);
+    expect(ids).toEqual(['3.5', '5.25', '8', 'zip', 'cassette']);
+    expect(getFormFactor('cassette')?.aspectRatio).toBeGreaterThan(1);
+  });
+
+  it('registers custom form factors', () => {
+    expect(registerFormFactor(MINIDISC)).toBe(true);
+    expect(getFormFactor('minidisc')).toBe(MINIDISC);
+  });
+
+  it('rejects invalid definitions with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(
+      registerFormFactor({
+        ...MINIDISC,
+        id: 'broken',
+        labelBounds: { x: 0.5, y: 0.5, width: 0.8, height: 0.8 },
+      }),
+    ).toBe(false);
+    expect(
+      registerFormFactor({ ...MINIDISC, id: 'flat', aspectRatio: 0 }),
+    ).toBe(false);
+    expect(getFormFactor('broken')).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    warn.mockRestore();
+  });
+
+  it('does not allow replacing the native 3.5" form factor', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(registerFormFactor({ ...MINIDISC, id: '3.5' })).toBe(false);
+    expect(getFormFactor('3.5')?.name).toBe('3.5-inch floppy disk');
+
+    warn.mockRestore();
+  });
+});
+
+describe('FloppyDisk formFactor prop', () => {
+  it('renders the native 3.5" markup by default', () => {
+    const { container } = render(<FloppyDisk />);
+    const figure = container.querySelector('figure')!;
+    expect(figure.className).not.toMatch(/formFactor/);
+    expect(figure.querySelector('svg[aria-hidden="true"]')).toBeNull();
+    expect(screen.getByText('ZIP')).toBeInTheDocument();
+  });
+
+  it('renders registry geometry for other form factors', () => {
+    const { container } = render(
+      <FloppyDisk
+        formFactor="5.25"
+        label={{ name: 'Zork', author: 'Infocom' }}
+      />,
+    );
+    const figure = container.querySelector('figure')!;
+    expect(figure.className).toMatch(/formFactor/);
+
+    const body = figure.querySelector('svg[aria-hidden="true"]')!;
+    expect(body).toHaveAttribute('viewBox', '0 0 1 1');
+    expect(body.querySelectorAll('path').length).toBe(
+      1 + getFormFactor('5.25')!.decals!.length,
+    );
+    expect(screen.getByText('Zork')).toBeInTheDocument();
+    expect(screen.getByText('Infocom')).toBeInTheDocument();
+  });
+
+  it('derives height and border from the aspect ratio', () => {
+    const { container } = render(
+      <FloppyDisk formFactor="cassette" size={318} />,
+    );
+    const figure = container.querySelector('figure')!;
+    expect(figure).toHaveStyle({
+      '--floppy-size': '318px',
+      '--floppy-height': '200px',
+      // Border follows the shorter side (200px / 200)
+      '--floppy-border': '1px',
+    });
+  });
+
+  it('positions the label from the label bounds', () => {
+    const { container } = render(
+      <FloppyDisk formFactor="zip" size={240} label={{ name: 'Backup' }} />,
+    );
+    const figure = container.querySelector('figure')!;
+    const label = getFormFactor('zip')!.labelBounds;
+    const slot = screen.getByText('Backup').closest('[style*="left"]');
+
+    expect(slot).toHaveStyle({ left: `${label.x * 100}%` });
+    expect(figure.style.getPropertyValue('--floppy-label-height')).toBe(
+      `${label.height * (240 / 0.96)}px`,
+    );
+  });
+
+  it('renders custom registered form factors with a shutter', () => {
+    registerFormFactor(MINIDISC);
+    const { container } = render(<FloppyDisk formFactor="minidisc" />);
+    expect(container.querySelector('rect')).toHaveAttribute('width', '0.6');
+    expect(screen.getByRole('button')).toHaveAttribute(
+      'aria-label',
+      'MiniDisc',
+    );
+  });
+
+  it('falls back to 3.5" for unknown form factors', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { container } = render(<FloppyDisk formFactor="laserdisc" />);
+    expect(container.querySelector('figure')!.className).not.toMatch(
+      /formFactor/,
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown form factor 'laserdisc'"),
+    );
+
+    warn.mockRestore();
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   getAdaptiveTextColor,
+  getGradientContrast,
   generateGradientCSS,
   generateLabelGradient,
   GradientGenerationOptions,
@@ -33,6 +34,70 @@ describe('gradientUtils', () => {
       const result = getAdaptiveTextColor(multipleColors);
       expect(result).toMatch(/^#[0-9a-f]{6}$/);
     });
+
+    it('handles hex, rgb and oklch colors', () => {
+      expect(getAdaptiveTextColor(['#111', '#222'])).toBe('#ffffff');
+      expect(getAdaptiveTextColor(['rgb(20 20 20)', '#000000cc'])).toBe(
+        '#ffffff',
+      );
+      expect(getAdaptiveTextColor(['oklch(95% 0.03 90)', 'ivory'])).toBe(
+        '#000000',
+      );
+    });
+
+    it('meets a requested WCAG level with a tinted color', () => {
+      const colors = ['hsl(200, 40%, 80%)', 'hsl(220, 40%, 75%)'];
+
+      const aa = getAdaptiveTextColor(colors, { level: 'AA' });
+      expect(['#000000', '#ffffff']).not.toContain(aa);
+      expect(getGradientContrast(colors, aa)).toBeGreaterThanOrEqual(4.5);
+      expect(getGradientContrast(colors, aa)).toBeLessThan(4.7);
+
+      const aaa = getAdaptiveTextColor(colors, { level: 'AAA' });
+      expect(getGradientContrast(colors, aaa)).toBeGreaterThanOrEqual(7);
+
+      const large = getAdaptiveTextColor(colors, {
+        level: 'AA',
+        largeText: true,
+      });
+      expect(getGradientContrast(colors, large)).toBeGreaterThanOrEqual(3);
+      expect(getGradientContrast(colors, large)).toBeLessThan(
+        getGradientContrast(colors, aa),
+      );
+    });
+
+    it('falls back to black or white when no tint meets the level', () => {
+      expect(getAdaptiveTextColor(['#777777'], { level: 'AAA' })).toBe(
+        '#000000',
+      );
+    });
+
+    it('skips colors it cannot parse', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(getAdaptiveTextColor(['var(--brand)', '#111'])).toBe('#ffffff');
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("'var(--brand)'"),
+      );
+      warn.mockRestore();
+    });
+  });
+
+  describe('getGradientContrast', () => {
+    it('returns the worst contrast along the gradient', () => {
+      // The stops contrast with gray, but the middle of the gradient is gray
+      const colors = ['#ff0000', '#00ffff'];
+      expect(getGradientContrast(['#ff0000'], '#808080')).toBeGreaterThan(1);
+      expect(getGradientContrast(['#00ffff'], '#808080')).toBeGreaterThan(1);
+      expect(getGradientContrast(colors, '#808080')).toBeCloseTo(1, 1);
+    });
+
+    it('matches the WCAG ratio for solid colors', () => {
+      expect(getGradientContrast(['#ffffff'], '#000000')).toBeCloseTo(21, 5);
+      expect(
+        getGradientContrast(['#ffffff', '#ffffff'], '#767676'),
+      ).toBeCloseTo(4.54, 2);
+    });
   });
 
   describe('generateGradientCSS', () => {
@@ -94,6 +159,24 @@ describe('gradientUtils', () => {
   });
 
   describe('generateLabelGradient', () => {
+    it('picks text for dark custom hex colors', () => {
+      const result = generateLabelGradient('Test Label', 'linear', {
+        colors: ['#111', '#222'],
+      });
+      expect(result.textColor).toBe('#ffffff');
+      expect(result.textShadow).toContain('rgba(0, 0, 0');
+    });
+
+    it('tints the text to meet contrastLevel', () => {
+      const result = generateLabelGradient('Test Label', 'linear', {
+        contrastLevel: 'AA',
+      });
+      expect(['#000000', '#ffffff']).not.toContain(result.textColor);
+      expect(
+        getGradientContrast(result.colors, result.textColor),
+      ).toBeGreaterThanOrEqual(4.5);
+    });
+
     it('generates deterministic gradient for same label name', () => {
       const result1 = generateLabelGradient('Test Label', 'linear');
       const result2 = generateLabelGradient('Test Label', 'linear');
@@ -0,0 +1,85 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { FloppyDisk } from '../index';
+import { getHandwrittenGlyphs } from '../handwriting';
+import { renderFloppyToSVG } from '../svgRenderer';
+
+describe('getHandwrittenGlyphs', () => {
+  it('returns the same glyphs for the same seed', () => {
+    expect(getHandwrittenGlyphs('Mix tape', 'seed')).toEqual(
+      getHandwrittenGlyphs('Mix tape', 'seed'),
+    );
+    expect(getHandwrittenGlyphs('Mix tape', 'seed')).not.toEqual(
+      getHandwrittenGlyphs('Mix tape', 'other seed'),
+    );
+  });
+
+  it('keeps jitter within small bounds', () => {
+    const glyphs = getHandwrittenGlyphs('The quick brown fox', 'bounds');
+
+    expect(glyphs.map((glyph) => glyph.char).join('')).toBe(
+      'The quick brown fox',
+    );
+    glyphs.forEach((glyph) => {
+      expect(Math.abs(glyph.rotate)).toBeLessThanOrEqual(7);
+      expect(Math.abs(glyph.offsetY)).toBeLessThanOrEqual(0.11);
+      expect(glyph.opacity).toBeGreaterThanOrEqual(0.75);
+      expect(glyph.opacity).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('does not jitter whitespace and keeps surrogate pairs together', () => {
+    const glyphs = getHandwrittenGlyphs('a 💾', 'emoji');
+
+    expect(glyphs.map((glyph) => glyph.char)).toEqual(['a', ' ', '💾']);
+    expect(glyphs[1]).toEqual({ char: ' ', rotate: 0, offsetY: 0, opacity: 1 });
+  });
+
+  it('does not change earlier glyphs when text is appended', () => {
+    const short = getHandwrittenGlyphs('Demo', 'append');
+    const long = getHandwrittenGlyphs('Demo disk', 'append');
+
+    expect(long.slice(0, short.length)).toEqual(short);
+  });
+});
+
+describe('handwritten label template', () => {
+  const LABEL = { name: 'Holiday Photos', author: 'Mum' };
+
+  it('renders jittered glyphs that match across renders', () => {
+    const { container, unmount } = render(
+      <FloppyDisk label={LABEL} labelTemplate="handwritten" />,
+    );
+    const nameField = container.querySelector('[data-field="name"]');
+    const glyphs = nameField?.querySelectorAll('[class*="handwrittenGlyph"]');
+    const markup = nameField?.innerHTML;
+
+    expect(glyphs).toHaveLength(LABEL.name.length);
+    expect(nameField).toHaveTextContent('Holiday Photos');
+    expect((glyphs?.[0] as HTMLElement).style.transform).toMatch(
+      /^translateY\(.+em\) rotate\(.+deg\)$/,
+    );
+    unmount();
+
+    const { container: again } = render(
+      <FloppyDisk label={LABEL} labelTemplate="handwritten" />,
+    );
+    expect(again.querySelector('[data-field="name"]')?.innerHTML).toBe(markup);
+  });
+
+  it('writes the same glyphs in SVG output', () => {
+    const svg = renderFloppyToSVG({
+      label: LABEL,
+      labelTemplate: 'handwritten',
+    });
+    const [first] = getHandwrittenGlyphs(LABEL.name, `${LABEL.name}:name`);
+
+    expect(svg).toContain('xml:space="preserve"');
+    expect(svg).toContain(
+      `rotate="${first.rotate}" fill-opacity="${first.opacity}">H</tspan>`,
+    );
+    expect(svg).toBe(
+      renderFloppyToSVG({ label: LABEL, labelTemplate: 'handwritten' }),
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import {
+  FloppyDisk,
+  registerLabelTemplate,
+  getLabelTemplate,
+  getLabelTemplates,
+  LabelTemplateDefinition,
+} from '../index';
+import { renderFloppyToSVG } from '../svgRenderer';
+
+const CATALOG: LabelTemplateDefinition = {
+  id: 'catalog',
+  name: 'Catalog',
+  slots: [
+    { field: 'name', x: 0.05, y: 0.1, width: 0.9, height: 0.2, fontSize: 0.06 },
+    {
+      field: 'description',
+      x: 0.05,
+      y: 0.4,
+      width: 0.9,
+      height: 0.2,
+      fontSize: 0.04,
+      align: 'right',
+    },
+  ],
+};
+
+const LABEL = {
+  name: 'Lemmings',
+  author: 'DMA Design',
+  year: '1991',
+  description: 'Save the lemmings',
+  type: 'HD' as const,
+  size: '1.44 MB',
+};
+
+describe('label template registry', () => {
+  it('provides the built-in templates', () => {
+    const ids = getLabelTemplates().map((definition) => definition.id);
+    expect(ids).toEqual([
+      'classic',
+      'printed',
+      'typewriter',
+      'handwritten',
+      'ruled',
+    ]);
+    expect(getLabelTemplate('ruled')?.ruledLines).toBe(5);
+  });
+
+  it('registers custom templates', () => {
+    expect(registerLabelTemplate(CATALOG)).toBe(true);
+    expect(getLabelTemplate('catalog')).toBe(CATALOG);
+  });
+
+  it('rejects invalid definitions with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(
+      registerLabelTemplate({
+        ...CATALOG,
+        id: 'overflowing',
+        slots: [{ ...CATALOG.slots[0], x: 0.5, width: 0.8 }],
+      }),
+    ).toBe(false);
+    expect(
+      registerLabelTemplate({
+        ...CATALOG,
+        id: 'invisible',
+        slots: [{ ...CATALOG.slots[0], fontSize: 0 }],
+      }),
+    ).toBe(false);
+    expect(registerLabelTemplate({ ...CATALOG, id: 'classic' })).toBe(false);
+    expect(getLabelTemplate('overflowing')).toBeUndefined();
+    expect(getLabelTemplate('classic')?.name).toBe('Classic');
+    expect(warn).toHaveBeenCalledTimes(3);
+
+    warn.mockRestore();
+  });
+});
+
+describe('FloppyDisk labelTemplate', () => {
+  const getLabel = (container: HTMLElement) =>
+    container.querySelector('[data-label-template]');
+
+  it('keeps the native label markup for the classic template', () => {
+    const { container } = render(<FloppyDisk label={LABEL} />);
+
+    expect(getLabel(container)).toBeNull();
+    expect(screen.getByText('Lemmings')).toBeInTheDocument();
+  });
+
+  it('renders the slots of a built-in template', () => {
+    const { container } = render(
+      <FloppyDisk label={LABEL} labelTemplate="printed" />,
+    );
+    const label = getLabel(container);
+
+    expect(label).toHaveAttribute('data-label-template', 'printed');
+    expect(label?.querySelector('[class*="labelLogo"]')).not.toBeNull();
+    expect(label?.querySelector('[data-field="size"]')).toHaveTextContent(
+      '1.44 MB',
+    );
+    // The printed template has no description slot
+    expect(label?.querySelector('[data-field="description"]')).toBeNull();
+  });
+
+  it('fills the logo band from the disk type and capacity', () => {
+    const { container } = render(
+      <FloppyDisk
+        label={{ name: 'Backup' }}
+        labelTemplate="printed"
+        diskType="DD"
+        capacity="720 KB"
+      />,
+    );
+    const label = getLabel(container);
+
+    expect(label?.querySelector('[data-field="type"]')).toHaveTextContent(
+      'DISK',
+    );
+    expect(label?.querySelector('[data-field="size"]')).toHaveTextContent(
+      '720 KB',
+    );
+
+    const svg = renderFloppyToSVG({
+      label: { name: 'Backup' },
+      labelTemplate: 'printed',
+    });
+    // Once on the slide and once in the logo band
+    expect(svg.match(/>ZIP<\/text>/g)).toHaveLength(2);
+    expect(svg.match(/>1\.44 MB<\/text>/g)).toHaveLength(2);
+  });
+
+  it('draws ruled lines for the ruled template', () => {
+    const { container } = render(
+      <FloppyDisk label={LABEL} labelTemplate="ruled" />,
+    );
+    const label = getLabel(container) as HTMLElement;
+
+    expect(label.className).toMatch(/ruled/);
+    expect(label.style.getPropertyValue('--label-rule-count')).toBe('5');
+  });
+
+  it('positions and aligns custom template slots', () => {
+    registerLabelTemplate(CATALOG);
+    const { container } = render(
+      <FloppyDisk label={LABEL} labelTemplate="catalog" />,
+    );
+    const description = container.querySelector(
+      '[data-field="description"]',
+    ) as HTMLElement;
+
+    expect(description).toHaveTextContent('Save the lemmings');
+    expect(description.style.top).toBe('40%');
+    expect(description.style.justifyContent).toBe('flex-end');
+  });
+
+  it('falls back to the classic label for unknown templates', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { container } = render(
+      <FloppyDisk label={LABEL} labelTemplate="missing" />,
+    );
+
+    expect(getLabel(container)).toBeNull();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown label template 'missing'"),
+    );
+
+    warn.mockRestore();
+  });
+
+  it('renders templates in SVG output', () => {
+    const svg = renderFloppyToSVG({
+      label: LABEL,
+      labelTemplate: 'handwritten',
+    });
+
+    expect(svg).toMatch(/<tspan [^>]*>L<\/tspan>/);
+    expect(svg).toContain('transform="rotate(-2 ');
+    expect(svg).not.toContain('Save the lemmings');
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderFloppyToSVG } from '../svgRenderer';
+import { getFormFactor, registerFormFactor } from '../formFactors';
+import { NEON_THEME } from '../types';
+
+describe('renderFloppyToSVG', () => {
+  it('renders a standalone SVG document', () => {
+    const svg = renderFloppyToSVG();
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+      true,
+    );
+    expect(svg.endsWith('</svg>')).toBe(true);
+    expect(svg).toContain('width="200"');
+    expect(svg).toContain('viewBox="0 0 200 200"');
+    expect(svg).toContain('aria-label="Floppy disk"');
+  });
+
+  it('parses as valid XML', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: 'Second Reality', author: 'Future Crew', year: '1993' },
+      theme: { enableGradient: true },
+    });
+    const doc = new window.DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.documentElement.tagName).toBe('svg');
+  });
+
+  it('uses predefined and custom sizes', () => {
+    expect(renderFloppyToSVG({ size: 'large' })).toContain('width="400"');
+    expect(renderFloppyToSVG({ size: 321 })).toContain('viewBox="0 0 321 321"');
+  });
+
+  it('renders label name, author and year', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: 'Unreal', author: 'Future Crew', year: '1992' },
+    });
+    expect(svg).toContain('>Unreal</text>');
+    expect(svg).toContain('>Future Crew</text>');
+    expect(svg).toContain('>1992</text>');
+    expect(svg).toContain('aria-label="Unreal by Future Crew"');
+  });
+
+  it('renders type and capacity on the slide', () => {
+    const svg = renderFloppyToSVG({
+      diskType: 'DD',
+      label: { name: 'Test', size: '720 KB' },
+    });
+    expect(svg).toContain('>DISK</text>');
+    expect(svg).toContain('>720 KB</text>');
+  });
+
+  it('escapes XML special characters', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: '<Tom & "Jerry">', author: "O'Brien" },
+    });
+    expect(svg).toContain('&lt;Tom &amp; &quot;Jerry&quot;&gt;');
+    expect(svg).not.toContain('<Tom');
+    expect(svg).toContain('O&apos;Brien');
+  });
+
+  it('applies theme colors', () => {
+    const svg = renderFloppyToSVG({
+      theme: {
+        diskColor: '#ff0000',
+        slideColor: '#00ff00',
+        labelColor: '#ffff00',
+        labelTextColor: '#ff00ff',
+      },
+      label: { name: 'Colors' },
+    });
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('fill="#00ff00"');
+    expect(svg).toContain('fill="#ffff00"');
+    expect(svg).toContain('fill="#ff00ff"');
+  });
+
+  it('converts generated gradients into SVG gradients', () => {
+    const linear = renderFloppyToSVG({
+      label: { name: 'Gradient' },
+      theme: {
+        enableGradient: true,
+        gradientType: 'linear',
+        gradientOptions: { colors: ['#ff0000', '#0000ff'], angle: 90 },
+      },
+    });
+    expect(linear).toContain('<linearGradient id="floppy-label-gradient"');
+    expect(linear).toContain('stop-color="#ff0000"');
+    expect(linear).toContain('stop-color="#0000ff"');
+    expect(linear).toContain('fill="url(#floppy-label-gradient)"');
+
+    const radial = renderFloppyToSVG({
+      label: { name: 'Gradient' },
+      theme: { enableGradient: true, gradientType: 'radial' },
+    });
+    expect(radial).toContain('<radialGradient');
+  });
+
+  it('converts gradient label colors from theme presets', () => {
+    const svg = renderFloppyToSVG({
+      theme: { ...NEON_THEME, enableGradient: false },
+    });
+    expect(svg).toContain('stop-color="#ff00ff"');
+    expect(svg).toContain('stop-color="#00ffff"');
+  });
+
+  it('supports a custom id prefix', () => {
+    const svg = renderFloppyToSVG(
+      { label: { name: 'Ids' }, theme: { enableGradient: true } },
+      { idPrefix: 'disk-7' },
+    );
+    expect(svg).toContain('id="disk-7-body-clip"');
+    expect(svg).toContain('id="disk-7-label-gradient"');
+    expect(svg).not.toContain('floppy-body-clip');
+  });
+
+  it('wraps and shrinks long names to fit the label', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: 'The Secret of Monkey Island' },
+    });
+    const name = svg.match(/<text [^>]*font-weight="700">(.*?)<\/text>/);
+    expect(name![1]).toMatch(
+      /^<tspan [^>]*>The Secret of<\/tspan><tspan [^>]*>Monkey Island<\/tspan>$/,
+    );
+    expect(svg).not.toContain('textLength');
+  });
+
+  it('follows labelFit policies', () => {
+    const name = 'A'.repeat(60);
+    const truncated = renderFloppyToSVG({
+      label: { name },
+      labelFit: { name: 'ellipsis' },
+    });
+    expect(truncated).toMatch(/>A+…<\/text>/);
+    expect(truncated).toContain('font-size="15"');
+
+    const untouched = renderFloppyToSVG({ label: { name }, labelFit: 'none' });
+    expect(untouched).toContain(`>${name}</text>`);
+  });
+
+  it('renders error and disabled states', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: 'Broken' },
+      error: true,
+      disabled: true,
+    });
+    expect(svg).toContain('fill="#dc2626"');
+    expect(svg).toContain('opacity="0.5"');
+  });
+
+  it('is deterministic', () => {
+    const props = {
+      label: { name: 'Same', author: 'Author' },
+      theme: { enableGradient: true },
+    };
+    expect(renderFloppyToSVG(props)).toBe(renderFloppyToSVG(props));
+  });
+
+  it('draws registry form factors from their geometry', () => {
+    const zip = getFormFactor('zip')!;
+    const svg = renderFloppyToSVG({
+      size: 'large',
+      formFactor: 'zip',
+      label: { name: 'Backup' },
+    });
+
+    expect(svg).toContain('width="400" height="416.67"');
+    expect(svg).toContain(`<path d="${zip.outline}"`);
+    expect(svg).toContain('transform="scale(400 416.67)"');
+    // No 3.5" slide text
+    expect(svg).not.toContain('>ZIP</text>');
+    expect(svg).toContain('>Backup</text>');
+    expect(renderFloppyToSVG({ formFactor: 'cassette' })).toContain(
+      'aria-label="Compact cassette"',
+    );
+  });
+
+  it('escapes path data of registered form factors', () => {
+    registerFormFactor({
+      id: 'quoted',
+      name: 'Quoted',
+      aspectRatio: 1,
+      outline: 'M 0 0 H 1 V 1 H 0 Z"/><script>alert(1)</script><path d="',
+      labelBounds: { x: 0.1, y: 0.5, width: 0.8, height: 0.4 },
+      decals: [{ path: 'M 0 0 "<' }],
+    });
+    const svg = renderFloppyToSVG({ formFactor: 'quoted' });
+
+    expect(svg).not.toContain('<script>');
+    expect(svg).toContain('Z&quot;/&gt;&lt;script&gt;');
+    expect(svg).toContain('d="M 0 0 &quot;&lt;"');
+    const doc = new window.DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  });
+
+  it('falls back to the 3.5" disk for unknown form factors', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(renderFloppyToSVG({ formFactor: 'minidisc' })).toBe(
+      renderFloppyToSVG(),
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown form factor 'minidisc'"),
+    );
+    warn.mockRestore();
+  });
+
+  it('renders label image URLs', () => {
+    const svg = renderFloppyToSVG({
+      label: { name: 'Doom', image: '/doom.png?a=1&b=2', imageFit: 'cover' },
+    });
+    expect(svg).toContain('<image href="/doom.png?a=1&amp;b=2"');
+    expect(svg).toContain('preserveAspectRatio="xMidYMid slice"');
+    expect(svg).toContain('clip-path="url(#floppy-label-clip)"');
+    expect(svg).toContain('paint-order="stroke"');
+
+    const icon = renderFloppyToSVG({
+      label: { name: 'Doom', image: '/doom.png', imageFit: 'icon-left' },
+    });
+    expect(icon).toContain('preserveAspectRatio="xMidYMid meet"');
+    expect(icon).not.toContain('label-clip');
+  });
+});
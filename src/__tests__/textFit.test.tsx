@@ -0,0 +1,306 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { FloppyDisk } from '../index';
+import { fitText, resolveLabelFit, truncateText, wrapText } from '../textFit';
+
+// Monospace stand-in: every character is 10 units wide
+const measure = (text: string) => text.length * 10;
+
+describe('text fitting engine', () => {
+  it('wraps at spaces and breaks words wider than a line', () => {
+    expect(wrapText('The Secret of Monkey Island', 140, measure)).toEqual([
+      'The Secret of',
+      'Monkey Island',
+    ]);
+    expect(wrapText('Supercalifragilistic', 80, measure)).toEqual([
+      'Supercal',
+      'ifragili',
+      'stic',
+    ]);
+  });
+
+  it('truncates with an ellipsis', () => {
+    expect(truncateText('Lemmings', 100, measure)).toBe('Lemmings');
+    expect(truncateText('Prince of Persia', 90, measure)).toBe('Prince o…');
+    // Trailing spaces are not kept before the ellipsis
+    expect(truncateText('Prince of Persia', 80, measure)).toBe('Prince…');
+  });
+
+  it('binary-searches the largest font scale that fits', () => {
+    const result = fitText('A'.repeat(20), {
+      policy: 'fit',
+      maxWidth: 150,
+      measure,
+    });
+
+    expect(result.lines).toEqual(['A'.repeat(20)]);
+    expect(result.scale).toBeLessThanOrEqual(0.75);
+    expect(result.scale).toBeGreaterThan(0.74);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('wraps before shrinking and respects maxLines and height', () => {
+    const text = 'The Secret of Monkey Island';
+    expect(fitText(text, { policy: 'wrap', maxWidth: 140, measure })).toEqual({
+      scale: 1,
+      lines: ['The Secret of', 'Monkey Island'],
+      truncated: false,
+    });
+
+    // Only one line fits the height: shrinks until the text fits on it
+    const short = fitText(text, {
+      policy: 'wrap',
+      maxWidth: 140,
+      maxHeight: 15,
+      lineHeight: 20,
+      measure,
+    });
+    expect(short.lines).toEqual(['The Secret of Monkey Island']);
+    expect(short.scale).toBeCloseTo(140 / 270, 2);
+  });
+
+  it('truncates when the text does not fit at the minimum scale', () => {
+    const result = fitText('A'.repeat(100), {
+      policy: 'wrap',
+      maxWidth: 100,
+      maxLines: 2,
+      minScale: 0.5,
+      measure,
+    });
+
+    expect(result.scale).toBe(0.5);
+    expect(result.lines).toHaveLength(2);
+    expect(result.lines[1].endsWith('…')).toBe(true);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('truncates words broken between characters without adding spaces', () => {
+    const result = fitText('Ab Supercalifragilistic', {
+      policy: 'wrap',
+      maxWidth: 80,
+      minScale: 1,
+      measure,
+    });
+
+    expect(result.lines).toEqual(['Ab', 'Superca…']);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('lets the wrap shorthand wrap every line', () => {
+    const rules = resolveLabelFit('wrap');
+    expect(rules.author).toMatchObject({ policy: 'wrap', maxLines: 2 });
+    expect(rules.year).toMatchObject({ policy: 'wrap', maxLines: 2 });
+
+    expect(
+      resolveLabelFit({ author: { policy: 'wrap', maxLines: 3 } }).author
+        .maxLines,
+    ).toBe(3);
+    // Shrinking lines keep a single line
+    expect(resolveLabelFit('fit').author.maxLines).toBe(1);
+  });
+
+  it('leaves text alone for none and unmeasured layouts', () => {
+    const text = 'A'.repeat(100);
+    expect(fitText(text, { policy: 'none', maxWidth: 10, measure })).toEqual({
+      scale: 1,
+      lines: [text],
+      truncated: false,
+    });
+    expect(fitText(text, { policy: 'fit', maxWidth: 0, measure }).scale).toBe(
+      1,
+    );
+  });
+});
+
+describe('FloppyDisk label fitting', () => {
+  let restore: () => void;
+  // Label text area (200 x 100 by default) and character width in px
+  let layout: { width: number; height: number; charWidth: number };
+
+  // Text is rendered at the fit scale of its label line
+  const getScale = (element: HTMLElement) => {
+    const line = element.closest<HTMLElement>('[data-label-field]');
+    return (
+      parseFloat(line?.style.getPropertyValue('--line-fit-scale') || '') || 1
+    );
+  };
+
+  // Characters are 20px tall at a scale of 1
+  beforeEach(() => {
+    layout = { width: 200, height: 100, charWidth: 10 };
+    const element = window.Element.prototype;
+    const htmlElement = window.HTMLElement.prototype;
+    const descriptors = {
+      clientWidth: Object.getOwnPropertyDescriptor(element, 'clientWidth'),
+      clientHeight: Object.getOwnPropertyDescriptor(element, 'clientHeight'),
+      offsetWidth: Object.getOwnPropertyDescriptor(htmlElement, 'offsetWidth'),
+      offsetHeight: Object.getOwnPropertyDescriptor(
+        htmlElement,
+        'offsetHeight',
+      ),
+    };
+    Object.defineProperties(element, {
+      clientWidth: { configurable: true, get: () => layout.width },
+      clientHeight: { configurable: true, get: () => layout.height },
+    });
+    Object.defineProperties(htmlElement, {
+      offsetWidth: {
+        configurable: true,
+        get(this: HTMLElement) {
+          return (
+            (this.textContent || '').length * layout.charWidth * getScale(this)
+          );
+        },
+      },
+      offsetHeight: {
+        configurable: true,
+        get(this: HTMLElement) {
+          return 20 * getScale(this);
+        },
+      },
+    });
+
+    restore = () => {
+      Object.defineProperties(element, {
+        clientWidth: descriptors.clientWidth!,
+        clientHeight: descriptors.clientHeight!,
+      });
+      Object.defineProperties(htmlElement, {
+        offsetWidth: descriptors.offsetWidth!,
+        offsetHeight: descriptors.offsetHeight!,
+      });
+    };
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  const getLine = (container: HTMLElement, field: string) =>
+    container.querySelector(`[data-label-field="${field}"]`) as HTMLElement;
+
+  it('wraps long names and shrinks long authors by default', () => {
+    const { container } = render(
+      <FloppyDisk
+        label={{ name: 'The Secret of Monkey Island', author: 'A'.repeat(30) }}
+      />,
+    );
+
+    expect(screen.getByText('The Secret of')).toBeInTheDocument();
+    expect(screen.getByText('Monkey Island')).toBeInTheDocument();
+
+    const scale = parseFloat(
+      getLine(container, 'author').style.getPropertyValue('--line-fit-scale'),
+    );
+    expect(scale).toBeCloseTo(176 / 300, 2);
+  });
+
+  it('applies labelFit policies per line', () => {
+    const { container } = render(
+      <FloppyDisk
+        label={{ name: 'The Secret of Monkey Island', author: 'A'.repeat(30) }}
+        labelFit={{ name: 'none', author: 'ellipsis' }}
+      />,
+    );
+
+    expect(getLine(container, 'name')).toHaveTextContent(
+      'The Secret of Monkey Island',
+    );
+    const author = getLine(container, 'author');
+    expect(author).toHaveAttribute('data-truncated', 'true');
+    expect(author).toHaveTextContent(`${'A'.repeat(16)}…`);
+    expect(author.style.getPropertyValue('--line-fit-scale')).toBe('1');
+  });
+
+  describe('refitting', () => {
+    const originalResizeObserver = window.ResizeObserver;
+    let resizeCallbacks: Array<() => void>;
+
+    beforeEach(() => {
+      resizeCallbacks = [];
+      window.ResizeObserver = class {
+        constructor(callback: () => void) {
+          resizeCallbacks.push(callback);
+        }
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      } as unknown as typeof window.ResizeObserver;
+    });
+
+    afterEach(() => {
+      window.ResizeObserver = originalResizeObserver;
+      Object.defineProperty(document, 'fonts', {
+        configurable: true,
+        value: undefined,
+      });
+    });
+
+    const resize = (width: number) => {
+      layout.width = width;
+      act(() => resizeCallbacks.forEach((callback) => callback()));
+    };
+
+    it('refits when the label area is resized', () => {
+      const { container } = render(
+        <FloppyDisk label={{ name: 'Zak', author: 'A'.repeat(16) }} />,
+      );
+      const author = getLine(container, 'author');
+      expect(author.style.getPropertyValue('--line-fit-scale')).toBe('1');
+
+      resize(100);
+      expect(
+        parseFloat(author.style.getPropertyValue('--line-fit-scale')),
+      ).toBeCloseTo(88 / 160, 2);
+    });
+
+    it('fits a disk that mounted hidden once it is shown', () => {
+      layout = { width: 0, height: 0, charWidth: 10 };
+      render(<FloppyDisk label={{ name: 'The Secret of Monkey Island' }} />);
+      // Unmeasured: the natural text is kept
+      expect(screen.queryByText('Monkey Island')).not.toBeInTheDocument();
+
+      layout.height = 100;
+      resize(200);
+      expect(screen.getByText('Monkey Island')).toBeInTheDocument();
+    });
+
+    it('refits after web fonts load', async () => {
+      const listeners: Array<() => void> = [];
+      let resolveReady: () => void = () => {};
+      Object.defineProperty(document, 'fonts', {
+        configurable: true,
+        value: {
+          status: 'loading',
+          ready: new Promise<void>((resolve) => {
+            resolveReady = resolve;
+          }),
+          addEventListener: (_type: string, listener: () => void) =>
+            listeners.push(listener),
+          removeEventListener: () => {},
+        },
+      });
+
+      const { container } = render(
+        <FloppyDisk label={{ name: 'Zak', author: 'A'.repeat(16) }} />,
+      );
+      const author = getLine(container, 'author');
+      expect(author.style.getPropertyValue('--line-fit-scale')).toBe('1');
+
+      // The web font is wider than the fallback
+      layout.charWidth = 12;
+      await act(async () => {
+        resolveReady();
+      });
+      expect(
+        parseFloat(author.style.getPropertyValue('--line-fit-scale')),
+      ).toBeCloseTo(176 / 192, 2);
+
+      layout.charWidth = 20;
+      act(() => listeners.forEach((listener) => listener()));
+      expect(
+        parseFloat(author.style.getPropertyValue('--line-fit-scale')),
+      ).toBeCloseTo(176 / 320, 2);
+    });
+  });
+});
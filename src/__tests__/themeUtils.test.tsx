@@ -0,0 +1,213 @@
+import {
+  createFloppyTheme,
+  DARK_FLOPPY_THEME,
+  getGradientContrast,
+  LIGHT_FLOPPY_THEME,
+  parseColor,
+  validateFloppyTheme,
+} from '../index';
+
+describe('createFloppyTheme', () => {
+  const hueOf = (color: string) => {
+    const { r, g, b } = parseColor(color)!;
+    return [r, g, b].indexOf(Math.max(r, g, b));
+  };
+
+  it('derives every theme color from the base color', () => {
+    const theme = createFloppyTheme('#e4572e');
+
+    expect(theme).toMatchObject({
+      diskColor: '#e4572e',
+      enableGradient: false,
+      gradientType: 'auto',
+    });
+    // Surfaces keep the brand hue (red channel strongest)
+    [
+      theme.slideColor,
+      theme.backgroundColor,
+      theme.labelColor,
+      theme.labelTextColor,
+    ].forEach((color) => expect(hueOf(color!)).toBe(0));
+  });
+
+  it('keeps the slide metallic', () => {
+    const { r, g, b } = parseColor(
+      createFloppyTheme('rgb(0 200 0)').slideColor!,
+    )!;
+
+    expect(Math.max(r, g, b) - Math.min(r, g, b)).toBeLessThan(40);
+  });
+
+  it('meets the requested label text contrast', () => {
+    ['#e4572e', '#ffd6e8', '#808080', 'oklch(70% 0.2 140)'].forEach((base) => {
+      (['light', 'dark'] as const).forEach((colorScheme) => {
+        const aa = createFloppyTheme(base, { colorScheme });
+        const aaa = createFloppyTheme(base, {
+          colorScheme,
+          contrastLevel: 'AAA',
+        });
+
+        expect(
+          getGradientContrast([aa.labelColor!], aa.labelTextColor!),
+        ).toBeGreaterThanOrEqual(4.5);
+        expect(
+          getGradientContrast([aaa.labelColor!], aaa.labelTextColor!),
+        ).toBeGreaterThanOrEqual(7);
+      });
+    });
+  });
+
+  it('returns light and dark variants', () => {
+    const { light, dark } = createFloppyTheme('#3366cc', {
+      colorScheme: 'both',
+    });
+    const lightness = (color: string) => {
+      const { r, g, b } = parseColor(color)!;
+      return r + g + b;
+    };
+
+    expect(light.diskColor).toBe('#3366cc');
+    expect(dark.diskColor).toBe('#3366cc');
+    expect(lightness(light.backgroundColor!)).toBeGreaterThan(
+      lightness(dark.backgroundColor!),
+    );
+    expect(lightness(light.labelTextColor!)).toBeLessThan(
+      lightness(dark.labelTextColor!),
+    );
+  });
+
+  it('ignores the alpha of the base color', () => {
+    expect(createFloppyTheme('rgb(51 102 204 / 50%)').diskColor).toBe(
+      '#3366cc',
+    );
+  });
+
+  it('falls back to the built-in themes for invalid colors', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createFloppyTheme('var(--brand)')).toBe(LIGHT_FLOPPY_THEME);
+    expect(createFloppyTheme('constructor')).toBe(LIGHT_FLOPPY_THEME);
+    expect(createFloppyTheme('nope', { colorScheme: 'both' })).toEqual({
+      light: LIGHT_FLOPPY_THEME,
+      dark: DARK_FLOPPY_THEME,
+    });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Cannot create a theme from 'var(--brand)'"),
+    );
+    warn.mockRestore();
+  });
+});
+
+describe('validateFloppyTheme', () => {
+  const codes = (theme: Parameters<typeof validateFloppyTheme>[0]) =>
+    validateFloppyTheme(theme).diagnostics.map(
+      ({ code, field, colorVision }) => [code, field, colorVision],
+    );
+
+  it('accepts readable themes', () => {
+    expect(validateFloppyTheme(LIGHT_FLOPPY_THEME)).toEqual({
+      valid: true,
+      diagnostics: [],
+    });
+    expect(validateFloppyTheme(createFloppyTheme('#e4572e')).valid).toBe(true);
+  });
+
+  it('reports invalid and browser-resolved colors', () => {
+    const result = validateFloppyTheme({
+      slideColor: 'shiny',
+      backgroundColor: 'var(--page)',
+      labelColor: '__proto__',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'invalid-color',
+        severity: 'error',
+        field: 'slideColor',
+      }),
+      expect.objectContaining({
+        code: 'unresolved-color',
+        severity: 'warning',
+        field: 'backgroundColor',
+      }),
+      expect.objectContaining({
+        code: 'invalid-color',
+        severity: 'error',
+        field: 'labelColor',
+      }),
+    ]);
+  });
+
+  it('checks label text contrast against the WCAG level', () => {
+    const theme = { labelColor: '#ffffff', labelTextColor: '#767676' };
+
+    expect(validateFloppyTheme(theme).valid).toBe(true);
+    expect(validateFloppyTheme(theme, { level: 'AAA' })).toEqual({
+      valid: false,
+      diagnostics: [
+        expect.objectContaining({
+          code: 'label-text-contrast',
+          field: 'labelColor',
+          required: 7,
+          contrast: expect.closeTo(4.54, 2),
+        }),
+      ],
+    });
+    expect(
+      validateFloppyTheme(theme, { level: 'AAA', largeText: true }).valid,
+    ).toBe(true);
+  });
+
+  it('checks every point of a gradient label', () => {
+    expect(
+      codes({
+        labelColor: 'linear-gradient(90deg, #ffffff 0%, rgb(0 0 0 / 90%) 100%)',
+        labelTextColor: '#000000',
+      }),
+    ).toContainEqual(['label-text-contrast', 'labelColor', undefined]);
+
+    expect(
+      codes({ labelColor: 'linear-gradient(to right, #fff, chalk 50%)' }),
+    ).toEqual([['invalid-color', 'labelColor', undefined]]);
+
+    // Generated gradients use the adaptive text color
+    expect(
+      codes({
+        enableGradient: true,
+        gradientOptions: { colors: ['#ffffff', '#767676'] },
+      }),
+    ).toEqual([]);
+    expect(
+      codes({
+        enableGradient: true,
+        gradientOptions: { colors: ['#ffffff', '#000000'] },
+      }),
+    ).toContainEqual([
+      'label-text-contrast',
+      'gradientOptions.colors',
+      undefined,
+    ]);
+  });
+
+  it('simulates color vision deficiencies', () => {
+    // Red is bright enough on black, except without red cones
+    expect(codes({ labelColor: '#000000', labelTextColor: '#ff0000' })).toEqual(
+      [['label-text-contrast', 'labelColor', 'protanopia']],
+    );
+  });
+
+  it('warns when the disk blends into the background', () => {
+    const result = validateFloppyTheme(DARK_FLOPPY_THEME);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: 'disk-background-contrast',
+      severity: 'warning',
+      field: 'diskColor',
+      required: 3,
+    });
+    // Not repeated for each simulated color vision deficiency
+    expect(result.diagnostics).toHaveLength(1);
+  });
+});
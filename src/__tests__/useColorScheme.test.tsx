@@ -0,0 +1,114 @@
+import React from 'react';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import {
+  DARK_FLOPPY_THEME,
+  FloppyDisk,
+  FloppyThemeProvider,
+  LIGHT_FLOPPY_THEME,
+  renderFloppyToSVG,
+} from '../index';
+
+const PAIR = {
+  light: { diskColor: '#eeeeee' },
+  dark: { diskColor: '#111111' },
+};
+
+describe('automatic color scheme', () => {
+  const originalMatchMedia = window.matchMedia;
+  let prefersDark = false;
+  let changeListeners: Array<() => void> = [];
+
+  // Fake prefers-color-scheme query whose change events the test can fire
+  const setPrefersDark = (value: boolean) => {
+    prefersDark = value;
+    act(() => changeListeners.forEach((listener) => listener()));
+  };
+
+  beforeEach(() => {
+    prefersDark = false;
+    changeListeners = [];
+    window.matchMedia = ((query: string) => ({
+      media: query,
+      get matches() {
+        return prefersDark;
+      },
+      addEventListener: (_type: string, listener: () => void) => {
+        changeListeners.push(listener);
+      },
+      removeEventListener: (_type: string, listener: () => void) => {
+        changeListeners = changeListeners.filter((item) => item !== listener);
+      },
+    })) as unknown as typeof window.matchMedia;
+  });
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+    // Unmount first, so removing data-theme does not update disks outside act
+    cleanup();
+    document.documentElement.removeAttribute('data-theme');
+  });
+
+  it('switches the auto theme with prefers-color-scheme', () => {
+    render(<FloppyDisk theme="auto" />);
+    const disk = screen.getByRole('button');
+    expect(disk).toHaveStyle({
+      '--floppy-color': LIGHT_FLOPPY_THEME.diskColor,
+    });
+
+    setPrefersDark(true);
+    expect(disk).toHaveStyle({ '--floppy-color': DARK_FLOPPY_THEME.diskColor });
+
+    setPrefersDark(false);
+    expect(disk).toHaveStyle({
+      '--floppy-color': LIGHT_FLOPPY_THEME.diskColor,
+    });
+  });
+
+  it('lets a data-theme ancestor override the media query', async () => {
+    prefersDark = true;
+    render(
+      <div data-theme="light">
+        <FloppyDisk theme={PAIR} />
+      </div>,
+    );
+    const disk = screen.getByRole('button');
+    expect(disk).toHaveStyle({ '--floppy-color': '#eeeeee' });
+
+    // MutationObserver callbacks run as microtasks
+    await act(async () => {
+      disk.parentElement?.setAttribute('data-theme', 'dark');
+    });
+    expect(disk).toHaveStyle({ '--floppy-color': '#111111' });
+  });
+
+  it('follows data-theme on the document element in a provider', async () => {
+    render(
+      <FloppyThemeProvider theme={PAIR}>
+        <FloppyDisk />
+      </FloppyThemeProvider>,
+    );
+    const disk = screen.getByRole('button');
+    expect(disk).toHaveStyle({ '--floppy-color': '#eeeeee' });
+
+    await act(async () => {
+      document.documentElement.setAttribute('data-theme', 'dark');
+    });
+    expect(disk).toHaveStyle({ '--floppy-color': '#111111' });
+  });
+
+  it('uses the light theme without matchMedia', () => {
+    window.matchMedia = undefined as unknown as typeof window.matchMedia;
+    render(<FloppyDisk theme={PAIR} />);
+
+    expect(screen.getByRole('button')).toHaveStyle({
+      '--floppy-color': '#eeeeee',
+    });
+  });
+
+  it('picks the theme from the colorScheme option in SVG output', () => {
+    expect(renderFloppyToSVG({ theme: PAIR })).toContain('#eeeeee');
+    expect(
+      renderFloppyToSVG({ theme: PAIR }, { colorScheme: 'dark' }),
+    ).toContain('#111111');
+  });
+});
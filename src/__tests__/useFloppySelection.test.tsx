@@ -0,0 +1,125 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FloppyShelf, FloppySelectionMode, useFloppySelection } from '../index';
+
+const NAMES = ['Doom', 'Elite', 'Lemmings', 'Tetris', 'Zork'];
+const IDS = NAMES.map((_, index) => `disk-${index}`);
+
+const SelectableShelf: React.FC<{
+  mode?: FloppySelectionMode;
+  onSelectionChange?: (ids: string[]) => void;
+  editable?: boolean;
+}> = ({ mode, onSelectionChange, editable }) => {
+  const selection = useFloppySelection({ ids: IDS, mode, onSelectionChange });
+  return (
+    <FloppyShelf
+      {...selection.shelfProps}
+      columns={5}
+      items={NAMES.map((name, index) => ({
+        id: IDS[index],
+        label: { name },
+        editable,
+        ...selection.getItemProps(IDS[index]),
+      }))}
+    />
+  );
+};
+
+describe('useFloppySelection', () => {
+  const getCell = (name: string) =>
+    screen.getByRole('gridcell', { name: new RegExp(`^${name}`) });
+
+  const selectedNames = () =>
+    screen
+      .getAllByRole('gridcell')
+      .filter((cell) => cell.getAttribute('aria-selected') === 'true')
+      .map((cell) => cell.getAttribute('aria-label')?.split(' by ')[0]);
+
+  it('marks the shelf multiselectable and every disk as unselected', () => {
+    render(<SelectableShelf />);
+
+    expect(screen.getByRole('grid')).toHaveAttribute(
+      'aria-multiselectable',
+      'true',
+    );
+    expect(getCell('Doom')).toHaveAttribute('aria-selected', 'false');
+  });
+
+  it('replaces, toggles and extends the selection in range mode', () => {
+    const handleSelectionChange = vi.fn();
+    render(<SelectableShelf onSelectionChange={handleSelectionChange} />);
+
+    fireEvent.click(getCell('Elite'));
+    expect(selectedNames()).toEqual(['Elite']);
+
+    fireEvent.click(getCell('Tetris'), { shiftKey: true });
+    expect(selectedNames()).toEqual(['Elite', 'Lemmings', 'Tetris']);
+
+    fireEvent.click(getCell('Lemmings'), { ctrlKey: true });
+    expect(selectedNames()).toEqual(['Elite', 'Tetris']);
+
+    fireEvent.click(getCell('Zork'));
+    expect(selectedNames()).toEqual(['Zork']);
+    expect(handleSelectionChange).toHaveBeenLastCalledWith(['disk-4']);
+  });
+
+  it('toggles on every click in multiple mode', () => {
+    render(<SelectableShelf mode="multiple" />);
+
+    fireEvent.click(getCell('Doom'));
+    fireEvent.click(getCell('Tetris'));
+    expect(selectedNames()).toEqual(['Doom', 'Tetris']);
+
+    fireEvent.click(getCell('Doom'));
+    expect(selectedNames()).toEqual(['Tetris']);
+  });
+
+  it('keeps one disk selected in single mode', () => {
+    render(<SelectableShelf mode="single" />);
+
+    expect(screen.getByRole('grid')).toHaveAttribute(
+      'aria-multiselectable',
+      'false',
+    );
+    fireEvent.click(getCell('Doom'));
+    fireEvent.click(getCell('Zork'), { shiftKey: true });
+    expect(selectedNames()).toEqual(['Zork']);
+  });
+
+  it('toggles with Space and extends with Shift+Arrow', async () => {
+    render(<SelectableShelf />);
+
+    fireEvent.keyDown(getCell('Doom'), { key: ' ' });
+    fireEvent.keyUp(getCell('Doom'), { key: ' ' });
+    expect(selectedNames()).toEqual(['Doom']);
+
+    fireEvent.keyDown(getCell('Doom'), { key: 'ArrowRight', shiftKey: true });
+    fireEvent.keyDown(getCell('Elite'), { key: 'ArrowRight', shiftKey: true });
+    expect(getCell('Lemmings')).toHaveFocus();
+    expect(selectedNames()).toEqual(['Doom', 'Elite', 'Lemmings']);
+
+    // Plain navigation moves focus without changing the selection
+    await Promise.resolve();
+    fireEvent.keyDown(getCell('Lemmings'), { key: 'ArrowRight' });
+    expect(selectedNames()).toEqual(['Doom', 'Elite', 'Lemmings']);
+  });
+
+  it('selects all with Ctrl+A', () => {
+    render(<SelectableShelf />);
+
+    fireEvent.keyDown(getCell('Doom'), { key: 'a', ctrlKey: true });
+
+    expect(selectedNames()).toEqual(NAMES);
+    expect(getCell('Doom')).not.toHaveFocus();
+  });
+
+  it('leaves Ctrl+A to an editable label', () => {
+    render(<SelectableShelf editable />);
+
+    fireEvent.keyDown(getCell('Doom'), { key: 'F2' });
+    const name = screen.getByLabelText('Disk name');
+
+    expect(fireEvent.keyDown(name, { key: 'a', ctrlKey: true })).toBe(true);
+    expect(selectedNames()).toEqual([]);
+  });
+});
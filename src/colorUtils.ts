@@ -0,0 +1,609 @@
+/**
+ * Utility functions for color parsing and manipulation
+ */
+
+// Color manipulation constants
+const HEX_RADIX = 16;
+const PERCENT_TO_RGB_MULTIPLIER = 2.55;
+const RGB_MAX = 255;
+const RGB_MIN = 0;
+const ALPHA_DECIMALS = 3;
+
+/**
+ * A color in sRGB: channels from 0 to 255, alpha from 0 to 1
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * CSS named colors (CSS Color 4) as 6-digit hex strings
+ */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff',
+  antiquewhite: 'faebd7',
+  aqua: '00ffff',
+  aquamarine: '7fffd4',
+  azure: 'f0ffff',
+  beige: 'f5f5dc',
+  bisque: 'ffe4c4',
+  black: '000000',
+  blanchedalmond: 'ffebcd',
+  blue: '0000ff',
+  blueviolet: '8a2be2',
+  brown: 'a52a2a',
+  burlywood: 'deb887',
+  cadetblue: '5f9ea0',
+  chartreuse: '7fff00',
+  chocolate: 'd2691e',
+  coral: 'ff7f50',
+  cornflowerblue: '6495ed',
+  cornsilk: 'fff8dc',
+  crimson: 'dc143c',
+  cyan: '00ffff',
+  darkblue: '00008b',
+  darkcyan: '008b8b',
+  darkgoldenrod: 'b8860b',
+  darkgray: 'a9a9a9',
+  darkgreen: '006400',
+  darkgrey: 'a9a9a9',
+  darkkhaki: 'bdb76b',
+  darkmagenta: '8b008b',
+  darkolivegreen: '556b2f',
+  darkorange: 'ff8c00',
+  darkorchid: '9932cc',
+  darkred: '8b0000',
+  darksalmon: 'e9967a',
+  darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b',
+  darkslategray: '2f4f4f',
+  darkslategrey: '2f4f4f',
+  darkturquoise: '00ced1',
+  darkviolet: '9400d3',
+  deeppink: 'ff1493',
+  deepskyblue: '00bfff',
+  dimgray: '696969',
+  dimgrey: '696969',
+  dodgerblue: '1e90ff',
+  firebrick: 'b22222',
+  floralwhite: 'fffaf0',
+  forestgreen: '228b22',
+  fuchsia: 'ff00ff',
+  gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff',
+  gold: 'ffd700',
+  goldenrod: 'daa520',
+  gray: '808080',
+  green: '008000',
+  greenyellow: 'adff2f',
+  grey: '808080',
+  honeydew: 'f0fff0',
+  hotpink: 'ff69b4',
+  indianred: 'cd5c5c',
+  indigo: '4b0082',
+  ivory: 'fffff0',
+  khaki: 'f0e68c',
+  lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00',
+  lemonchiffon: 'fffacd',
+  lightblue: 'add8e6',
+  lightcoral: 'f08080',
+  lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2',
+  lightgray: 'd3d3d3',
+  lightgreen: '90ee90',
+  lightgrey: 'd3d3d3',
+  lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa',
+  lightskyblue: '87cefa',
+  lightslategray: '778899',
+  lightslategrey: '778899',
+  lightsteelblue: 'b0c4de',
+  lightyellow: 'ffffe0',
+  lime: '00ff00',
+  limegreen: '32cd32',
+  linen: 'faf0e6',
+  magenta: 'ff00ff',
+  maroon: '800000',
+  mediumaquamarine: '66cdaa',
+  mediumblue: '0000cd',
+  mediumorchid: 'ba55d3',
+  mediumpurple: '9370db',
+  mediumseagreen: '3cb371',
+  mediumslateblue: '7b68ee',
+  mediumspringgreen: '00fa9a',
+  mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585',
+  midnightblue: '191970',
+  mintcream: 'f5fffa',
+  mistyrose: 'ffe4e1',
+  moccasin: 'ffe4b5',
+  navajowhite: 'ffdead',
+  navy: '000080',
+  oldlace: 'fdf5e6',
+  olive: '808000',
+  olivedrab: '6b8e23',
+  orange: 'ffa500',
+  orangered: 'ff4500',
+  orchid: 'da70d6',
+  palegoldenrod: 'eee8aa',
+  palegreen: '98fb98',
+  paleturquoise: 'afeeee',
+  palevioletred: 'db7093',
+  papayawhip: 'ffefd5',
+  peachpuff: 'ffdab9',
+  peru: 'cd853f',
+  pink: 'ffc0cb',
+  plum: 'dda0dd',
+  powderblue: 'b0e0e6',
+  purple: '800080',
+  rebeccapurple: '663399',
+  red: 'ff0000',
+  rosybrown: 'bc8f8f',
+  royalblue: '4169e1',
+  saddlebrown: '8b4513',
+  salmon: 'fa8072',
+  sandybrown: 'f4a460',
+  seagreen: '2e8b57',
+  seashell: 'fff5ee',
+  sienna: 'a0522d',
+  silver: 'c0c0c0',
+  skyblue: '87ceeb',
+  slateblue: '6a5acd',
+  slategray: '708090',
+  slategrey: '708090',
+  snow: 'fffafa',
+  springgreen: '00ff7f',
+  steelblue: '4682b4',
+  tan: 'd2b48c',
+  teal: '008080',
+  thistle: 'd8bfd8',
+  tomato: 'ff6347',
+  turquoise: '40e0d0',
+  violet: 'ee82ee',
+  wheat: 'f5deb3',
+  white: 'ffffff',
+  whitesmoke: 'f5f5f5',
+  yellow: 'ffff00',
+  yellowgreen: '9acd32',
+};
+
+// A number with an optional unit, e.g. "40", "-.5", "25%", "1.2turn"
+const NUMBER_TOKEN =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+const COLOR_FUNCTION = /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\(([^()]*)\)$/i;
+// Degrees per angle unit
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  rad: 180 / Math.PI,
+  grad: 0.9,
+  turn: 360,
+};
+// CIE Lab constants and the D50 white point used by lab() and lch()
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+const D50_WHITE = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+/**
+ * Parses a hex color with or without alpha ("#rgb", "#rgba", "#rrggbb",
+ * "#rrggbbaa"); 3- and 6-digit colors may omit the #
+ * @returns The color, or null if invalid
+ */
+function parseHexColor(color: string): RgbaColor | null {
+  const hasPrefix = color.startsWith('#');
+  const hex = hasPrefix ? color.slice(1) : color;
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+  if (!hasPrefix && hex.length !== 3 && hex.length !== 6) return null;
+
+  let digits: string[];
+  if (hex.length === 3 || hex.length === 4) {
+    digits = hex.split('').map((digit) => digit + digit);
+  } else if (hex.length === 6 || hex.length === 8) {
+    digits = hex.match(/../g) || [];
+  } else {
+    return null;
+  }
+
+  const [r, g, b, a = RGB_MAX] = digits.map((pair) =>
+    parseInt(pair, HEX_RADIX),
+  );
+  return { r, g, b, a: a / RGB_MAX };
+}
+
+/**
+ * Parses a numeric color function argument
+ * @param token - Argument, e.g. "40", "25%" or "none" (treated as 0)
+ * @param percentReference - Value that 100% stands for
+ * @returns The value, or null for invalid tokens and angles
+ */
+function parseChannel(token: string, percentReference: number): number | null {
+  if (token.toLowerCase() === 'none') return 0;
+  const match = token.match(NUMBER_TOKEN);
+  if (!match) return null;
+  if (!match[2]) return parseFloat(match[1]);
+  if (match[2] === '%') return (parseFloat(match[1]) / 100) * percentReference;
+  return null;
+}
+
+/**
+ * Parses a hue argument: a number of degrees or an angle
+ * @returns Hue in degrees, or null if invalid
+ */
+function parseHue(token: string): number | null {
+  if (token.toLowerCase() === 'none') return 0;
+  const match = token.match(NUMBER_TOKEN);
+  if (!match || match[2] === '%') return null;
+  return parseFloat(match[1]) * ANGLE_UNITS[(match[2] || 'deg').toLowerCase()];
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to sRGB 0-1
+ */
+function hslToSrgb(h: number, s: number, l: number): number[] {
+  const hue = (((h % 360) + 360) % 360) / 30;
+  const chroma = s * Math.min(l, 1 - l);
+  return [0, 8, 4].map((offset) => {
+    const k = (offset + hue) % 12;
+    return l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  });
+}
+
+/**
+ * Converts HWB (hue in degrees, whiteness and blackness 0-1) to sRGB 0-1
+ */
+function hwbToSrgb(h: number, w: number, b: number): number[] {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb(h, 1, 0.5).map((c) => c * (1 - w - b) + w);
+}
+
+/**
+ * Converts CIE Lab (D50, as in CSS lab()) to linear sRGB
+ */
+function labToLinearSrgb(l: number, a: number, b: number): number[] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const xyz = [
+    fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA,
+    l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : l / LAB_KAPPA,
+    fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA,
+  ].map((value, index) => value * D50_WHITE[index]);
+
+  // XYZ (D50) to linear sRGB, with Bradford adaptation to D65
+  const [x, y, z] = xyz;
+  return [
+    3.1341359569958707 * x - 1.6173863321612538 * y - 0.4906619460083532 * z,
+    -0.978795502912089 * x + 1.916254567259524 * y + 0.03344273116131949 * z,
+    0.07195537988411677 * x - 0.2289768264480598 * y + 1.405386058324125 * z,
+  ];
+}
+
+/**
+ * Converts Oklab to linear sRGB
+ */
+function oklabToLinearSrgb(l: number, a: number, b: number): number[] {
+  const lms = [
+    l + 0.3963377774 * a + 0.2158037573 * b,
+    l - 0.1055613458 * a - 0.0638541728 * b,
+    l - 0.0894841775 * a - 1.291485548 * b,
+  ].map((value) => value ** 3);
+
+  return [
+    4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2],
+    -1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2],
+    -0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.707614701 * lms[2],
+  ];
+}
+
+/**
+ * Applies the sRGB transfer function to a linear channel
+ */
+function linearToSrgb(c: number): number {
+  const sign = c < 0 ? -1 : 1;
+  const abs = Math.abs(c);
+  return abs <= 0.0031308
+    ? c * 12.92
+    : sign * (1.055 * abs ** (1 / 2.4) - 0.055);
+}
+
+/**
+ * Removes the sRGB transfer function from a channel (0-1)
+ */
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Converts polar (lightness, chroma, hue) coordinates to rectangular a and b
+ */
+function polarToRectangular(c: number, h: number): [number, number] {
+  const radians = (h * Math.PI) / 180;
+  return [c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+/**
+ * Parses a CSS color function in modern ("rgb(40 40 40 / 50%)") or legacy
+ * ("rgba(40, 40, 40, 0.5)") syntax
+ * @returns The color, or null if invalid
+ */
+function parseColorFunction(name: string, args: string): RgbaColor | null {
+  const isLegacy = args.includes(',');
+  let channelPart = args;
+  let alphaToken: string | undefined;
+
+  if (isLegacy) {
+    const tokens = args.split(',').map((token) => token.trim());
+    if (tokens.length === 4) alphaToken = tokens.pop();
+    channelPart = tokens.join(' ');
+  } else {
+    const parts = args.split('/');
+    if (parts.length > 2) return null;
+    channelPart = parts[0];
+    alphaToken = parts[1]?.trim();
+  }
+
+  const tokens = channelPart.trim().split(/\s+/);
+  if (tokens.length !== 3 || tokens.some((token) => !token)) return null;
+
+  const alpha = alphaToken === undefined ? 1 : parseChannel(alphaToken, 1);
+  if (alpha === null) return null;
+
+  // Channel values of each function; percentages are relative to the
+  // reference ranges of CSS Color 4
+  const [first, second, third] = tokens;
+  let srgb: number[] | null = null;
+  let linear: number[] | null = null;
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const channels = tokens.map((token) => parseChannel(token, RGB_MAX));
+      if (channels.every((channel) => channel !== null)) {
+        srgb = (channels as number[]).map((channel) => channel / RGB_MAX);
+      }
+      break;
+    }
+    case 'hsl':
+    case 'hsla':
+    case 'hwb': {
+      const hue = parseHue(first);
+      const x = parseChannel(second, 100);
+      const y = parseChannel(third, 100);
+      if (hue !== null && x !== null && y !== null) {
+        srgb =
+          name === 'hwb'
+            ? hwbToSrgb(hue, x / 100, y / 100)
+            : hslToSrgb(hue, Math.max(0, x) / 100, y / 100);
+      }
+      break;
+    }
+    case 'lab':
+    case 'oklab': {
+      const isOklab = name === 'oklab';
+      const l = parseChannel(first, isOklab ? 1 : 100);
+      const a = parseChannel(second, isOklab ? 0.4 : 125);
+      const b = parseChannel(third, isOklab ? 0.4 : 125);
+      if (l !== null && a !== null && b !== null) {
+        linear = isOklab
+          ? oklabToLinearSrgb(l, a, b)
+          : labToLinearSrgb(l, a, b);
+      }
+      break;
+    }
+    case 'lch':
+    case 'oklch': {
+      const isOklch = name === 'oklch';
+      const l = parseChannel(first, isOklch ? 1 : 100);
+      const c = parseChannel(second, isOklch ? 0.4 : 150);
+      const h = parseHue(third);
+      if (l !== null && c !== null && h !== null) {
+        const [a, b] = polarToRectangular(Math.max(0, c), h);
+        linear = isOklch
+          ? oklabToLinearSrgb(l, a, b)
+          : labToLinearSrgb(l, a, b);
+      }
+      break;
+    }
+  }
+
+  if (linear) srgb = linear.map(linearToSrgb);
+  if (!srgb) return null;
+
+  // Out-of-gamut colors are clipped to sRGB
+  const [r, g, b] = srgb.map((channel) =>
+    Math.max(RGB_MIN, Math.min(RGB_MAX, channel * RGB_MAX)),
+  );
+  return { r, g, b, a: Math.max(0, Math.min(1, alpha)) };
+}
+
+/**
+ * Parses any CSS Color 4 color into sRGB: hex (with or without alpha),
+ * rgb()/rgba(), hsl()/hsla(), hwb(), lab(), lch(), oklab(), oklch(), named
+ * colors and `transparent`. Colors outside the sRGB gamut are clipped.
+ *
+ * @param color - CSS color string
+ * @returns Channels from 0 to 255 and alpha from 0 to 1, or null if the color cannot be parsed (including `var()` references)
+ * @remarks This function does not throw errors. Invalid colors return null.
+ *
+ * @example
+ * ```ts
+ * parseColor('rgb(40 40 40 / 50%)'); // { r: 40, g: 40, b: 40, a: 0.5 }
+ * parseColor('oklch(62.8% 0.2577 29.23)'); // ~{ r: 255, g: 0, b: 0, a: 1 }
+ * ```
+ */
+export function parseColor(color: string): RgbaColor | null {
+  const value = color.trim().toLowerCase();
+
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  // Own keys only: 'constructor' or '__proto__' are not colors
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, value)) {
+    return parseHexColor(NAMED_COLORS[value]);
+  }
+
+  const match = value.match(COLOR_FUNCTION);
+  if (match) return parseColorFunction(match[1], match[2]);
+
+  return parseHexColor(value);
+}
+
+/**
+ * Formats a color as "#rrggbb", or as "rgba(r, g, b, a)" when it is
+ * translucent
+ * @param color - Channels from 0 to 255 and alpha from 0 to 1
+ * @returns CSS color string
+ * @remarks This function does not throw errors. Channels are rounded and clamped.
+ */
+export function formatColor({ r, g, b, a }: RgbaColor): string {
+  const [red, green, blue] = [r, g, b].map((channel) =>
+    Math.round(Math.max(RGB_MIN, Math.min(RGB_MAX, channel))),
+  );
+  if (a < 1) {
+    const alpha =
+      Math.round(Math.max(0, a) * 10 ** ALPHA_DECIMALS) / 10 ** ALPHA_DECIMALS;
+    return `rgba(${red}, ${green}, ${blue}, ${alpha})`;
+  }
+  return `#${[red, green, blue]
+    .map((channel) => `0${channel.toString(HEX_RADIX)}`.slice(-2))
+    .join('')}`;
+}
+
+/**
+ * Type of color vision deficiency (dichromacy) to simulate
+ */
+export type ColorVisionDeficiency =
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia';
+
+// Machado, Oliveira & Fernandes (2009) matrices at full severity, applied to
+// linear sRGB
+const COLOR_VISION_MATRICES: Record<ColorVisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+/**
+ * Simulates how a color appears with a color vision deficiency
+ * @param color - Channels from 0 to 255 and alpha from 0 to 1
+ * @param deficiency - 'protanopia' (no red cones), 'deuteranopia' (no green cones) or 'tritanopia' (no blue cones)
+ * @returns The simulated color, with the same alpha
+ * @remarks This function does not throw errors. Channels are clamped to 0-255.
+ *
+ * @example
+ * ```ts
+ * simulateColorVision({ r: 255, g: 0, b: 0, a: 1 }, 'protanopia');
+ * // a dark olive: red loses most of its brightness without red cones
+ * ```
+ */
+export function simulateColorVision(
+  color: RgbaColor,
+  deficiency: ColorVisionDeficiency,
+): RgbaColor {
+  const linear = [color.r, color.g, color.b].map((channel) =>
+    srgbToLinear(channel / RGB_MAX),
+  );
+  const [r, g, b] = COLOR_VISION_MATRICES[deficiency].map((row) => {
+    const value = row.reduce(
+      (sum, weight, index) => sum + weight * linear[index],
+      0,
+    );
+    return Math.max(RGB_MIN, Math.min(RGB_MAX, linearToSrgb(value) * RGB_MAX));
+  });
+  return { r, g, b, a: color.a };
+}
+
+/**
+ * Whether a color can only be resolved by the browser, such as a `var()`
+ * reference or `currentColor`
+ * @param color - CSS color string
+ * @returns true if derived shades must be computed with CSS color-mix()
+ */
+export function isDeferredColor(color: string): boolean {
+  const value = color.trim().toLowerCase();
+  return value.includes('var(') || value === 'currentcolor';
+}
+
+/**
+ * Adjusts a color by a given percentage
+ * @param color - CSS color string (e.g., "#2a2a2a", "rgb(42 42 42)" or "var(--disk)")
+ * @param percent - Percentage to adjust (0-100)
+ * @param operation - Whether to lighten or darken
+ * @returns Adjusted color string: hex for opaque colors, rgba() for translucent ones, CSS color-mix() for deferred colors
+ * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
+ */
+function adjustColor(
+  color: string,
+  percent: number,
+  operation: 'lighten' | 'darken',
+): string {
+  // The browser resolves var() and currentColor, so let CSS mix the shade
+  if (isDeferredColor(color)) {
+    const mixWith = operation === 'lighten' ? 'white' : 'black';
+    return `color-mix(in srgb, ${color.trim()}, ${mixWith} ${percent}%)`;
+  }
+
+  const rgba = parseColor(color);
+
+  if (!rgba) {
+    console.warn(
+      `FloppyDisk: Invalid color format: '${color}'. Expected a CSS color (e.g., '#2a2a2a', 'rgb(42 42 42)', 'oklch(30% 0 0)' or 'var(--disk-color)'). Using original color.`,
+    );
+    return color;
+  }
+
+  const amt = Math.round(PERCENT_TO_RGB_MULTIPLIER * percent);
+  const adjust = (channel: number) =>
+    operation === 'lighten'
+      ? Math.min(RGB_MAX, channel + amt)
+      : Math.max(RGB_MIN, channel - amt);
+
+  return formatColor({
+    r: adjust(rgba.r),
+    g: adjust(rgba.g),
+    b: adjust(rgba.b),
+    a: rgba.a,
+  });
+}
+
+/**
+ * Lightens a color by a given percentage
+ * @param color - CSS color string (e.g., "#2a2a2a", "rgb(42 42 42)" or "var(--disk)")
+ * @param percent - Percentage to lighten (0-100)
+ * @returns Lightened color string (color-mix() with white for `var()` colors)
+ * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
+ */
+export function lightenColor(color: string, percent: number): string {
+  return adjustColor(color, percent, 'lighten');
+}
+
+/**
+ * Darkens a color by a given percentage
+ * @param color - CSS color string (e.g., "#2a2a2a", "rgb(42 42 42)" or "var(--disk)")
+ * @param percent - Percentage to darken (0-100)
+ * @returns Darkened color string (color-mix() with black for `var()` colors)
+ * @remarks This function does not throw errors. Invalid colors trigger a console warning and return the original color unchanged.
+ */
+export function darkenColor(color: string, percent: number): string {
+  return adjustColor(color, percent, 'darken');
+}
@@ -0,0 +1,199 @@
+/**
+ * Drag-and-drop session shared by draggable disks and FloppyDropZone
+ *
+ * HTML5 drags carry the payload in the DataTransfer. Pointer (touch/pen) and
+ * keyboard drags have no DataTransfer, so the active payload and the
+ * registered drop zones live here instead.
+ */
+import { FloppyLabel } from './types';
+
+/**
+ * MIME type of the JSON payload in HTML5 drag-and-drop DataTransfer
+ */
+export const FLOPPY_DRAG_MIME = 'application/x-retro-floppy';
+
+/**
+ * Data carried by a dragged disk
+ */
+export interface FloppyDragPayload<TData = unknown> {
+  /** The disk's `data-disk-id` */
+  diskId?: string;
+  /** The disk's label */
+  label?: FloppyLabel;
+  /** Custom data from the `dragData` prop */
+  data?: TData;
+}
+
+/**
+ * How the current drag was started
+ */
+export type FloppyDragMode = 'html5' | 'pointer' | 'keyboard';
+
+/**
+ * A drop zone registered for pointer and keyboard drags
+ * @internal
+ */
+export interface DropZoneRegistration {
+  element: HTMLElement;
+  setHovered: (hovered: boolean) => void;
+  /** Returns true when the payload was accepted */
+  drop: (payload: FloppyDragPayload) => boolean;
+}
+
+/**
+ * The drag in progress
+ * @internal
+ */
+export interface DragSession {
+  payload: FloppyDragPayload;
+  mode: FloppyDragMode;
+  /** Called once when the drag ends */
+  onEnd: (dropped: boolean) => void;
+}
+
+let activeSession: DragSession | null = null;
+let hoveredZone: DropZoneRegistration | null = null;
+const sessionListeners = new Set<() => void>();
+const dropZones = new Set<DropZoneRegistration>();
+
+const notifySessionListeners = () => {
+  sessionListeners.forEach((listener) => listener());
+};
+
+// Escape cancels a keyboard pick-up wherever focus is
+const handleDocumentKeyDown = (event: { key: string }) => {
+  if (event.key === 'Escape' && activeSession?.mode === 'keyboard') {
+    endDragSession(false);
+  }
+};
+
+/**
+ * @returns The drag in progress, or null
+ * @internal
+ */
+export function getDragSession(): DragSession | null {
+  return activeSession;
+}
+
+/**
+ * Starts a drag, cancelling any drag already in progress.
+ * @internal
+ */
+export function beginDragSession(session: DragSession): void {
+  if (activeSession) endDragSession(false);
+
+  activeSession = session;
+  if (session.mode === 'keyboard') {
+    document.addEventListener('keydown', handleDocumentKeyDown);
+  }
+  notifySessionListeners();
+}
+
+/**
+ * Ends the drag in progress and notifies its source.
+ * @param dropped - Whether the payload was dropped on a zone
+ * @internal
+ */
+export function endDragSession(dropped: boolean): void {
+  const session = activeSession;
+  if (!session) return;
+
+  activeSession = null;
+  setHoveredZone(null);
+  document.removeEventListener('keydown', handleDocumentKeyDown);
+  session.onEnd(dropped);
+  notifySessionListeners();
+}
+
+/**
+ * Subscribes to drag start/end.
+ * @returns Unsubscribe function
+ * @internal
+ */
+export function subscribeDragSession(listener: () => void): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+/**
+ * Registers a drop zone for pointer and keyboard drags.
+ * @returns Unregister function
+ * @internal
+ */
+export function registerDropZone(zone: DropZoneRegistration): () => void {
+  dropZones.add(zone);
+  return () => {
+    if (hoveredZone === zone) hoveredZone = null;
+    dropZones.delete(zone);
+  };
+}
+
+/**
+ * Finds the innermost registered drop zone under a viewport point.
+ * @internal
+ */
+export function findDropZoneAt(
+  x: number,
+  y: number,
+): DropZoneRegistration | null {
+  // elementFromPoint is missing in some non-browser environments
+  const target = document.elementFromPoint?.(x, y);
+  if (!target) return null;
+
+  let match: DropZoneRegistration | null = null;
+  dropZones.forEach((zone) => {
+    if (
+      zone.element.contains(target) &&
+      (!match || match.element.contains(zone.element))
+    ) {
+      match = zone;
+    }
+  });
+  return match;
+}
+
+/**
+ * Moves the hover highlight to another zone (or none).
+ * @internal
+ */
+export function setHoveredZone(zone: DropZoneRegistration | null): void {
+  if (zone === hoveredZone) return;
+  if (hoveredZone) hoveredZone.setHovered(false);
+  hoveredZone = zone;
+  if (zone) zone.setHovered(true);
+}
+
+/**
+ * Drops the active payload on a zone and ends the drag.
+ * @internal
+ */
+export function dropOnZone(zone: DropZoneRegistration | null): void {
+  if (!activeSession) return;
+  const dropped = zone ? zone.drop(activeSession.payload) : false;
+  endDragSession(dropped);
+}
+
+/**
+ * Reads a disk payload from an HTML5 DataTransfer.
+ *
+ * @param dataTransfer - DataTransfer of a drop event
+ * @returns The payload, or null when the drag did not come from a disk
+ * @remarks This function does not throw errors. Malformed payloads trigger a console warning and return null.
+ */
+export function readDragPayload(
+  dataTransfer: { getData: (format: string) => string } | null,
+): FloppyDragPayload | null {
+  const json = dataTransfer?.getData(FLOPPY_DRAG_MIME);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json) as FloppyDragPayload;
+  } catch {
+    console.warn(
+      `FloppyDropZone: Ignoring malformed ${FLOPPY_DRAG_MIME} payload.`,
+    );
+    return null;
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Media form-factor registry
+ *
+ * Geometry definitions for the physical media a disk component can render.
+ * All coordinates are unit fractions (0-1) of the rendered width and height,
+ * so a definition scales to any size.
+ */
+
+/**
+ * A rectangle in unit coordinates (fractions of the media width/height)
+ */
+export interface FormFactorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Paint used for a decal, resolved from the current theme
+ * - 'shadow' / 'highlight': darker / lighter shade of the disk color
+ * - 'slide': metal slide color
+ * - 'media': exposed magnetic media
+ * - 'background': page background (holes through the media)
+ * - 'label': label paper color
+ */
+export type FormFactorPaint =
+  | 'shadow'
+  | 'highlight'
+  | 'slide'
+  | 'media'
+  | 'background'
+  | 'label';
+
+/**
+ * A decorative shape drawn on top of the media body (holes, arrows, windows)
+ */
+export interface FormFactorDecal {
+  /** SVG path data in unit coordinates */
+  path: string;
+  /** Fill paint @default 'shadow' */
+  fill?: FormFactorPaint;
+}
+
+/**
+ * Geometry definition of a media form factor
+ */
+export interface FormFactorDefinition {
+  /** Unique identifier used by the `formFactor` prop (e.g., '3.5', 'zip') */
+  id: string;
+  /** Human-readable name (used in the default accessible label) */
+  name: string;
+  /** Width divided by height */
+  aspectRatio: number;
+  /** Body outline as SVG path data in unit coordinates */
+  outline: string;
+  /** Label paper area in unit coordinates */
+  labelBounds: FormFactorRect;
+  /** Metal slide / shutter area in unit coordinates */
+  shutter?: FormFactorRect;
+  /** Decals drawn over the body (holes, windows, arrows) */
+  decals?: FormFactorDecal[];
+}
+
+/**
+ * Built-in form factor identifiers
+ */
+export type BuiltInFormFactor = '3.5' | '5.25' | '8' | 'zip' | 'cassette';
+
+/**
+ * The form factor rendered when none (or an unknown one) is requested
+ */
+export const DEFAULT_FORM_FACTOR: BuiltInFormFactor = '3.5';
+
+/**
+ * 3.5" micro floppy. FloppyDisk renders this form factor with its native
+ * markup; the definition mirrors FloppyDisk.module.css for other consumers.
+ */
+const FORM_FACTOR_35: FormFactorDefinition = {
+  id: '3.5',
+  name: '3.5-inch floppy disk',
+  aspectRatio: 1,
+  outline:
+    'M 0.03 0 H 0.889 L 1 0.111 V 0.97 A 0.03 0.03 0 0 1 0.97 1 H 0.03 A 0.03 0.03 0 0 1 0 0.97 V 0.03 A 0.03 0.03 0 0 1 0.03 0 Z',
+  labelBounds: { x: 0.108, y: 0.48, width: 0.784, height: 0.49 },
+  shutter: { x: 0.2645, y: 0, width: 0.525, height: 0.336 },
+  decals: [
+    { path: 'M 0.03 0.91 h 0.0333 v 0.0333 h -0.0333 Z', fill: 'background' },
+    { path: 'M 0.9367 0.91 h 0.0333 v 0.0333 h -0.0333 Z', fill: 'background' },
+  ],
+};
+
+const FORM_FACTOR_525: FormFactorDefinition = {
+  id: '5.25',
+  name: '5.25-inch floppy disk',
+  aspectRatio: 1,
+  outline:
+    'M 0.015 0 H 0.985 A 0.015 0.015 0 0 1 1 0.015 V 0.14 H 0.96 V 0.21 H 1 V 0.985 A 0.015 0.015 0 0 1 0.985 1 H 0.015 A 0.015 0.015 0 0 1 0 0.985 V 0.015 A 0.015 0.015 0 0 1 0.015 0 Z',
+  labelBounds: { x: 0.08, y: 0.04, width: 0.7, height: 0.18 },
+  decals: [
+    {
+      path: 'M 0.35 0.5 A 0.15 0.15 0 1 0 0.65 0.5 A 0.15 0.15 0 1 0 0.35 0.5 Z',
+      fill: 'media',
+    },
+    {
+      path: 'M 0.407 0.5 A 0.093 0.093 0 1 0 0.593 0.5 A 0.093 0.093 0 1 0 0.407 0.5 Z',
+      fill: 'background',
+    },
+    {
+      path: 'M 0.7 0.48 A 0.02 0.02 0 1 0 0.74 0.48 A 0.02 0.02 0 1 0 0.7 0.48 Z',
+      fill: 'media',
+    },
+    {
+      path: 'M 0.455 0.745 A 0.045 0.045 0 0 1 0.545 0.745 V 0.915 A 0.045 0.045 0 0 1 0.455 0.915 Z',
+      fill: 'media',
+    },
+  ],
+};
+
+const FORM_FACTOR_8: FormFactorDefinition = {
+  id: '8',
+  name: '8-inch floppy disk',
+  aspectRatio: 1,
+  outline:
+    'M 0.01 0 H 0.99 A 0.01 0.01 0 0 1 1 0.01 V 0.99 A 0.01 0.01 0 0 1 0.99 1 H 0.01 A 0.01 0.01 0 0 1 0 0.99 V 0.01 A 0.01 0.01 0 0 1 0.01 0 Z',
+  labelBounds: { x: 0.06, y: 0.05, width: 0.55, height: 0.16 },
+  decals: [
+    {
+      path: 'M 0.32 0.5 A 0.18 0.18 0 1 0 0.68 0.5 A 0.18 0.18 0 1 0 0.32 0.5 Z',
+      fill: 'media',
+    },
+    {
+      path: 'M 0.39 0.5 A 0.11 0.11 0 1 0 0.61 0.5 A 0.11 0.11 0 1 0 0.39 0.5 Z',
+      fill: 'background',
+    },
+    {
+      path: 'M 0.3 0.36 A 0.015 0.015 0 1 0 0.33 0.36 A 0.015 0.015 0 1 0 0.3 0.36 Z',
+      fill: 'media',
+    },
+    {
+      path: 'M 0.465 0.76 A 0.035 0.035 0 0 1 0.535 0.76 V 0.94 A 0.035 0.035 0 0 1 0.465 0.94 Z',
+      fill: 'media',
+    },
+    { path: 'M 0 0.8 h 0.03 v 0.05 h -0.03 Z', fill: 'background' },
+  ],
+};
+
+const FORM_FACTOR_ZIP: FormFactorDefinition = {
+  id: 'zip',
+  name: 'Zip disk',
+  aspectRatio: 0.96,
+  outline:
+    'M 0.06 0 H 0.94 A 0.06 0.06 0 0 1 1 0.06 V 0.9 L 0.92 1 H 0.08 L 0 0.9 V 0.06 A 0.06 0.06 0 0 1 0.06 0 Z',
+  labelBounds: { x: 0.12, y: 0.08, width: 0.76, height: 0.44 },
+  shutter: { x: 0.3, y: 0.8, width: 0.4, height: 0.2 },
+  decals: [
+    { path: 'M 0.06 0.62 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+    { path: 'M 0.06 0.67 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+    { path: 'M 0.06 0.72 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+    { path: 'M 0.82 0.62 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+    { path: 'M 0.82 0.67 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+    { path: 'M 0.82 0.72 h 0.12 v 0.02 h -0.12 Z', fill: 'highlight' },
+  ],
+};
+
+const FORM_FACTOR_CASSETTE: FormFactorDefinition = {
+  id: 'cassette',
+  name: 'Compact cassette',
+  aspectRatio: 1.59,
+  outline:
+    'M 0.03 0 H 0.97 A 0.03 0.045 0 0 1 1 0.045 V 0.955 A 0.03 0.045 0 0 1 0.97 1 H 0.03 A 0.03 0.045 0 0 1 0 0.955 V 0.045 A 0.03 0.045 0 0 1 0.03 0 Z',
+  labelBounds: { x: 0.07, y: 0.07, width: 0.86, height: 0.26 },
+  decals: [
+    { path: 'M 0.2 0.76 L 0.24 1 H 0.76 L 0.8 0.76 Z', fill: 'highlight' },
+    { path: 'M 0.27 0.38 H 0.73 V 0.62 H 0.27 Z', fill: 'media' },
+    {
+      path: 'M 0.285 0.5 A 0.055 0.087 0 1 0 0.395 0.5 A 0.055 0.087 0 1 0 0.285 0.5 Z',
+      fill: 'background',
+    },
+    {
+      path: 'M 0.605 0.5 A 0.055 0.087 0 1 0 0.715 0.5 A 0.055 0.087 0 1 0 0.605 0.5 Z',
+      fill: 'background',
+    },
+    {
+      path: 'M 0.31 0.91 A 0.015 0.024 0 1 0 0.34 0.91 A 0.015 0.024 0 1 0 0.31 0.91 Z',
+      fill: 'background',
+    },
+    {
+      path: 'M 0.66 0.91 A 0.015 0.024 0 1 0 0.69 0.91 A 0.015 0.024 0 1 0 0.66 0.91 Z',
+      fill: 'background',
+    },
+  ],
+};
+
+const registry = new Map<string, FormFactorDefinition>(
+  [
+    FORM_FACTOR_35,
+    FORM_FACTOR_525,
+    FORM_FACTOR_8,
+    FORM_FACTOR_ZIP,
+    FORM_FACTOR_CASSETTE,
+  ].map((definition) => [definition.id, definition]),
+);
+
+/**
+ * Checks that a rectangle lies within the unit box
+ */
+export function isUnitRect(rect: FormFactorRect): boolean {
+  return (
+    rect.x >= 0 &&
+    rect.y >= 0 &&
+    rect.width > 0 &&
+    rect.height > 0 &&
+    rect.x + rect.width <= 1 &&
+    rect.y + rect.height <= 1
+  );
+}
+
+/**
+ * Registers a custom form factor (or replaces an existing one) so it can be
+ * used through the `formFactor` prop.
+ *
+ * @param definition - Geometry definition in unit coordinates
+ * @returns true if the definition was registered
+ * @remarks This function does not throw errors. Invalid definitions trigger a console warning and are ignored.
+ *
+ * @example
+ * ```ts
+ * registerFormFactor({
+ *   id: 'minidisc',
+ *   name: 'MiniDisc',
+ *   aspectRatio: 68 / 72,
+ *   outline: 'M 0 0 H 1 V 1 H 0 Z',
+ *   labelBounds: { x: 0.1, y: 0.55, width: 0.8, height: 0.35 },
+ * });
+ * ```
+ */
+export function registerFormFactor(definition: FormFactorDefinition): boolean {
+  if (
+    !definition.id ||
+    !definition.outline ||
+    !(definition.aspectRatio > 0) ||
+    !isUnitRect(definition.labelBounds) ||
+    (definition.shutter && !isUnitRect(definition.shutter))
+  ) {
+    console.warn(
+      `FloppyDisk: Invalid form factor definition '${definition.id}'. Expected an id, an outline, a positive aspectRatio and labelBounds/shutter within the unit box (0-1). Ignoring.`,
+    );
+    return false;
+  }
+
+  if (definition.id === DEFAULT_FORM_FACTOR) {
+    console.warn(
+      `FloppyDisk: The '${DEFAULT_FORM_FACTOR}' form factor is built in and cannot be replaced. Ignoring.`,
+    );
+    return false;
+  }
+
+  registry.set(definition.id, definition);
+  return true;
+}
+
+/**
+ * Looks up a registered form factor
+ * @param id - Form factor identifier
+ * @returns The definition, or undefined if none is registered under that id
+ */
+export function getFormFactor(id: string): FormFactorDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Lists all registered form factors, built-in ones first
+ * @returns Registered definitions in registration order
+ */
+export function getFormFactors(): FormFactorDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Resolves a form factor id to its definition, falling back to the 3.5" disk
+ * @param id - Form factor identifier
+ * @returns The requested definition, or the default 3.5" definition
+ * @remarks This function does not throw errors. Unknown ids trigger a console warning.
+ */
+export function resolveFormFactor(
+  id: string = DEFAULT_FORM_FACTOR,
+): FormFactorDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    console.warn(
+      `FloppyDisk: Unknown form factor '${id}'. Falling back to '${DEFAULT_FORM_FACTOR}'. Register custom form factors with registerFormFactor().`,
+    );
+    return FORM_FACTOR_35;
+  }
+  return definition;
+}
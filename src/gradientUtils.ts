@@ -2,6 +2,14 @@
  * Utility functions for gradient generation and color contrast calculations
  */
 
+import {
+  ColorVisionDeficiency,
+  RgbaColor,
+  formatColor,
+  parseColor,
+  simulateColorVision,
+} from './colorUtils';
+
 /**
  * Simple seeded pseudo-random number generator (Mulberry32)
  * Returns a function that generates deterministic random numbers between 0 and 1
@@ -9,7 +17,7 @@
  * @returns Function that generates random numbers between 0 and 1
  * @remarks This function does not throw errors. Always returns a valid random number generator.
  */
-function createSeededRandom(seed: number): () => number {
+export function createSeededRandom(seed: number): () => number {
   let state = seed;
   return () => {
     state = (state + 0x6d2b79f5) | 0;
@@ -25,7 +33,7 @@ function createSeededRandom(seed: number): () => number {
  * @returns Numeric seed value (always positive)
  * @remarks This function does not throw errors. Empty strings return a default seed of 12345.
  */
-function stringToSeed(str: string): number {
+export function stringToSeed(str: string): number {
   if (!str) return 12345; // Default seed for empty strings
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
@@ -108,48 +116,6 @@ function generateColorPalette(seed: number): string[] {
   return colors;
 }
 
-/**
- * Convert HSL color to RGB values
- * @param hsl - HSL color string (e.g., "hsl(200, 50%, 70%)")
- * @returns RGB values as an object
- * @remarks This function does not throw errors. Invalid HSL strings return white (255, 255, 255).
- */
-function hslToRgb(hsl: string): { r: number; g: number; b: number } {
-  const match = hsl.match(/hsl\((\d+),\s*(\d+)%,\s*(\d+)%\)/);
-  if (!match) return { r: 255, g: 255, b: 255 };
-
-  const h = parseInt(match[1]) / 360;
-  const s = parseInt(match[2]) / 100;
-  const l = parseInt(match[3]) / 100;
-
-  let r, g, b;
-
-  if (s === 0) {
-    r = g = b = l;
-  } else {
-    const hue2rgb = (p: number, q: number, t: number) => {
-      if (t < 0) t += 1;
-      if (t > 1) t -= 1;
-      if (t < 1 / 6) return p + (q - p) * 6 * t;
-      if (t < 1 / 2) return q;
-      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-      return p;
-    };
-
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-    const p = 2 * l - q;
-    r = hue2rgb(p, q, h + 1 / 3);
-    g = hue2rgb(p, q, h);
-    b = hue2rgb(p, q, h - 1 / 3);
-  }
-
-  return {
-    r: Math.round(r * 255),
-    g: Math.round(g * 255),
-    b: Math.round(b * 255),
-  };
-}
-
 /**
  * Calculate relative luminance according to WCAG formula
  * https://www.w3.org/TR/WCAG20/#relativeluminancedef
@@ -159,7 +125,7 @@ function hslToRgb(hsl: string): { r: number; g: number; b: number } {
  * @returns Relative luminance value (0-1)
  * @remarks This function does not throw errors. Always returns a valid luminance value.
  */
-function calculateLuminance(r: number, g: number, b: number): number {
+export function calculateLuminance(r: number, g: number, b: number): number {
   const [rs, gs, bs] = [r, g, b].map((c) => {
     const val = c / 255;
     return val <= 0.03928 ? val / 12.92 : Math.pow((val + 0.055) / 1.055, 2.4);
@@ -175,55 +141,224 @@ function calculateLuminance(r: number, g: number, b: number): number {
  * @returns Contrast ratio (1-21)
  * @remarks This function does not throw errors. Always returns a valid contrast ratio.
  */
-function calculateContrastRatio(lum1: number, lum2: number): number {
+export function calculateContrastRatio(lum1: number, lum2: number): number {
   const lighter = Math.max(lum1, lum2);
   const darker = Math.min(lum1, lum2);
   return (lighter + 0.05) / (darker + 0.05);
 }
 
 /**
- * Calculate average luminance of a gradient
- * Samples multiple points along the gradient
- * @param colors - Array of HSL color strings
- * @returns Average luminance value (0-1)
- * @remarks This function does not throw errors. Always returns a valid luminance value.
+ * WCAG conformance level for text contrast
+ * - 'AA': 4.5:1 (3:1 for large text)
+ * - 'AAA': 7:1 (4.5:1 for large text)
  */
-function calculateGradientLuminance(colors: string[]): number {
-  let totalLuminance = 0;
+export type WcagLevel = 'AA' | 'AAA';
 
-  for (const color of colors) {
-    const rgb = hslToRgb(color);
-    totalLuminance += calculateLuminance(rgb.r, rgb.g, rgb.b);
-  }
+/**
+ * Options for getAdaptiveTextColor
+ */
+export interface AdaptiveTextColorOptions {
+  /**
+   * WCAG level the text must meet against every point of the gradient. When
+   * set, the text is tinted with the gradient's own color as far as the level
+   * allows instead of being plain black or white.
+   */
+  level?: WcagLevel;
+  /** Use the large text thresholds (18pt, or 14pt bold) @default false */
+  largeText?: boolean;
+}
+
+/**
+ * Minimum contrast ratios per WCAG level: [normal text, large text]
+ */
+export const WCAG_CONTRAST: Record<WcagLevel, [number, number]> = {
+  AA: [4.5, 3],
+  AAA: [7, 4.5],
+};
+// Interpolated samples between two gradient stops
+const GRADIENT_SAMPLES_PER_SEGMENT = 8;
+// Binary search steps when tinting text towards black or white
+const TINT_SEARCH_STEPS = 12;
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
 
-  return totalLuminance / colors.length;
+/**
+ * Mixes two colors in sRGB
+ * @param amount - Share of `to`, from 0 to 1
+ */
+function mixColors(from: RgbaColor, to: RgbaColor, amount: number): RgbaColor {
+  return {
+    r: from.r + (to.r - from.r) * amount,
+    g: from.g + (to.g - from.g) * amount,
+    b: from.b + (to.b - from.b) * amount,
+    a: from.a + (to.a - from.a) * amount,
+  };
 }
 
 /**
- * Determine the best text color (black or white) for a gradient background
- * Returns the color with better contrast ratio (WCAG AA standard: 4.5:1 for normal text)
- * @param colors - Array of HSL color strings representing the gradient
- * @returns Hex color string ('#ffffff' or '#000000')
- * @remarks This function does not throw errors. Always returns either white or black for optimal contrast.
+ * Relative luminance of a color, composited over white label paper when
+ * translucent
+ * @param colorVision - Optional deficiency to simulate before measuring
  */
-export function getAdaptiveTextColor(colors: string[]): string {
-  const gradientLuminance = calculateGradientLuminance(colors);
+export function getColorLuminance(
+  color: RgbaColor,
+  colorVision?: ColorVisionDeficiency,
+): number {
+  const opaque = mixColors(WHITE, { ...color, a: 1 }, color.a);
+  const { r, g, b } = colorVision
+    ? simulateColorVision(opaque, colorVision)
+    : opaque;
+  return calculateLuminance(r, g, b);
+}
 
-  // Luminance of white and black
-  const whiteLuminance = 1;
-  const blackLuminance = 0;
+/**
+ * Samples the luminance along a gradient: every stop plus evenly spaced
+ * points between neighbouring stops, interpolated in sRGB like CSS gradients
+ * @param colors - Gradient stops in any CSS color syntax
+ * @returns Sampled luminances; empty if no stop could be parsed
+ * @remarks This function does not throw errors. Unparseable stops (e.g. `var()` colors) trigger a console warning and are skipped.
+ */
+function sampleGradientLuminance(colors: string[]): number[] {
+  const stops: RgbaColor[] = [];
+  colors.forEach((color) => {
+    const parsed = parseColor(color);
+    if (parsed) {
+      stops.push(parsed);
+    } else {
+      console.warn(
+        `FloppyDisk: Cannot compute the contrast of gradient color '${color}'. Expected a CSS color without var(). Ignoring it for the text color.`,
+      );
+    }
+  });
 
-  const contrastWithWhite = calculateContrastRatio(
-    gradientLuminance,
-    whiteLuminance,
-  );
-  const contrastWithBlack = calculateContrastRatio(
-    gradientLuminance,
-    blackLuminance,
+  return sampleGradientColors(stops).map((color) => getColorLuminance(color));
+}
+
+/**
+ * Samples the colors along a gradient at the points sampleGradientLuminance
+ * uses
+ * @param stops - Parsed gradient stops
+ * @returns Sampled colors, starting with the first stop
+ */
+export function sampleGradientColors(stops: RgbaColor[]): RgbaColor[] {
+  const samples = stops.slice(0, 1);
+  for (let i = 1; i < stops.length; i++) {
+    for (let step = 1; step <= GRADIENT_SAMPLES_PER_SEGMENT; step++) {
+      samples.push(
+        mixColors(stops[i - 1], stops[i], step / GRADIENT_SAMPLES_PER_SEGMENT),
+      );
+    }
+  }
+  return samples;
+}
+
+/**
+ * Worst-case contrast of a text color against sampled luminances
+ * @param colorVision - Optional deficiency to simulate for the text color;
+ * the samples must have been measured with the same one
+ */
+export function getWorstContrast(
+  textColor: RgbaColor,
+  samples: number[],
+  colorVision?: ColorVisionDeficiency,
+): number {
+  const textLuminance = getColorLuminance(textColor, colorVision);
+  return Math.min(
+    ...samples.map((luminance) =>
+      calculateContrastRatio(textLuminance, luminance),
+    ),
   );
+}
+
+/**
+ * Calculates the lowest contrast ratio between a text color and any point of
+ * a gradient, so text stays readable wherever it crosses the label
+ * @param colors - Gradient stops in any CSS color syntax
+ * @param textColor - Text color in any CSS color syntax
+ * @returns Worst-case contrast ratio (1-21), or 1 if the colors cannot be parsed
+ * @remarks This function does not throw errors. Unparseable gradient stops trigger a console warning and are skipped.
+ */
+export function getGradientContrast(
+  colors: string[],
+  textColor: string,
+): number {
+  const text = parseColor(textColor);
+  const samples = sampleGradientLuminance(colors);
+  if (!text || samples.length === 0) return 1;
+  return getWorstContrast(text, samples);
+}
 
-  // Return the color with better contrast
-  return contrastWithWhite > contrastWithBlack ? '#ffffff' : '#000000';
+/**
+ * Chooses the text color for a gradient (see getAdaptiveTextColor)
+ * @returns The color, and whether it is the light (white-side) choice
+ */
+function chooseTextColor(
+  colors: string[],
+  options: AdaptiveTextColorOptions,
+): { color: RgbaColor; isLight: boolean } {
+  const samples = sampleGradientLuminance(colors);
+  if (samples.length === 0) return { color: BLACK, isLight: false };
+
+  const contrastWithWhite = getWorstContrast(WHITE, samples);
+  const contrastWithBlack = getWorstContrast(BLACK, samples);
+  const isLight = contrastWithWhite > contrastWithBlack;
+  const extreme = isLight ? WHITE : BLACK;
+  if (!options.level) return { color: extreme, isLight };
+
+  const target = WCAG_CONTRAST[options.level][options.largeText ? 1 : 0];
+  if (getWorstContrast(extreme, samples) < target) {
+    return { color: extreme, isLight };
+  }
+  // Tint: start from the average stop color and move towards black (or
+  // white) only as far as needed to reach the target everywhere
+  const stops = colors
+    .map((color) => parseColor(color))
+    .filter((color): color is RgbaColor => color !== null)
+    .map((color) => mixColors(WHITE, { ...color, a: 1 }, color.a));
+  const mean = (channel: 'r' | 'g' | 'b') =>
+    stops.reduce((sum, stop) => sum + stop[channel], 0) / stops.length;
+  const average = { r: mean('r'), g: mean('g'), b: mean('b'), a: 1 };
+
+  // Candidates are rounded to whole channels, as they will be rendered
+  const tint = (amount: number) =>
+    parseColor(formatColor(mixColors(average, extreme, amount))) || extreme;
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < TINT_SEARCH_STEPS; step++) {
+    const mid = (low + high) / 2;
+    if (getWorstContrast(tint(mid), samples) >= target) high = mid;
+    else low = mid;
+  }
+  return { color: tint(high), isLight };
+}
+
+/**
+ * Determine the best text color for a gradient background
+ *
+ * Samples the gradient between its stops and compares the worst-case
+ * contrast, so one dark stop in a light gradient is not averaged away.
+ * Without a `level`, returns black or white, whichever contrasts more. With
+ * a `level`, returns the gradient's average color darkened (or lightened)
+ * just enough to meet that WCAG level at every point, falling back to black
+ * or white when no tint can.
+ *
+ * @param colors - Array of CSS color strings representing the gradient (hex, rgb, hsl, oklch, ...)
+ * @param options - Optional WCAG level and text size
+ * @returns Hex color string
+ * @remarks This function does not throw errors. Unparseable stops trigger a console warning and are skipped; with no usable stops the result is black.
+ *
+ * @example
+ * ```ts
+ * getAdaptiveTextColor(['#111', '#222']); // '#ffffff'
+ * getAdaptiveTextColor(['hsl(200, 40%, 80%)', 'hsl(220, 40%, 75%)'], { level: 'AA' });
+ * // a dark blue meeting 4.5:1 against both stops
+ * ```
+ */
+export function getAdaptiveTextColor(
+  colors: string[],
+  options: AdaptiveTextColorOptions = {},
+): string {
+  return formatColor(chooseTextColor(colors, options).color);
 }
 
 /**
@@ -303,6 +438,7 @@ export interface GradientGenerationOptions {
   seed?: number;
   colors?: string[];
   angle?: number;
+  contrastLevel?: WcagLevel;
 }
 
 /**
@@ -343,15 +479,15 @@ export function generateLabelGradient(
   // Generate gradient CSS with optional custom angle
   const gradient = generateGradientCSS(colors, type, random, options?.angle);
 
-  // Calculate adaptive text color
-  const textColor = getAdaptiveTextColor(colors);
+  // Calculate adaptive text color, tinted when a contrast level is requested
+  const text = chooseTextColor(colors, { level: options?.contrastLevel });
+  const textColor = formatColor(text.color);
 
   // Add subtle text shadow for better readability
-  // Use opposite color of text for shadow (white text gets dark shadow, black text gets light shadow)
-  const textShadow =
-    textColor === '#ffffff'
-      ? '0 1px 3px rgba(0, 0, 0, 0.3), 0 1px 2px rgba(0, 0, 0, 0.2)'
-      : '0 1px 2px rgba(255, 255, 255, 0.8), 0 0 1px rgba(255, 255, 255, 0.5)';
+  // Use opposite color of text for shadow (light text gets dark shadow, dark text gets light shadow)
+  const textShadow = text.isLight
+    ? '0 1px 3px rgba(0, 0, 0, 0.3), 0 1px 2px rgba(0, 0, 0, 0.2)'
+    : '0 1px 2px rgba(255, 255, 255, 0.8), 0 0 1px rgba(255, 255, 255, 0.5)';
 
   return {
     gradient,
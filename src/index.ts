@@ -1,10 +1,42 @@
 export { FloppyDisk } from './FloppyDisk';
+export { FloppyDisk525 } from './FloppyDisk525';
+export { FloppyDrive } from './FloppyDrive';
+export { FloppyDropZone } from './FloppyDropZone';
+export { FloppyShelf } from './FloppyShelf';
+export { FloppyVirtualShelf } from './FloppyVirtualShelf';
+export { FloppyStack } from './FloppyStack';
+export { FloppyThemeProvider, useFloppyTheme } from './FloppyThemeProvider';
+export { useColorScheme } from './useColorScheme';
 export type {
   FloppyDiskProps,
+  FloppyDisk525Props,
+  FloppyDriveProps,
+  FloppyDropZoneProps,
+  FloppyShelfProps,
+  FloppyShelfItem,
+  FloppyShelfLayout,
+  FloppyVirtualShelfProps,
+  FloppyStackProps,
+  FloppyStackItem,
+  FloppyStackLayout,
+  FloppyThemeProviderProps,
+  FloppyThemeSettings,
+  FloppyThemeInput,
+  FloppyThemePair,
+  ColorScheme,
+  FormFactor,
+  LabelTemplate,
   FloppySize,
+  FloppyDiskSize,
   FloppyVariant,
+  FloppySide,
   FloppyTheme,
   FloppyLabel,
+  LabelImageFit,
+  LabelImagePosition,
+  LabelTextField,
+  LabelFit,
+  LabelLineFit,
   DiskType,
   AnimationConfig,
   GradientOptions,
@@ -18,4 +50,69 @@ export {
   RETRO_THEME,
   PASTEL_THEME,
 } from './types';
+export {
+  registerFormFactor,
+  getFormFactor,
+  getFormFactors,
+  DEFAULT_FORM_FACTOR,
+} from './formFactors';
+export type {
+  FormFactorDefinition,
+  FormFactorRect,
+  FormFactorDecal,
+  FormFactorPaint,
+  BuiltInFormFactor,
+} from './formFactors';
+export { useFloppySelection } from './useFloppySelection';
+export type {
+  FloppySelection,
+  FloppySelectionMode,
+  FloppySelectionOptions,
+  FloppySelectionItemProps,
+  FloppySelectionShelfProps,
+} from './useFloppySelection';
+export {
+  registerLabelTemplate,
+  getLabelTemplate,
+  getLabelTemplates,
+  DEFAULT_LABEL_TEMPLATE,
+  LABEL_FONTS,
+} from './labelTemplates';
+export type {
+  LabelTemplateDefinition,
+  LabelTemplateSlot,
+  LabelTemplateField,
+  LabelTemplateAlign,
+  BuiltInLabelTemplate,
+} from './labelTemplates';
+export { parseColor, formatColor, simulateColorVision } from './colorUtils';
+export type { RgbaColor, ColorVisionDeficiency } from './colorUtils';
+export {
+  getAdaptiveTextColor,
+  getGradientContrast,
+  calculateLuminance,
+  calculateContrastRatio,
+} from './gradientUtils';
+export type { WcagLevel, AdaptiveTextColorOptions } from './gradientUtils';
+export { createFloppyTheme, validateFloppyTheme } from './themeUtils';
+export type {
+  CreateFloppyThemeOptions,
+  CreatedFloppyTheme,
+  ValidateFloppyThemeOptions,
+  FloppyThemeDiagnostic,
+  FloppyThemeDiagnosticCode,
+  FloppyThemeValidation,
+} from './themeUtils';
+export { fitText, wrapText, truncateText } from './textFit';
+export type { LabelFitPolicy, TextFitOptions, TextFitResult } from './textFit';
+export { FLOPPY_DRAG_MIME } from './dragAndDrop';
+export type { FloppyDragPayload, FloppyDragMode } from './dragAndDrop';
+export { renderFloppyToSVG } from './svgRenderer';
+export type { RenderFloppyToSVGOptions } from './svgRenderer';
 export { default as floppyDiskStyles } from './FloppyDisk.module.css';
+export { default as floppyDisk525Styles } from './FloppyDisk525.module.css';
+export { default as floppyDriveStyles } from './FloppyDrive.module.css';
+export { default as floppyDropZoneStyles } from './FloppyDropZone.module.css';
+export { default as floppyShelfStyles } from './FloppyShelf.module.css';
+export { default as floppyVirtualShelfStyles } from './FloppyVirtualShelf.module.css';
+export { default as floppyStackStyles } from './FloppyStack.module.css';
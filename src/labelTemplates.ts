@@ -0,0 +1,435 @@
+/**
+ * Label layout template registry
+ *
+ * A template places the fields of a FloppyLabel on the label paper. Slot
+ * rectangles are unit fractions (0-1) of the label width and height, and
+ * font sizes are fractions of the disk size, so templates scale with the
+ * disk like form factors do.
+ */
+
+import { FormFactorRect, isUnitRect } from './formFactors';
+import { FloppyLabel } from './types';
+
+/**
+ * FloppyLabel field shown in a template slot
+ */
+export type LabelTemplateField =
+  | 'name'
+  | 'author'
+  | 'year'
+  | 'description'
+  | 'type'
+  | 'size';
+
+/**
+ * Horizontal alignment of the text in a slot
+ */
+export type LabelTemplateAlign = 'left' | 'center' | 'right';
+
+/**
+ * One line of text on the label, in unit coordinates of the label paper
+ */
+export interface LabelTemplateSlot extends FormFactorRect {
+  /** Label field rendered in this slot; empty fields are skipped */
+  field: LabelTemplateField;
+  /** Font size as a fraction of the disk size (e.g. 0.065) */
+  fontSize: number;
+  /** CSS font-family list @default LABEL_FONTS.mono */
+  fontFamily?: string;
+  /** CSS font weight @default 500 */
+  fontWeight?: number;
+  /** Italic text @default false */
+  italic?: boolean;
+  /** @default 'left' */
+  align?: LabelTemplateAlign;
+  /** Render the text in capitals @default false */
+  uppercase?: boolean;
+  /** Letter spacing in ems @default 0 */
+  letterSpacing?: number;
+  /** Rotation in degrees, e.g. for handwriting @default 0 */
+  rotate?: number;
+  /** @default 1 */
+  opacity?: number;
+  /** Draw in the label paper color, for text on the logo band @default false */
+  inverse?: boolean;
+  /**
+   * Jitter each character's rotation, baseline and ink like marker
+   * handwriting, seeded from the label name @default false
+   */
+  handwriting?: boolean;
+}
+
+/**
+ * Layout of the label paper
+ */
+export interface LabelTemplateDefinition {
+  /** Unique identifier used by the `labelTemplate` prop (e.g., 'printed') */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** Text slots, drawn in order */
+  slots: LabelTemplateSlot[];
+  /** Solid band in the label text color, e.g. a manufacturer logo strip */
+  logoArea?: FormFactorRect;
+  /** Number of evenly spaced ruled lines across the label @default 0 */
+  ruledLines?: number;
+}
+
+/**
+ * Built-in label template identifiers
+ */
+export type BuiltInLabelTemplate =
+  | 'classic'
+  | 'printed'
+  | 'typewriter'
+  | 'handwritten'
+  | 'ruled';
+
+/**
+ * The template rendered when none (or an unknown one) is requested
+ */
+export const DEFAULT_LABEL_TEMPLATE: BuiltInLabelTemplate = 'classic';
+
+/**
+ * Font stacks used by the built-in templates, for reuse in custom ones
+ */
+export const LABEL_FONTS = {
+  mono: "'Courier New', Courier, 'Consolas', 'Monaco', Verdana, 'Lucida Console', monospace",
+  sans: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+  typewriter:
+    "'American Typewriter', 'Courier Prime', 'Courier New', Courier, monospace",
+  handwritten:
+    "'Permanent Marker', 'Marker Felt', 'Segoe Print', 'Bradley Hand', 'Comic Sans MS', cursive",
+} as const;
+
+/**
+ * Centered name with the author above and the year below. FloppyDisk renders
+ * this template with its native markup (and text fitting); the definition
+ * mirrors FloppyDisk.module.css for other consumers.
+ */
+const TEMPLATE_CLASSIC: LabelTemplateDefinition = {
+  id: 'classic',
+  name: 'Classic',
+  slots: [
+    {
+      field: 'author',
+      x: 0.06,
+      y: 0.06,
+      width: 0.88,
+      height: 0.12,
+      fontSize: 0.055,
+      align: 'center',
+      opacity: 0.9,
+    },
+    {
+      field: 'name',
+      x: 0.06,
+      y: 0.37,
+      width: 0.88,
+      height: 0.2,
+      fontSize: 0.075,
+      fontWeight: 700,
+      align: 'center',
+    },
+    {
+      field: 'year',
+      x: 0.06,
+      y: 0.82,
+      width: 0.88,
+      height: 0.12,
+      fontSize: 0.055,
+      align: 'center',
+      opacity: 0.9,
+    },
+  ],
+};
+
+/**
+ * Commercial label: logo band with disk type and capacity, then left-aligned
+ * title and publisher in a sans-serif face
+ */
+const TEMPLATE_PRINTED: LabelTemplateDefinition = {
+  id: 'printed',
+  name: 'Printed',
+  logoArea: { x: 0, y: 0, width: 1, height: 0.26 },
+  slots: [
+    {
+      field: 'type',
+      x: 0.05,
+      y: 0.03,
+      width: 0.5,
+      height: 0.2,
+      fontSize: 0.06,
+      fontFamily: LABEL_FONTS.sans,
+      fontWeight: 800,
+      uppercase: true,
+      letterSpacing: 0.12,
+      inverse: true,
+    },
+    {
+      field: 'size',
+      x: 0.55,
+      y: 0.03,
+      width: 0.4,
+      height: 0.2,
+      fontSize: 0.045,
+      fontFamily: LABEL_FONTS.sans,
+      fontWeight: 700,
+      align: 'right',
+      inverse: true,
+    },
+    {
+      field: 'name',
+      x: 0.06,
+      y: 0.33,
+      width: 0.88,
+      height: 0.22,
+      fontSize: 0.07,
+      fontFamily: LABEL_FONTS.sans,
+      fontWeight: 700,
+    },
+    {
+      field: 'author',
+      x: 0.06,
+      y: 0.57,
+      width: 0.88,
+      height: 0.15,
+      fontSize: 0.05,
+      fontFamily: LABEL_FONTS.sans,
+      fontWeight: 400,
+    },
+    {
+      field: 'year',
+      x: 0.06,
+      y: 0.8,
+      width: 0.88,
+      height: 0.13,
+      fontSize: 0.045,
+      fontFamily: LABEL_FONTS.sans,
+      fontWeight: 400,
+      align: 'right',
+      opacity: 0.8,
+    },
+  ],
+};
+
+/**
+ * Typed label: evenly spaced left-aligned lines in a typewriter face
+ */
+const TEMPLATE_TYPEWRITER: LabelTemplateDefinition = {
+  id: 'typewriter',
+  name: 'Typewriter',
+  slots: (['name', 'author', 'year', 'description'] as const).map(
+    (field, index) => ({
+      field,
+      x: 0.08,
+      y: 0.1 + index * 0.21,
+      width: 0.84,
+      height: 0.18,
+      fontSize: 0.055,
+      fontFamily: LABEL_FONTS.typewriter,
+      fontWeight: 400,
+      letterSpacing: 0.04,
+    }),
+  ),
+};
+
+/**
+ * Marker label: a large, slightly tilted title with a smaller author line,
+ * written with per-character jitter
+ */
+const TEMPLATE_HANDWRITTEN: LabelTemplateDefinition = {
+  id: 'handwritten',
+  name: 'Handwritten',
+  slots: [
+    {
+      field: 'name',
+      x: 0.05,
+      y: 0.18,
+      width: 0.9,
+      height: 0.32,
+      fontSize: 0.085,
+      fontFamily: LABEL_FONTS.handwritten,
+      fontWeight: 400,
+      handwriting: true,
+      align: 'center',
+      rotate: -2,
+    },
+    {
+      field: 'author',
+      x: 0.1,
+      y: 0.55,
+      width: 0.8,
+      height: 0.18,
+      fontSize: 0.055,
+      fontFamily: LABEL_FONTS.handwritten,
+      fontWeight: 400,
+      handwriting: true,
+      align: 'center',
+      rotate: 1,
+    },
+    {
+      field: 'year',
+      x: 0.55,
+      y: 0.78,
+      width: 0.38,
+      height: 0.16,
+      fontSize: 0.045,
+      fontFamily: LABEL_FONTS.handwritten,
+      fontWeight: 400,
+      handwriting: true,
+      align: 'right',
+      rotate: -1,
+    },
+  ],
+};
+
+/**
+ * Blank ruled label with the fields written on the first lines
+ */
+const TEMPLATE_RULED: LabelTemplateDefinition = {
+  id: 'ruled',
+  name: 'Ruled',
+  ruledLines: 5,
+  slots: (['name', 'author', 'year'] as const).map((field, index) => ({
+    field,
+    x: 0.06,
+    y: index * 0.2 + 0.02,
+    width: 0.88,
+    height: 0.17,
+    fontSize: 0.055,
+    fontWeight: index === 0 ? 700 : 500,
+  })),
+};
+
+const LABEL_TEMPLATE_FIELDS: LabelTemplateField[] = [
+  'name',
+  'author',
+  'year',
+  'description',
+  'type',
+  'size',
+];
+
+const registry = new Map<string, LabelTemplateDefinition>(
+  [
+    TEMPLATE_CLASSIC,
+    TEMPLATE_PRINTED,
+    TEMPLATE_TYPEWRITER,
+    TEMPLATE_HANDWRITTEN,
+    TEMPLATE_RULED,
+  ].map((definition) => [definition.id, definition]),
+);
+
+/**
+ * Checks a slot's field, rectangle and font size
+ */
+function isValidSlot(slot: LabelTemplateSlot): boolean {
+  return (
+    LABEL_TEMPLATE_FIELDS.includes(slot.field) &&
+    isUnitRect(slot) &&
+    slot.fontSize > 0
+  );
+}
+
+/**
+ * Registers a custom label template (or replaces an existing one) so it can
+ * be used through the `labelTemplate` prop.
+ *
+ * @param definition - Layout definition in unit coordinates of the label
+ * @returns true if the definition was registered
+ * @remarks This function does not throw errors. Invalid definitions trigger a console warning and are ignored.
+ *
+ * @example
+ * ```ts
+ * registerLabelTemplate({
+ *   id: 'catalog',
+ *   name: 'Catalog',
+ *   slots: [
+ *     { field: 'name', x: 0.05, y: 0.1, width: 0.9, height: 0.2, fontSize: 0.06 },
+ *     { field: 'description', x: 0.05, y: 0.4, width: 0.9, height: 0.2, fontSize: 0.04 },
+ *   ],
+ * });
+ * ```
+ */
+export function registerLabelTemplate(
+  definition: LabelTemplateDefinition,
+): boolean {
+  if (
+    !definition.id ||
+    !Array.isArray(definition.slots) ||
+    !definition.slots.every(isValidSlot) ||
+    (definition.logoArea && !isUnitRect(definition.logoArea)) ||
+    (definition.ruledLines !== undefined && !(definition.ruledLines >= 0))
+  ) {
+    console.warn(
+      `FloppyDisk: Invalid label template definition '${definition.id}'. Expected an id and slots with a known field, a positive fontSize and a rectangle within the unit box (0-1). Ignoring.`,
+    );
+    return false;
+  }
+
+  if (definition.id === DEFAULT_LABEL_TEMPLATE) {
+    console.warn(
+      `FloppyDisk: The '${DEFAULT_LABEL_TEMPLATE}' label template is built in and cannot be replaced. Ignoring.`,
+    );
+    return false;
+  }
+
+  registry.set(definition.id, definition);
+  return true;
+}
+
+/**
+ * Looks up a registered label template
+ * @param id - Template identifier
+ * @returns The definition, or undefined if none is registered under that id
+ */
+export function getLabelTemplate(
+  id: string,
+): LabelTemplateDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Lists all registered label templates, built-in ones first
+ * @returns Registered definitions in registration order
+ */
+export function getLabelTemplates(): LabelTemplateDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Resolves a template id to its definition, falling back to the classic label
+ * @param id - Template identifier
+ * @returns The requested definition, or the classic definition
+ * @remarks This function does not throw errors. Unknown ids trigger a console warning.
+ */
+export function resolveLabelTemplate(
+  id: string = DEFAULT_LABEL_TEMPLATE,
+): LabelTemplateDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    console.warn(
+      `FloppyDisk: Unknown label template '${id}'. Falling back to '${DEFAULT_LABEL_TEMPLATE}'. Register custom templates with registerLabelTemplate().`,
+    );
+    return TEMPLATE_CLASSIC;
+  }
+  return definition;
+}
+
+/**
+ * Text shown in a template slot
+ * @param label - Label of the disk
+ * @param field - Field of the slot
+ * @param disk - Disk type and capacity as printed on the slide of the classic
+ *   disk, which already fall back from `label.type` / `label.size`
+ * @returns The label field; the disk's type and capacity for 'type' and 'size'
+ */
+export function getTemplateFieldText(
+  label: FloppyLabel | undefined,
+  field: LabelTemplateField,
+  disk: { type: string; size: string },
+): string | undefined {
+  if (field === 'type' || field === 'size') return disk[field];
+  return label?.[field];
+}
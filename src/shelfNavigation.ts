@@ -0,0 +1,128 @@
+/**
+ * Keyboard navigation helpers for disk collections
+ *
+ * Pure index math shared by collection components: arrow/Home/End/Page keys
+ * over a row-major grid (a list is a grid with one column), and type-ahead
+ * matching on disk names.
+ */
+
+/**
+ * Layout information needed to resolve a navigation key
+ */
+export interface ShelfNavigationOptions {
+  /** Index of the currently active item */
+  index: number;
+  /** Total number of items */
+  count: number;
+  /** Items per row (1 for lists) */
+  columns: number;
+  /** Rows moved by PageUp / PageDown */
+  pageRows: number;
+  /** Ctrl/Cmd held: Home/End go to the first/last item instead of the row edge */
+  ctrlKey?: boolean;
+}
+
+/**
+ * Time in milliseconds after which the type-ahead buffer resets
+ */
+export const TYPE_AHEAD_TIMEOUT_MS = 500;
+
+/**
+ * Resolves a navigation key to the index of the item to activate.
+ *
+ * @param key - KeyboardEvent.key
+ * @param options - Current index and layout
+ * @returns The new index (clamped to the collection), or null when the key is not a navigation key
+ */
+export function getNavigationIndex(
+  key: string,
+  { index, count, columns, pageRows, ctrlKey = false }: ShelfNavigationOptions,
+): number | null {
+  if (count === 0) return null;
+
+  const lastIndex = count - 1;
+  const columnCount = Math.max(1, columns);
+  const rowStart = index - (index % columnCount);
+  const clamp = (next: number) => Math.max(0, Math.min(lastIndex, next));
+
+  switch (key) {
+    case 'ArrowRight':
+      return columnCount === 1 ? null : clamp(index + 1);
+    case 'ArrowLeft':
+      return columnCount === 1 ? null : clamp(index - 1);
+    case 'ArrowDown':
+      return index + columnCount > lastIndex ? index : index + columnCount;
+    case 'ArrowUp':
+      return index - columnCount < 0 ? index : index - columnCount;
+    case 'Home':
+      return ctrlKey || columnCount === 1 ? 0 : rowStart;
+    case 'End':
+      return ctrlKey || columnCount === 1
+        ? lastIndex
+        : Math.min(lastIndex, rowStart + columnCount - 1);
+    case 'PageDown': {
+      // Keep the column when possible, otherwise stop at the last item
+      const next = index + columnCount * Math.max(1, pageRows);
+      return next > lastIndex ? lastIndex : next;
+    }
+    case 'PageUp': {
+      const next = index - columnCount * Math.max(1, pageRows);
+      return next < 0 ? 0 : next;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Finds the next item whose name starts with the typed query.
+ *
+ * Searching starts after the active item so repeated presses of the same
+ * letter cycle through matches, and wraps around. A query made of one
+ * repeated character (e.g. "ddd") behaves like that single character.
+ *
+ * @param names - Item names in display order (undefined for unnamed items)
+ * @param query - Typed characters
+ * @param activeIndex - Index of the currently active item
+ * @returns Index of the match, or null when nothing matches
+ */
+export function findTypeAheadMatch(
+  names: (string | undefined)[],
+  query: string,
+  activeIndex: number,
+): number | null {
+  if (!query || names.length === 0) return null;
+
+  const normalizedQuery = query.toLocaleLowerCase();
+  const isRepeatedChar = normalizedQuery
+    .split('')
+    .every((char) => char === normalizedQuery[0]);
+  const search = isRepeatedChar ? normalizedQuery[0] : normalizedQuery;
+
+  // A longer query refines the current match, so it may stay in place
+  const startOffset = search.length > 1 ? 0 : 1;
+
+  for (let step = 0; step < names.length; step++) {
+    const candidate = (activeIndex + startOffset + step) % names.length;
+    const name = names[candidate]?.toLocaleLowerCase();
+    if (name && name.startsWith(search)) return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a key event comes from a text field (an input, a textarea or
+ * contentEditable content, such as an inline label editor), whose keys must
+ * not drive collection navigation or shortcuts
+ * @param target - Event target
+ * @returns true for inputs, textareas and editable content
+ */
+export function isEditableTarget(target: unknown): boolean {
+  if (!(target instanceof window.HTMLElement)) return false;
+  return (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.isContentEditable
+  );
+}
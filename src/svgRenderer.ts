@@ -0,0 +1,906 @@
+/**
+ * Pure SVG string renderer for the floppy disk.
+ *
+ * Reproduces the geometry of FloppyDisk.tsx / FloppyDisk.module.css without
+ * React or the DOM, so disks can be rendered on a server (Open Graph images,
+ * email assets, static exports). Registry form factors are drawn from their
+ * unit geometry, like the SVG body of the component.
+ */
+
+import {
+  ColorScheme,
+  FloppyDiskProps,
+  LabelImageFit,
+  LabelTextField,
+  SIZE_MAP,
+  DEFAULT_THEME,
+} from './types';
+import { generateLabelGradient } from './gradientUtils';
+import { lightenColor, darkenColor } from './colorUtils';
+import {
+  DEFAULT_LABEL_TEMPLATE,
+  LABEL_FONTS,
+  LabelTemplateDefinition,
+  getTemplateFieldText,
+  resolveLabelTemplate,
+} from './labelTemplates';
+import { getHandwrittenGlyphs } from './handwriting';
+import { resolveThemeInput } from './themeResolution';
+import { LABEL_LINE_HEIGHT_SHARE, fitText, resolveLabelFit } from './textFit';
+import {
+  DEFAULT_FORM_FACTOR,
+  FormFactorDefinition,
+  FormFactorPaint,
+  resolveFormFactor,
+} from './formFactors';
+
+// Mirrors the sizing constants used by the FloppyDisk component
+const BORDER_THICKNESS_DIVISOR = 200;
+const BORDER_THICKNESS_MIN = 1;
+const COLOR_ADJUSTMENT_PERCENT = 10;
+const LABEL_WIDTH_RATIO = 0.88;
+
+// Geometry ratios (fractions of the disk size) taken from FloppyDisk.module.css
+const CORNER_RADIUS_RATIO = 0.03;
+const NOTCH_RATIO = 0.111;
+const SMALL_RADIUS_RATIO = 0.0133;
+const TINY_RADIUS_RATIO = 0.0067;
+const ARROW_TOP_RATIO = 0.06;
+const ARROW_LEFT_RATIO = 0.02;
+const ARROW_HALF_WIDTH_RATIO = 0.0278;
+const ARROW_HEIGHT_RATIO = 0.0556;
+const ARROW_STEM_HEIGHT_RATIO = 0.0361;
+const LOCK_SIZE_RATIO = 0.0333;
+const LOCK_BOTTOM_RATIO = 0.05;
+const LOCK_SIDE_RATIO = 0.03;
+const SLIDE_TRACK = { x: 0.1, width: 0.7, height: 0.35 };
+const SLIDE = {
+  widthPct: 0.75,
+  heightPct: 0.95,
+  bottomPct: 0.04,
+  rightPct: 0.015,
+};
+const CUTOUT = { widthPct: 0.225, heightPct: 0.7, rightPct: 0.125 };
+const SLIDE_TEXT = { rightPct: 0.375, bottomPct: 0.15, rowHeight: 0.08 };
+const SLIDE_FONT_SIZE_RATIO = 0.0533;
+const LABEL_SLOT = { x: 0.1, y: 0.475, width: 0.8, height: 0.5 };
+const LABEL_SCALE = 0.98;
+const LABEL_ROTATION_DEG = -0.5;
+const LINES_HEIGHT_PCT = 0.95;
+const AUTHOR_TOP_PCT = 0.06;
+const YEAR_BOTTOM_PCT = 0.06;
+const NAME_FONT_RATIO = 0.075;
+const AUTHOR_FONT_RATIO = 0.055;
+const YEAR_FONT_RATIO = 0.055;
+const LINE_HEIGHT = 1.4;
+const RULE_OPACITY = 0.18;
+
+// Label font sizes of registry form factors, as fractions of the label area
+// height (the .formFactor .lineText rules in FloppyDisk.module.css)
+const FORM_FACTOR_NAME_FONT_RATIO = 0.153;
+const FORM_FACTOR_AUTHOR_FONT_RATIO = 0.112;
+const FORM_FACTOR_YEAR_FONT_RATIO = 0.112;
+const MEDIA_COLOR = '#4a3520';
+
+// Label image layout, mirroring the .hasImage rules in FloppyDisk.module.css
+const IMAGE_BAND_PCT = 0.42;
+const IMAGE_BAND_PADDING_X_PCT = 0.06;
+const IMAGE_BAND_PADDING_Y_PCT = 0.04;
+const IMAGE_ICON_WIDTH_PCT = 0.3;
+const IMAGE_ICON_PADDING_LEFT_PCT = 0.05;
+const IMAGE_TEXT_SCALE: Record<LabelImageFit, number> = {
+  cover: 1,
+  contain: 0.8,
+  'icon-left': 0.9,
+};
+const IMAGE_HALO_WIDTH_RATIO = 0.15;
+
+// Approximate advance width of a monospace glyph (Courier New) in ems
+const MONOSPACE_CHAR_WIDTH_EM = 0.6;
+
+const LABEL_FONT_FAMILY =
+  "'Courier New', Courier, Consolas, Monaco, Verdana, 'Lucida Console', monospace";
+const SLIDE_FONT_FAMILY = 'Arial, sans-serif';
+const ERROR_LABEL_COLOR = '#dc2626';
+const ERROR_TEXT_COLOR = '#ffffff';
+const DISABLED_OPACITY = 0.5;
+const DEFAULT_ID_PREFIX = 'floppy';
+
+/**
+ * Options for renderFloppyToSVG
+ */
+export interface RenderFloppyToSVGOptions {
+  /**
+   * Prefix for element ids inside the SVG (clip path, gradient). Set a unique
+   * value when inlining several SVGs into the same HTML document.
+   * @default 'floppy'
+   */
+  idPrefix?: string;
+  /**
+   * Color scheme used to pick the theme when `theme` is 'auto' or a
+   * `{ light, dark }` pair; there is no browser to ask on the server
+   * @default 'light'
+   */
+  colorScheme?: ColorScheme;
+}
+
+interface GradientStop {
+  color: string;
+  offset: number;
+}
+
+/**
+ * Escapes a string for safe use in SVG text content and attribute values
+ * @param value - Raw string
+ * @returns XML-escaped string
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Rounds a number to two decimals to keep the output compact
+ */
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Splits a string on commas that are not nested inside parentheses
+ * @param value - String such as "hsl(1, 2%, 3%) 0%, #fff 100%"
+ * @returns Top-level comma separated parts, trimmed
+ */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Parses CSS color stops ("<color> <position>") into SVG stop offsets
+ * @param stops - Color stop strings
+ * @param unit - Position unit used by the gradient ('%' or 'deg')
+ * @returns Stops with offsets between 0 and 1
+ */
+function parseColorStops(stops: string[], unit: '%' | 'deg'): GradientStop[] {
+  const divisor = unit === '%' ? 100 : 360;
+  return stops.map((stop, i) => {
+    const match = stop.match(/^(.*\S)\s+(-?[\d.]+)(%|deg)$/);
+    if (match) {
+      return { color: match[1], offset: parseFloat(match[2]) / divisor };
+    }
+    return {
+      color: stop,
+      offset: stops.length > 1 ? i / (stops.length - 1) : 0,
+    };
+  });
+}
+
+/**
+ * Serializes gradient stops as SVG <stop> elements
+ */
+function stopsToSVG(stops: GradientStop[]): string {
+  return stops
+    .map(
+      (stop) =>
+        `<stop offset="${fmt(stop.offset)}" stop-color="${escapeXml(stop.color)}"/>`,
+    )
+    .join('');
+}
+
+/**
+ * Converts a CSS gradient string into an SVG gradient definition
+ * @param css - CSS gradient (linear, radial or conic) as produced by generateGradientCSS
+ * @param id - Element id for the gradient definition
+ * @returns SVG gradient element markup, or null if the value is not a gradient
+ * @remarks Conic gradients have no SVG equivalent and are approximated with a
+ * linear gradient along the starting angle.
+ */
+function cssGradientToSVG(css: string, id: string): string | null {
+  const match = css.trim().match(/^(linear|radial|conic)-gradient\((.*)\)$/);
+  if (!match) return null;
+
+  const [, type, body] = match;
+  const parts = splitTopLevel(body);
+  let angle = 180;
+  let center = { x: 0.5, y: 0.5 };
+  let stops: GradientStop[];
+
+  if (type === 'radial') {
+    const position = parts[0].match(/at\s+([\d.]+)%\s+([\d.]+)%/);
+    if (position) {
+      center = {
+        x: parseFloat(position[1]) / 100,
+        y: parseFloat(position[2]) / 100,
+      };
+    }
+    const hasShape = /circle|ellipse|at\s/.test(parts[0]);
+    stops = parseColorStops(hasShape ? parts.slice(1) : parts, '%');
+    const radius = Math.max(
+      Math.hypot(center.x, center.y),
+      Math.hypot(1 - center.x, center.y),
+      Math.hypot(center.x, 1 - center.y),
+      Math.hypot(1 - center.x, 1 - center.y),
+    );
+    return `<radialGradient id="${id}" cx="${fmt(center.x)}" cy="${fmt(center.y)}" fx="${fmt(center.x)}" fy="${fmt(center.y)}" r="${fmt(radius)}">${stopsToSVG(stops)}</radialGradient>`;
+  }
+
+  // Linear gradients may start with "<angle>deg", conic with "from <angle>deg"
+  const anglePart = parts[0].match(/^(?:from\s+)?(-?[\d.]+)deg$/);
+  if (anglePart) angle = parseFloat(anglePart[1]);
+  stops = parseColorStops(
+    anglePart ? parts.slice(1) : parts,
+    type === 'conic' ? 'deg' : '%',
+  );
+
+  // CSS angles: 0deg points up, 90deg points right
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians) / 2;
+  const dy = -Math.cos(radians) / 2;
+  return `<linearGradient id="${id}" x1="${fmt(0.5 - dx)}" y1="${fmt(0.5 - dy)}" x2="${fmt(0.5 + dx)}" y2="${fmt(0.5 + dy)}">${stopsToSVG(stops)}</linearGradient>`;
+}
+
+/**
+ * Estimates the rendered width of monospace label text
+ * @param text - Text content
+ * @param fontSize - Font size in pixels
+ * @returns Approximate width in pixels
+ */
+function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * MONOSPACE_CHAR_WIDTH_EM;
+}
+
+/**
+ * Truncates text with an ellipsis so it fits within the given width
+ * (equivalent of `text-overflow: ellipsis` on the author line)
+ */
+function truncateToWidth(
+  text: string,
+  fontSize: number,
+  maxWidth: number,
+): string {
+  if (estimateTextWidth(text, fontSize) <= maxWidth) return text;
+  const maxChars = Math.max(
+    1,
+    Math.floor(maxWidth / (fontSize * MONOSPACE_CHAR_WIDTH_EM)) - 1,
+  );
+  return `${text.slice(0, maxChars)}…`;
+}
+
+/**
+ * Content of a <text> element: the text itself, or one tspan per wrapped line
+ */
+function textLines(
+  lines: string[],
+  x: number,
+  firstY: number,
+  lineSpacing: number,
+): string {
+  if (lines.length === 1) return escapeXml(lines[0]);
+  return lines
+    .map(
+      (line, index) =>
+        `<tspan x="${fmt(x)}" y="${fmt(firstY + index * lineSpacing)}">${escapeXml(line)}</tspan>`,
+    )
+    .join('');
+}
+
+/**
+ * Writes text as one tspan per character with the seeded handwriting jitter.
+ * `dy` is relative to the previous glyph, so each step undoes the last offset.
+ */
+function handwrittenTspans(
+  text: string,
+  seed: string,
+  fontSize: number,
+): string {
+  let previousOffset = 0;
+  return getHandwrittenGlyphs(text, seed)
+    .map((glyph) => {
+      const dy = (glyph.offsetY - previousOffset) * fontSize;
+      previousOffset = glyph.offsetY;
+      return `<tspan dy="${fmt(dy)}" rotate="${glyph.rotate}" fill-opacity="${glyph.opacity}">${escapeXml(glyph.char)}</tspan>`;
+    })
+    .join('');
+}
+
+/**
+ * Label paper geometry and paints used to draw a label template
+ */
+interface LabelArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  diskSize: number;
+  radius: number;
+  border: number;
+  textColor: string;
+  labelPaint: string;
+}
+
+/**
+ * Draws the logo band, ruled lines and text slots of a label template
+ * (equivalent of the template markup in FloppyDisk.tsx)
+ */
+function renderLabelTemplate(
+  template: LabelTemplateDefinition,
+  label: FloppyDiskProps['label'],
+  disk: { type: string; size: string },
+  area: LabelArea,
+): string[] {
+  const elements: string[] = [];
+  const textFill = escapeXml(area.textColor);
+
+  if (template.logoArea) {
+    const { x, y, width, height } = template.logoArea;
+    elements.push(
+      `<path d="${roundedRectPath(area.x + x * area.width, area.y + y * area.height, width * area.width, height * area.height, y === 0 ? area.radius : 0, 0)}" fill="${textFill}"/>`,
+    );
+  }
+
+  const ruledLines = template.ruledLines || 0;
+  for (let line = 1; line <= ruledLines; line++) {
+    const lineY = area.y + (area.height * line) / ruledLines - area.border / 2;
+    elements.push(
+      `<path d="M ${fmt(area.x)} ${fmt(lineY)} H ${fmt(area.x + area.width)}" stroke="#000000" stroke-opacity="${RULE_OPACITY}" stroke-width="${fmt(area.border)}"/>`,
+    );
+  }
+
+  template.slots.forEach((slot) => {
+    const rawText = getTemplateFieldText(label, slot.field, disk);
+    if (!rawText) return;
+
+    const slotX = area.x + slot.x * area.width;
+    const slotWidth = slot.width * area.width;
+    const centerY = area.y + (slot.y + slot.height / 2) * area.height;
+    const align = slot.align || 'left';
+    const textX =
+      align === 'left'
+        ? slotX
+        : align === 'center'
+          ? slotX + slotWidth / 2
+          : slotX + slotWidth;
+    const anchor =
+      align === 'left' ? 'start' : align === 'center' ? 'middle' : 'end';
+    const fontSize = area.diskSize * slot.fontSize;
+    const text = truncateToWidth(
+      slot.uppercase ? rawText.toUpperCase() : rawText,
+      fontSize,
+      slotWidth,
+    );
+
+    const attributes = [
+      `x="${fmt(textX)}"`,
+      `y="${fmt(centerY)}"`,
+      `text-anchor="${anchor}"`,
+      'dominant-baseline="central"',
+      `font-family="${escapeXml(slot.fontFamily || LABEL_FONTS.mono)}"`,
+      `font-size="${fmt(fontSize)}"`,
+      `font-weight="${slot.fontWeight ?? 500}"`,
+      `fill="${slot.inverse ? area.labelPaint : textFill}"`,
+      slot.italic && 'font-style="italic"',
+      slot.letterSpacing &&
+        `letter-spacing="${fmt(slot.letterSpacing * fontSize)}"`,
+      slot.opacity !== undefined && `opacity="${slot.opacity}"`,
+      slot.rotate &&
+        `transform="rotate(${slot.rotate} ${fmt(textX)} ${fmt(centerY)})"`,
+    ].filter(Boolean);
+
+    const content = slot.handwriting
+      ? handwrittenTspans(text, `${label?.name ?? ''}:${slot.field}`, fontSize)
+      : escapeXml(text);
+    if (slot.handwriting) attributes.push('xml:space="preserve"');
+
+    elements.push(`<text ${attributes.join(' ')}>${content}</text>`);
+  });
+
+  return elements;
+}
+
+/**
+ * Builds the outline path of the disk body: rounded corners except the
+ * chamfered top-right notch
+ */
+function bodyPath(size: number): string {
+  const r = size * CORNER_RADIUS_RATIO;
+  const notch = size * NOTCH_RATIO;
+  return [
+    `M ${fmt(r)} 0`,
+    `H ${fmt(size - notch)}`,
+    `L ${fmt(size)} ${fmt(notch)}`,
+    `V ${fmt(size - r)}`,
+    `A ${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(size - r)} ${fmt(size)}`,
+    `H ${fmt(r)}`,
+    `A ${fmt(r)} ${fmt(r)} 0 0 1 0 ${fmt(size - r)}`,
+    `V ${fmt(r)}`,
+    `A ${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(r)} 0`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Builds a rectangle path with individual top and bottom corner radii
+ */
+function roundedRectPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  topRadius: number,
+  bottomRadius: number,
+): string {
+  const t = topRadius;
+  const b = bottomRadius;
+  return [
+    `M ${fmt(x + t)} ${fmt(y)}`,
+    `H ${fmt(x + width - t)}`,
+    `A ${fmt(t)} ${fmt(t)} 0 0 1 ${fmt(x + width)} ${fmt(y + t)}`,
+    `V ${fmt(y + height - b)}`,
+    `A ${fmt(b)} ${fmt(b)} 0 0 1 ${fmt(x + width - b)} ${fmt(y + height)}`,
+    `H ${fmt(x + b)}`,
+    `A ${fmt(b)} ${fmt(b)} 0 0 1 ${fmt(x)} ${fmt(y + height - b)}`,
+    `V ${fmt(y + t)}`,
+    `A ${fmt(t)} ${fmt(t)} 0 0 1 ${fmt(x + t)} ${fmt(y)}`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Colors used to paint a registry form factor
+ */
+interface FormFactorPaints extends Record<FormFactorPaint, string> {
+  body: string;
+}
+
+/**
+ * Draws the outline, shutter and decals of a registry form factor, scaled from
+ * unit coordinates (equivalent of the form factor SVG in FloppyDisk.tsx)
+ */
+function renderFormFactorBody(
+  definition: FormFactorDefinition,
+  width: number,
+  height: number,
+  border: number,
+  paints: FormFactorPaints,
+): string[] {
+  const stroke = `stroke="${escapeXml(paints.shadow)}" vector-effect="non-scaling-stroke"`;
+  // The body clip hides the outer half of the outline stroke
+  const elements = [
+    `<path d="${escapeXml(definition.outline)}" fill="${escapeXml(paints.body)}" ${stroke} stroke-width="${fmt(border * 2)}"/>`,
+  ];
+  if (definition.shutter) {
+    const {
+      x,
+      y,
+      width: shutterWidth,
+      height: shutterHeight,
+    } = definition.shutter;
+    elements.push(
+      `<rect x="${x}" y="${y}" width="${shutterWidth}" height="${shutterHeight}" fill="${escapeXml(paints.slide)}" ${stroke} stroke-width="${fmt(border)}"/>`,
+    );
+  }
+  definition.decals?.forEach((decal) => {
+    elements.push(
+      `<path d="${escapeXml(decal.path)}" fill="${escapeXml(paints[decal.fill || 'shadow'])}"/>`,
+    );
+  });
+
+  return [
+    `<g transform="scale(${fmt(width)} ${fmt(height)})">${elements.join('')}</g>`,
+  ];
+}
+
+/**
+ * Renders a floppy disk as a self-contained SVG string.
+ *
+ * Accepts the same props as the FloppyDisk component; interaction props
+ * (handlers, badge, children, className, style) are ignored. Registered
+ * `formFactor`s are drawn from their registry geometry; unknown ones fall back
+ * to the 3.5" disk with a console warning, like the component. The output has
+ * no React or DOM dependency and can be used on a server, e.g. for Open
+ * Graph images or email assets.
+ *
+ * Label text is fitted with the same engine and `labelFit` rules as the
+ * component, using an estimated monospace glyph width instead of DOM
+ * measurement. Label images are drawn when `label.image` is a URL; React node
+ * images and `label.imageFallback` are skipped.
+ *
+ * @param props - FloppyDisk props
+ * @param options - Output options (element id prefix)
+ * @returns SVG markup string
+ * @remarks This function does not throw errors. Invalid colors are passed through unchanged.
+ *
+ * @example
+ * ```ts
+ * const svg = renderFloppyToSVG({
+ *   size: 'large',
+ *   label: { name: 'Second Reality', author: 'Future Crew', year: '1993' },
+ * });
+ * ```
+ */
+export function renderFloppyToSVG(
+  props: FloppyDiskProps = {},
+  options: RenderFloppyToSVGOptions = {},
+): string {
+  const idPrefix = options.idPrefix || DEFAULT_ID_PREFIX;
+  const clipId = `${idPrefix}-body-clip`;
+  const labelClipId = `${idPrefix}-label-clip`;
+  const gradientId = `${idPrefix}-label-gradient`;
+  const {
+    size = 'medium',
+    minSize = SIZE_MAP.tiny,
+    maxSize = Infinity,
+    label,
+    diskType = 'HD',
+    capacity,
+    theme = {},
+    disabled = false,
+    error = false,
+    ariaLabel,
+    labelTemplate,
+    labelFit,
+    formFactor,
+  } = props;
+
+  let s: number;
+  // There is no container to fill: use the size a fluid disk has until measured
+  if (size === 'fluid')
+    s = Math.max(minSize, Math.min(maxSize, SIZE_MAP.medium));
+  else s = typeof size === 'number' ? size : SIZE_MAP[size];
+  const formFactorDefinition = resolveFormFactor(formFactor);
+  const isNativeFormFactor = formFactorDefinition.id === DEFAULT_FORM_FACTOR;
+  const h = s / formFactorDefinition.aspectRatio;
+  const mergedTheme = {
+    ...DEFAULT_THEME,
+    ...resolveThemeInput(theme, options.colorScheme || 'light'),
+  };
+  const diskColor = mergedTheme.diskColor || DEFAULT_THEME.diskColor!;
+  const highlight = lightenColor(diskColor, COLOR_ADJUSTMENT_PERCENT);
+  const shadow = darkenColor(diskColor, COLOR_ADJUSTMENT_PERCENT);
+  const border = Math.max(
+    BORDER_THICKNESS_MIN,
+    Math.round(Math.min(s, h) / BORDER_THICKNESS_DIVISOR),
+  );
+
+  const gradientConfig =
+    mergedTheme.enableGradient && label?.name
+      ? generateLabelGradient(
+          label.name,
+          mergedTheme.gradientType || 'auto',
+          mergedTheme.gradientOptions,
+        )
+      : null;
+
+  let labelFill = gradientConfig
+    ? gradientConfig.gradient
+    : mergedTheme.labelColor || DEFAULT_THEME.labelColor!;
+  let textColor = gradientConfig
+    ? gradientConfig.textColor
+    : mergedTheme.labelTextColor || DEFAULT_THEME.labelTextColor!;
+  if (error) {
+    labelFill = ERROR_LABEL_COLOR;
+    textColor = ERROR_TEXT_COLOR;
+  }
+
+  const gradientDef = cssGradientToSVG(labelFill, gradientId);
+  const labelPaint = gradientDef ? `url(#${gradientId})` : escapeXml(labelFill);
+
+  const displayCapacity = capacity || label?.size || '1.44 MB';
+  const displayType = label?.type || (diskType === 'HD' ? 'ZIP' : 'DISK');
+  const accessibleLabel =
+    ariaLabel ||
+    (label
+      ? `${label.name} by ${label.author || 'Unknown'}`
+      : isNativeFormFactor
+        ? 'Floppy disk'
+        : formFactorDefinition.name);
+
+  const elements: string[] = [];
+
+  // Label slot: a recess on the 3.5" disk, the label bounds of other media
+  const smallRadius = s * SMALL_RADIUS_RATIO;
+  const labelBounds = isNativeFormFactor
+    ? LABEL_SLOT
+    : formFactorDefinition.labelBounds;
+  const slotX = s * labelBounds.x;
+  const slotY = h * labelBounds.y;
+  const slotWidth = s * labelBounds.width;
+  const slotHeight = h * labelBounds.height;
+
+  if (isNativeFormFactor) {
+    // Disk body with bevelled border and chamfered notch
+    elements.push(
+      `<path d="${bodyPath(s)}" fill="${escapeXml(diskColor)}" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border * 2)}" clip-path="url(#${clipId})"/>`,
+    );
+    elements.push(
+      `<path d="M ${fmt(border / 2)} ${fmt(s)} V ${fmt(border / 2)} H ${fmt(s * (1 - NOTCH_RATIO))}" fill="none" stroke="${escapeXml(highlight)}" stroke-width="${fmt(border)}"/>`,
+    );
+    elements.push(
+      `<line x1="${fmt(s * (1 - NOTCH_RATIO))}" y1="0" x2="${fmt(s)}" y2="${fmt(s * NOTCH_RATIO)}" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border)}"/>`,
+    );
+
+    // Decals: insertion arrow and the two lock holes
+    const arrowX = s * (ARROW_LEFT_RATIO + ARROW_HALF_WIDTH_RATIO);
+    const arrowY = s * ARROW_TOP_RATIO;
+    const arrowHalf = s * ARROW_HALF_WIDTH_RATIO;
+    const arrowHeight = s * ARROW_HEIGHT_RATIO;
+    const stemHeight = s * ARROW_STEM_HEIGHT_RATIO;
+    elements.push(
+      `<path d="M ${fmt(arrowX)} ${fmt(arrowY)} L ${fmt(arrowX + arrowHalf)} ${fmt(arrowY + arrowHeight)} H ${fmt(arrowX - arrowHalf)} Z" fill="${escapeXml(shadow)}"/>`,
+    );
+    elements.push(
+      `<rect x="${fmt(arrowX - arrowHalf / 2)}" y="${fmt(arrowY + stemHeight)}" width="${fmt(arrowHalf)}" height="${fmt(stemHeight)}" fill="${escapeXml(shadow)}"/>`,
+    );
+    const lockSize = s * LOCK_SIZE_RATIO;
+    const lockY = s - s * LOCK_BOTTOM_RATIO - lockSize - border * 2;
+    for (const lockX of [
+      s * LOCK_SIDE_RATIO,
+      s - s * LOCK_SIDE_RATIO - lockSize - border * 2,
+    ]) {
+      elements.push(
+        `<path d="M ${fmt(lockX)} ${fmt(lockY + lockSize + border * 2)} V ${fmt(lockY)} H ${fmt(lockX + lockSize + border * 2)}" fill="none" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border)}"/>`,
+        `<path d="M ${fmt(lockX + lockSize + border * 2)} ${fmt(lockY)} V ${fmt(lockY + lockSize + border * 2)} H ${fmt(lockX)}" fill="none" stroke="${escapeXml(highlight)}" stroke-width="${fmt(border)}"/>`,
+      );
+    }
+
+    // Slide track, metal slide, cutout and slide text
+    const trackX = s * SLIDE_TRACK.x;
+    const trackWidth = s * SLIDE_TRACK.width;
+    const trackHeight = s * SLIDE_TRACK.height;
+    elements.push(
+      `<path d="${roundedRectPath(trackX, -border, trackWidth, trackHeight, 0, smallRadius)}" fill="${escapeXml(diskColor)}" stroke="${escapeXml(highlight)}" stroke-width="${fmt(border)}"/>`,
+    );
+
+    const slideWidth = trackWidth * SLIDE.widthPct;
+    const slideHeight = trackHeight * SLIDE.heightPct;
+    const slideX = trackX + trackWidth * (1 - SLIDE.rightPct) - slideWidth;
+    const slideY = trackHeight * (1 - SLIDE.bottomPct) - slideHeight;
+    elements.push(
+      `<rect x="${fmt(slideX)}" y="${fmt(slideY)}" width="${fmt(slideWidth)}" height="${fmt(slideHeight)}" rx="${fmt(smallRadius)}" fill="${escapeXml(mergedTheme.slideColor || DEFAULT_THEME.slideColor!)}" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border)}"/>`,
+    );
+
+    const cutoutWidth = slideWidth * CUTOUT.widthPct;
+    const cutoutHeight = slideHeight * CUTOUT.heightPct;
+    const cutoutX = slideX + slideWidth * (1 - CUTOUT.rightPct) - cutoutWidth;
+    const cutoutY = slideY + (slideHeight - cutoutHeight) / 2;
+    elements.push(
+      `<rect x="${fmt(cutoutX)}" y="${fmt(cutoutY)}" width="${fmt(cutoutWidth)}" height="${fmt(cutoutHeight)}" fill="${escapeXml(diskColor)}" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border)}"/>`,
+    );
+
+    const slideTextX = slideX + slideWidth * (1 - SLIDE_TEXT.rightPct);
+    const slideTextBottom = slideY + slideHeight * (1 - SLIDE_TEXT.bottomPct);
+    const slideRow = s * SLIDE_TEXT.rowHeight;
+    const slideFontSize = s * SLIDE_FONT_SIZE_RATIO;
+    const slideTextAttrs = `text-anchor="end" font-family="${SLIDE_FONT_FAMILY}" font-weight="bold" font-size="${fmt(slideFontSize)}" fill="${escapeXml(diskColor)}"`;
+    elements.push(
+      `<text x="${fmt(slideTextX)}" y="${fmt(slideTextBottom - slideRow * 1.2)}" ${slideTextAttrs}>${escapeXml(displayType)}</text>`,
+      `<text x="${fmt(slideTextX)}" y="${fmt(slideTextBottom - slideRow * 0.2)}" ${slideTextAttrs}>${escapeXml(displayCapacity)}</text>`,
+    );
+
+    // Label slot recess
+    elements.push(
+      `<path d="${roundedRectPath(slotX, slotY, slotWidth, slotHeight, smallRadius, s * TINY_RADIUS_RATIO)}" fill="${escapeXml(diskColor)}" stroke="${escapeXml(shadow)}" stroke-width="${fmt(border)}"/>`,
+    );
+  } else {
+    elements.push(
+      ...renderFormFactorBody(formFactorDefinition, s, h, border, {
+        body: diskColor,
+        shadow,
+        highlight,
+        slide: mergedTheme.slideColor || DEFAULT_THEME.slideColor!,
+        media: MEDIA_COLOR,
+        background:
+          mergedTheme.backgroundColor || DEFAULT_THEME.backgroundColor!,
+        label: labelPaint,
+      }),
+    );
+  }
+
+  // Label paper, slightly rotated like the CSS version
+  const labelWidth = slotWidth * LABEL_SCALE;
+  const labelHeight = slotHeight * LABEL_SCALE;
+  const labelCenterX = slotX + slotWidth * 0.502;
+  const labelX = labelCenterX - labelWidth / 2;
+  const labelY = slotY + slotHeight * 0.99 - labelHeight;
+  const labelCenterY = labelY + labelHeight / 2;
+
+  const labelPath = roundedRectPath(
+    labelX,
+    labelY,
+    labelWidth,
+    labelHeight,
+    smallRadius,
+    s * 0.0044,
+  );
+  const labelElements: string[] = [];
+  labelElements.push(`<path d="${labelPath}" fill="${labelPaint}"/>`);
+
+  const template = resolveLabelTemplate(labelTemplate);
+  const isClassicLabel = template.id === DEFAULT_LABEL_TEMPLATE;
+
+  // Image URLs share the classic label with the text; React nodes cannot be
+  // rendered without React and are skipped
+  const imageHref =
+    isClassicLabel && typeof label?.image === 'string' ? label.image : '';
+  const imageFit = imageHref ? label?.imageFit || 'contain' : undefined;
+  const textArea = {
+    x: labelX,
+    y: labelY,
+    width: labelWidth,
+    height: labelHeight,
+  };
+  if (imageFit) {
+    const imageArea = { ...textArea };
+    let preserveAspectRatio = 'xMidYMid meet';
+    if (imageFit === 'cover') {
+      preserveAspectRatio = 'xMidYMid slice';
+    } else if (imageFit === 'contain') {
+      const bandHeight = labelHeight * IMAGE_BAND_PCT;
+      const isBottom = label?.imagePosition === 'bottom';
+      imageArea.x = labelX + labelWidth * IMAGE_BAND_PADDING_X_PCT;
+      imageArea.width = labelWidth * (1 - IMAGE_BAND_PADDING_X_PCT * 2);
+      imageArea.y = isBottom
+        ? labelY + labelHeight - bandHeight
+        : labelY + labelHeight * IMAGE_BAND_PADDING_Y_PCT;
+      imageArea.height = bandHeight - labelHeight * IMAGE_BAND_PADDING_Y_PCT;
+      textArea.y = isBottom ? labelY : labelY + bandHeight;
+      textArea.height = labelHeight - bandHeight;
+    } else {
+      const iconWidth = labelWidth * IMAGE_ICON_WIDTH_PCT;
+      imageArea.x = labelX + labelWidth * IMAGE_ICON_PADDING_LEFT_PCT;
+      imageArea.width = iconWidth - labelWidth * IMAGE_ICON_PADDING_LEFT_PCT;
+      imageArea.y = labelY + labelHeight * IMAGE_BAND_PADDING_Y_PCT;
+      imageArea.height = labelHeight * (1 - IMAGE_BAND_PADDING_Y_PCT * 2);
+      textArea.x = labelX + iconWidth;
+      textArea.width = labelWidth - iconWidth;
+    }
+
+    const imageClip =
+      imageFit === 'cover' ? ` clip-path="url(#${labelClipId})"` : '';
+    labelElements.push(
+      `<image href="${escapeXml(imageHref)}" x="${fmt(imageArea.x)}" y="${fmt(imageArea.y)}" width="${fmt(imageArea.width)}" height="${fmt(imageArea.height)}" preserveAspectRatio="${preserveAspectRatio}"${imageClip}>${label?.imageAlt ? `<title>${escapeXml(label.imageAlt)}</title>` : ''}</image>`,
+    );
+  }
+
+  const textScale = imageFit ? IMAGE_TEXT_SCALE[imageFit] : 1;
+  const fontSizes: Record<LabelTextField, number> = isNativeFormFactor
+    ? {
+        name: s * NAME_FONT_RATIO,
+        author: s * AUTHOR_FONT_RATIO,
+        year: s * YEAR_FONT_RATIO,
+      }
+    : {
+        name: slotHeight * FORM_FACTOR_NAME_FONT_RATIO,
+        author: slotHeight * FORM_FACTOR_AUTHOR_FONT_RATIO,
+        year: slotHeight * FORM_FACTOR_YEAR_FONT_RATIO,
+      };
+  const textCenterX = textArea.x + textArea.width / 2;
+  // Box art gets a halo in the label paint to keep the text legible
+  const halo =
+    imageFit === 'cover'
+      ? ` stroke="${labelPaint}" stroke-width="${fmt(fontSizes.name * IMAGE_HALO_WIDTH_RATIO)}" stroke-linejoin="round" paint-order="stroke"`
+      : '';
+  const textAttrs = `text-anchor="middle" dominant-baseline="central" font-family="${escapeXml(LABEL_FONT_FAMILY)}" fill="${escapeXml(textColor)}"${halo}`;
+  // With an image the text lines fill the text area, as in the flex layout
+  const linesHeight = imageFit
+    ? textArea.height
+    : labelHeight * LINES_HEIGHT_PCT;
+  const availableWidth = textArea.width * LABEL_WIDTH_RATIO;
+  if (!isClassicLabel) {
+    labelElements.push(
+      ...renderLabelTemplate(
+        template,
+        label,
+        { type: displayType, size: displayCapacity },
+        {
+          x: labelX,
+          y: labelY,
+          width: labelWidth,
+          height: labelHeight,
+          diskSize: s,
+          radius: smallRadius,
+          border,
+          textColor,
+          labelPaint,
+        },
+      ),
+    );
+  } else {
+    // Same fitting rules as the component, with estimated glyph widths
+    const lineFits = resolveLabelFit(labelFit);
+    const fitLine = (field: LabelTextField, text: string, fontSize: number) =>
+      fitText(text, {
+        ...lineFits[field],
+        maxWidth: availableWidth,
+        maxHeight: linesHeight * LABEL_LINE_HEIGHT_SHARE[field],
+        lineHeight: fontSize * LINE_HEIGHT,
+        measure: (value) => estimateTextWidth(value, fontSize),
+      });
+
+    if (label?.name) {
+      const baseSize = fontSizes.name * textScale;
+      const { scale, lines } = fitLine('name', label.name, baseSize);
+      const fontSize = baseSize * scale;
+      const spacing = fontSize * LINE_HEIGHT;
+      // Wrapped lines are centered as a block, like the CSS version
+      const firstY =
+        textArea.y + linesHeight / 2 - ((lines.length - 1) * spacing) / 2;
+      labelElements.push(
+        `<text x="${fmt(textCenterX)}" y="${fmt(firstY)}" ${textAttrs} font-size="${fmt(fontSize)}" font-weight="700">${textLines(lines, textCenterX, firstY, spacing)}</text>`,
+      );
+    }
+
+    if (label?.author) {
+      const baseSize = fontSizes.author * textScale;
+      const { scale, lines } = fitLine('author', label.author, baseSize);
+      const fontSize = baseSize * scale;
+      const spacing = fontSize * LINE_HEIGHT;
+      const firstY = textArea.y + linesHeight * AUTHOR_TOP_PCT + spacing / 2;
+      labelElements.push(
+        `<text x="${fmt(textCenterX)}" y="${fmt(firstY)}" ${textAttrs} font-size="${fmt(fontSize)}" font-weight="500" opacity="0.9">${textLines(lines, textCenterX, firstY, spacing)}</text>`,
+      );
+    }
+
+    if (label?.year) {
+      const baseSize = fontSizes.year * textScale;
+      const { scale, lines } = fitLine('year', label.year, baseSize);
+      const fontSize = baseSize * scale;
+      const spacing = fontSize * LINE_HEIGHT;
+      // Anchored at the bottom, so extra lines go up
+      const firstY =
+        textArea.y +
+        textArea.height * (1 - YEAR_BOTTOM_PCT) -
+        spacing / 2 -
+        (lines.length - 1) * spacing;
+      labelElements.push(
+        `<text x="${fmt(textCenterX)}" y="${fmt(firstY)}" ${textAttrs} font-size="${fmt(fontSize)}" font-weight="500" opacity="0.9">${textLines(lines, textCenterX, firstY, spacing)}</text>`,
+      );
+    }
+  }
+
+  elements.push(
+    `<g transform="rotate(${LABEL_ROTATION_DEG} ${fmt(labelCenterX)} ${fmt(labelCenterY)})">${labelElements.join('')}</g>`,
+  );
+
+  const bodyClip = isNativeFormFactor
+    ? `<path d="${bodyPath(s)}"/>`
+    : `<path d="${escapeXml(formFactorDefinition.outline)}" transform="scale(${fmt(s)} ${fmt(h)})"/>`;
+  const defs = [
+    `<clipPath id="${clipId}">${bodyClip}</clipPath>`,
+    imageFit === 'cover' &&
+      `<clipPath id="${labelClipId}"><path d="${labelPath}"/></clipPath>`,
+    gradientDef,
+  ]
+    .filter(Boolean)
+    .join('');
+
+  const opacity = disabled ? ` opacity="${DISABLED_OPACITY}"` : '';
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(s)}" height="${fmt(h)}" viewBox="0 0 ${fmt(s)} ${fmt(h)}" role="img" aria-label="${escapeXml(accessibleLabel)}">`,
+    `<title>${escapeXml(accessibleLabel)}</title>`,
+    `<defs>${defs}</defs>`,
+    `<g clip-path="url(#${clipId})"${opacity}>`,
+    elements.join(''),
+    '</g>',
+    '</svg>',
+  ].join('');
+}
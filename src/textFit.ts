@@ -0,0 +1,309 @@
+/**
+ * Label text fitting engine
+ *
+ * Decides the font scale and line breaks of a label line. Widths come from a
+ * caller-supplied measure function (DOM measurement in FloppyDisk, estimated
+ * glyph widths in the SVG renderer), so the same rules apply everywhere.
+ * All widths and heights are in the caller's units at a font scale of 1.
+ */
+
+import { LabelFit, LabelLineFit, LabelTextField } from './types';
+
+/**
+ * How a label line handles text that does not fit
+ * - 'fit': shrink the font until the text fits on one line, then truncate
+ * - 'wrap': wrap onto up to `maxLines` lines, shrinking the font as needed,
+ *   then truncate the last line
+ * - 'ellipsis': keep the font size and truncate with an ellipsis
+ * - 'none': keep the font size and a single line; overflow is clipped
+ */
+export type LabelFitPolicy = 'fit' | 'wrap' | 'ellipsis' | 'none';
+
+/**
+ * Input of fitText
+ */
+export interface TextFitOptions {
+  /** Fitting policy */
+  policy: LabelFitPolicy;
+  /** Available width */
+  maxWidth: number;
+  /** Available height for all lines @default Infinity */
+  maxHeight?: number;
+  /** Height of one line at a font scale of 1 @default 0 */
+  lineHeight?: number;
+  /** Maximum number of lines for the 'wrap' policy @default 2 */
+  maxLines?: number;
+  /** Smallest font scale 'fit' and 'wrap' may use @default 0.5 */
+  minScale?: number;
+  /** Largest (and natural) font scale @default 1 */
+  maxScale?: number;
+  /** Width of a single line of text at a font scale of 1 */
+  measure: (text: string) => number;
+}
+
+/**
+ * Result of fitText
+ */
+export interface TextFitResult {
+  /** Font scale relative to the natural font size */
+  scale: number;
+  /** Lines to render, in order */
+  lines: string[];
+  /** Whether text was cut off with an ellipsis */
+  truncated: boolean;
+}
+
+export const DEFAULT_FIT_MAX_LINES = 2;
+export const DEFAULT_FIT_MIN_SCALE = 0.5;
+
+// Default fitting rules of the classic label lines
+const DEFAULT_LABEL_FIT: Record<LabelTextField, Required<LabelLineFit>> = {
+  name: {
+    policy: 'wrap',
+    maxLines: DEFAULT_FIT_MAX_LINES,
+    minScale: DEFAULT_FIT_MIN_SCALE,
+  },
+  author: { policy: 'fit', maxLines: 1, minScale: DEFAULT_FIT_MIN_SCALE },
+  year: { policy: 'fit', maxLines: 1, minScale: DEFAULT_FIT_MIN_SCALE },
+};
+
+export const LABEL_TEXT_FIELDS = Object.keys(
+  DEFAULT_LABEL_FIT,
+) as LabelTextField[];
+
+/**
+ * Share of the label text area height each classic label line may take
+ */
+export const LABEL_LINE_HEIGHT_SHARE: Record<LabelTextField, number> = {
+  name: 0.5,
+  author: 0.2,
+  year: 0.2,
+};
+
+const ELLIPSIS = '…';
+// Binary search stops when the scale range is narrower than this
+const SCALE_PRECISION = 0.005;
+
+/**
+ * Finds the largest scale in [min, max] for which `fits` holds, assuming
+ * smaller scales fit at least as well as larger ones
+ * @returns The scale, or null if even `min` does not fit
+ */
+function findLargestScale(
+  min: number,
+  max: number,
+  fits: (scale: number) => boolean,
+): number | null {
+  if (fits(max)) return max;
+  if (min >= max || !fits(min)) return null;
+
+  let low = min;
+  let high = max;
+  while (high - low > SCALE_PRECISION) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) low = mid;
+    else high = mid;
+  }
+  return Math.floor(low * 1000) / 1000;
+}
+
+/**
+ * Cuts text so that it fits within a width, ending it with an ellipsis
+ * @param text - Text to truncate
+ * @param maxWidth - Available width
+ * @param measure - Width of a single line of text
+ * @returns The text itself if it fits, otherwise the longest prefix plus "…"
+ * @remarks This function does not throw errors. Returns just the ellipsis if not even one character fits.
+ */
+export function truncateText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number,
+): string {
+  if (measure(text) <= maxWidth) return text;
+
+  // Binary search on the number of characters (surrogate pairs kept together)
+  const chars = Array.from(text);
+  const withEllipsis = (count: number) =>
+    `${chars.slice(0, count).join('').replace(/\s+$/, '')}${ELLIPSIS}`;
+  let low = 0;
+  let high = chars.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (measure(withEllipsis(mid)) <= maxWidth) low = mid;
+    else high = mid - 1;
+  }
+  return withEllipsis(low);
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, at spaces where possible.
+ * Words wider than a line are broken between characters.
+ * @param text - Text to wrap
+ * @param maxWidth - Available width
+ * @param measure - Width of a single line of text
+ * @returns Lines in order; an empty text gives a single empty line
+ * @remarks This function does not throw errors.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number,
+): string[] {
+  const words = text.trim().split(/\s+/);
+  const lines: string[] = [];
+  let current = '';
+
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+
+    // Break words that do not fit on a line of their own
+    current = '';
+    Array.from(word).forEach((char) => {
+      if (current && measure(current + char) > maxWidth) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    });
+  });
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Text from the start of a wrapped line to the end, taken from the original
+ * text so words broken between characters are not split by a space
+ * @param text - Wrapped text
+ * @param lines - Lines returned by wrapText
+ * @param lineIndex - First line to keep
+ * @returns The remaining text with whitespace collapsed
+ */
+function textFromLine(
+  text: string,
+  lines: string[],
+  lineIndex: number,
+): string {
+  const chars = Array.from(text.trim().replace(/\s+/g, ' '));
+  let skipped = lines
+    .slice(0, lineIndex)
+    .reduce(
+      (count, line) => count + Array.from(line.replace(/ /g, '')).length,
+      0,
+    );
+  let start = 0;
+  while (skipped > 0 && start < chars.length) {
+    if (chars[start] !== ' ') skipped--;
+    start++;
+  }
+  return chars.slice(start).join('').trim();
+}
+
+/**
+ * Fits a label line into the available space according to its policy.
+ * 'fit' and 'wrap' binary-search the largest font scale between `minScale`
+ * and `maxScale` that fits; at `minScale` the text is truncated instead.
+ *
+ * @param text - Text of the line
+ * @param options - Policy, available space and measure function
+ * @returns Font scale and lines to render
+ * @remarks This function does not throw errors. A non-positive `maxWidth` (e.g. an unmeasured, hidden label) returns the text unchanged at `maxScale`.
+ *
+ * @example
+ * ```ts
+ * fitText('The Secret of Monkey Island', {
+ *   policy: 'wrap',
+ *   maxWidth: 160,
+ *   measure: (text) => text.length * 9,
+ * });
+ * // { scale: 1, lines: ['The Secret of', 'Monkey Island'], truncated: false }
+ * ```
+ */
+export function fitText(text: string, options: TextFitOptions): TextFitResult {
+  const {
+    policy,
+    maxWidth,
+    maxHeight = Infinity,
+    lineHeight = 0,
+    maxLines = DEFAULT_FIT_MAX_LINES,
+    minScale = DEFAULT_FIT_MIN_SCALE,
+    maxScale = 1,
+    measure,
+  } = options;
+
+  const natural = { scale: maxScale, lines: [text], truncated: false };
+  if (!text || !(maxWidth > 0) || policy === 'none') return natural;
+
+  if (policy === 'ellipsis') {
+    const line = truncateText(text, maxWidth / maxScale, measure);
+    return { scale: maxScale, lines: [line], truncated: line !== text };
+  }
+
+  const lineLimit = policy === 'wrap' ? Math.max(1, maxLines) : 1;
+  const layout = (scale: number) =>
+    lineLimit > 1 ? wrapText(text, maxWidth / scale, measure) : [text];
+  const fits = (scale: number) => {
+    const lines = layout(scale);
+    return (
+      lines.length <= lineLimit &&
+      lines.length * lineHeight * scale <= maxHeight &&
+      lines.every((line) => measure(line) * scale <= maxWidth)
+    );
+  };
+
+  const scale = findLargestScale(Math.min(minScale, maxScale), maxScale, fits);
+  if (scale !== null) return { scale, lines: layout(scale), truncated: false };
+
+  // Nothing fits: use the smallest scale and cut off the overflow
+  const smallest = Math.min(minScale, maxScale);
+  const lines = layout(smallest);
+  const visibleLines = Math.max(
+    1,
+    Math.min(
+      lineLimit,
+      lines.length,
+      lineHeight > 0
+        ? Math.floor(maxHeight / (lineHeight * smallest))
+        : lineLimit,
+    ),
+  );
+  const kept = lines.slice(0, visibleLines);
+  const rest = textFromLine(text, lines, visibleLines - 1);
+  kept[visibleLines - 1] = truncateText(rest, maxWidth / smallest, measure);
+  return { scale: smallest, lines: kept, truncated: true };
+}
+
+/**
+ * Resolves the `labelFit` prop into complete rules for every classic label line
+ * @param labelFit - One policy for all lines, or per-line policies or rules
+ * @returns Policy, line limit and minimum scale of the name, author and year
+ * @remarks This function does not throw errors. Missing values use the defaults.
+ */
+export function resolveLabelFit(
+  labelFit: LabelFit | undefined,
+): Record<LabelTextField, Required<LabelLineFit>> {
+  const resolved = { ...DEFAULT_LABEL_FIT };
+  LABEL_TEXT_FIELDS.forEach((field) => {
+    const rule = typeof labelFit === 'string' ? labelFit : labelFit?.[field];
+    const lineFit: LabelLineFit =
+      typeof rule === 'string' ? { policy: rule } : rule || {};
+    const policy = lineFit.policy ?? DEFAULT_LABEL_FIT[field].policy;
+    // Lines that only shrink by default still wrap when asked to
+    const defaultMaxLines =
+      policy === 'wrap' && DEFAULT_LABEL_FIT[field].policy !== 'wrap'
+        ? DEFAULT_FIT_MAX_LINES
+        : DEFAULT_LABEL_FIT[field].maxLines;
+    resolved[field] = {
+      policy,
+      maxLines: lineFit.maxLines ?? defaultMaxLines,
+      minScale: lineFit.minScale ?? DEFAULT_LABEL_FIT[field].minScale,
+    };
+  });
+  return resolved;
+}
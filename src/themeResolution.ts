@@ -0,0 +1,63 @@
+/**
+ * Theme resolution
+ *
+ * Merges themes and picks the theme for a color scheme from a `theme` prop.
+ * Free of React and the DOM, so it is shared by the disk components, the
+ * theme provider and the SVG renderer.
+ */
+
+import {
+  ColorScheme,
+  DARK_FLOPPY_THEME,
+  FloppyTheme,
+  FloppyThemeInput,
+  LIGHT_FLOPPY_THEME,
+} from './types';
+
+/**
+ * Merges a theme over another, including the nested `gradientOptions`
+ * @param base - Theme to start from
+ * @param override - Theme whose values win; undefined returns `base` as is
+ * @returns The merged theme
+ */
+export function mergeFloppyTheme(
+  base: FloppyTheme,
+  override: FloppyTheme | undefined,
+): FloppyTheme {
+  if (!override) return base;
+
+  const merged = { ...base, ...override };
+  if (base.gradientOptions && override.gradientOptions) {
+    merged.gradientOptions = {
+      ...base.gradientOptions,
+      ...override.gradientOptions,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Whether a `theme` prop depends on the color scheme ('auto' or a light/dark pair)
+ */
+export function isSchemeDependentTheme(
+  theme: FloppyThemeInput | undefined,
+): boolean {
+  return theme === 'auto' || (!!theme && 'light' in theme && 'dark' in theme);
+}
+
+/**
+ * Picks the theme for the current color scheme from a `theme` prop
+ * @param theme - A theme, a `{ light, dark }` pair or 'auto'
+ * @param colorScheme - Current color scheme
+ * @returns The theme to apply, or undefined if none was given
+ */
+export function resolveThemeInput(
+  theme: FloppyThemeInput | undefined,
+  colorScheme: ColorScheme,
+): FloppyTheme | undefined {
+  if (theme === 'auto') {
+    return colorScheme === 'dark' ? DARK_FLOPPY_THEME : LIGHT_FLOPPY_THEME;
+  }
+  if (theme && 'light' in theme && 'dark' in theme) return theme[colorScheme];
+  return theme;
+}
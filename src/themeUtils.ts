@@ -0,0 +1,472 @@
+/**
+ * Theme generation and validation
+ *
+ * Derives complete FloppyTheme objects from a single brand color, keeping
+ * the brand hue on every surface the way the built-in presets do, and checks
+ * themes for unreadable color combinations.
+ */
+
+import {
+  ColorVisionDeficiency,
+  formatColor,
+  isDeferredColor,
+  parseColor,
+  RgbaColor,
+} from './colorUtils';
+import {
+  getAdaptiveTextColor,
+  getColorLuminance,
+  getGradientContrast,
+  getWorstContrast,
+  sampleGradientColors,
+  WCAG_CONTRAST,
+  WcagLevel,
+} from './gradientUtils';
+import {
+  ColorScheme,
+  DARK_FLOPPY_THEME,
+  DEFAULT_THEME,
+  FloppyTheme,
+  FloppyThemePair,
+  LIGHT_FLOPPY_THEME,
+} from './types';
+
+/**
+ * Options for createFloppyTheme
+ */
+export interface CreateFloppyThemeOptions {
+  /**
+   * Scheme of the page the disks sit on; 'both' returns a `{ light, dark }`
+   * pair for the `theme` prop
+   * @default 'light'
+   */
+  colorScheme?: ColorScheme | 'both';
+  /** WCAG level the label text meets against the label paper @default 'AA' */
+  contrastLevel?: WcagLevel;
+}
+
+/**
+ * Return type of createFloppyTheme: a `{ light, dark }` pair for
+ * `colorScheme: 'both'`, otherwise a single theme
+ */
+export type CreatedFloppyTheme<Scheme extends ColorScheme | 'both'> =
+  Scheme extends 'both' ? FloppyThemePair : FloppyTheme;
+
+/**
+ * Saturation (0-1) and lightness (0-1) of a derived surface. Saturation is
+ * capped at the base color's own saturation, so grey brands stay grey.
+ */
+interface SurfaceTone {
+  saturation: number;
+  lightness: number;
+}
+
+// Surfaces per scheme, in the spirit of RETRO_THEME: a muted metal slide,
+// a pale (or deep) backdrop, lightly tinted label paper and ink in the
+// brand hue
+const SCHEME_TONES: Record<
+  ColorScheme,
+  Record<'slide' | 'background' | 'label' | 'text', SurfaceTone>
+> = {
+  light: {
+    slide: { saturation: 0.12, lightness: 0.72 },
+    background: { saturation: 0.4, lightness: 0.95 },
+    label: { saturation: 0.6, lightness: 0.97 },
+    text: { saturation: 0.5, lightness: 0.15 },
+  },
+  dark: {
+    slide: { saturation: 0.1, lightness: 0.42 },
+    background: { saturation: 0.3, lightness: 0.08 },
+    label: { saturation: 0.2, lightness: 0.18 },
+    text: { saturation: 0.3, lightness: 0.88 },
+  },
+};
+
+/**
+ * Converts sRGB channels to hue (degrees) and saturation and lightness (0-1)
+ */
+function rgbToHsl({ r, g, b }: RgbaColor): [number, number, number] {
+  const [red, green, blue] = [r, g, b].map((channel) => channel / 255);
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, lightness];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === red) hue = ((green - blue) / delta) % 6;
+  else if (max === green) hue = (blue - red) / delta + 2;
+  else hue = (red - green) / delta + 4;
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+}
+
+/**
+ * Builds the theme of one color scheme from a parsed base color
+ */
+function deriveTheme(
+  base: RgbaColor,
+  colorScheme: ColorScheme,
+  contrastLevel: WcagLevel,
+): FloppyTheme {
+  const [hue, saturation] = rgbToHsl(base);
+  const tones = SCHEME_TONES[colorScheme];
+  const surface = ({ saturation: maxSaturation, lightness }: SurfaceTone) => {
+    const s = Math.min(saturation, maxSaturation) * 100;
+    const color = parseColor(`hsl(${hue} ${s}% ${lightness * 100}%)`);
+    return color ? formatColor(color) : formatColor(base);
+  };
+
+  const labelColor = surface(tones.label);
+  // The most tinted text that meets the level; the preferred ink is used
+  // when it has at least that contrast
+  const minimumText = getAdaptiveTextColor([labelColor], {
+    level: contrastLevel,
+  });
+  const preferredText = surface(tones.text);
+  const labelTextColor =
+    getGradientContrast([labelColor], preferredText) >=
+    getGradientContrast([labelColor], minimumText)
+      ? preferredText
+      : minimumText;
+
+  return {
+    diskColor: formatColor({ ...base, a: 1 }),
+    slideColor: surface(tones.slide),
+    backgroundColor: surface(tones.background),
+    labelColor,
+    labelTextColor,
+    enableGradient: false,
+    gradientType: 'auto',
+  };
+}
+
+/**
+ * Derives a complete theme from one brand color: the disk body in the brand
+ * color, a metallic slide, a backdrop and label paper tinted with its hue,
+ * and label text that meets the requested WCAG contrast on the label.
+ *
+ * @param baseColor - Brand color in any CSS color syntax except `var()`; alpha is ignored
+ * @param options - Color scheme(s) to generate and the label text contrast level
+ * @returns A theme, or a `{ light, dark }` pair when `colorScheme` is 'both'
+ * @remarks This function does not throw errors. Colors that cannot be parsed trigger a console warning and return LIGHT_FLOPPY_THEME / DARK_FLOPPY_THEME.
+ *
+ * @example
+ * ```tsx
+ * const theme = createFloppyTheme('#e4572e', { colorScheme: 'both' });
+ * <FloppyDisk theme={theme} label={{ name: 'Brand Kit' }} />
+ * ```
+ */
+export function createFloppyTheme<
+  Scheme extends ColorScheme | 'both' = 'light',
+>(
+  baseColor: string,
+  options: CreateFloppyThemeOptions & { colorScheme?: Scheme } = {},
+): CreatedFloppyTheme<Scheme> {
+  const { colorScheme = 'light', contrastLevel = 'AA' } = options;
+  const base = parseColor(baseColor);
+  const result = (theme: FloppyTheme | FloppyThemePair) =>
+    theme as CreatedFloppyTheme<Scheme>;
+
+  if (!base) {
+    console.warn(
+      `FloppyDisk: Cannot create a theme from '${baseColor}'. Expected a CSS color without var() (e.g., '#e4572e' or 'oklch(65% 0.18 35)'). Using the built-in light and dark themes.`,
+    );
+    if (colorScheme === 'both') {
+      return result({ light: LIGHT_FLOPPY_THEME, dark: DARK_FLOPPY_THEME });
+    }
+    return result(
+      colorScheme === 'dark' ? DARK_FLOPPY_THEME : LIGHT_FLOPPY_THEME,
+    );
+  }
+
+  if (colorScheme === 'both') {
+    return result({
+      light: deriveTheme(base, 'light', contrastLevel),
+      dark: deriveTheme(base, 'dark', contrastLevel),
+    });
+  }
+  return result(deriveTheme(base, colorScheme, contrastLevel));
+}
+
+/**
+ * Options for validateFloppyTheme
+ */
+export interface ValidateFloppyThemeOptions {
+  /** WCAG level the label text must meet @default 'AA' */
+  level?: WcagLevel;
+  /** Use the large text thresholds (18pt, or 14pt bold) @default false */
+  largeText?: boolean;
+}
+
+/**
+ * Kind of problem found by validateFloppyTheme
+ * - 'invalid-color': a color string cannot be parsed
+ * - 'unresolved-color': a `var()` or `currentColor` color that only the browser can resolve; checks that need it are skipped
+ * - 'label-text-contrast': label text is below the WCAG text contrast on some part of the label
+ * - 'disk-background-contrast': the disk body is below the WCAG non-text contrast (3:1) against the background
+ */
+export type FloppyThemeDiagnosticCode =
+  | 'invalid-color'
+  | 'unresolved-color'
+  | 'label-text-contrast'
+  | 'disk-background-contrast';
+
+/**
+ * One problem found by validateFloppyTheme
+ */
+export interface FloppyThemeDiagnostic {
+  code: FloppyThemeDiagnosticCode;
+  /** Errors make the theme invalid; warnings do not */
+  severity: 'error' | 'warning';
+  /** Theme field concerned, e.g. 'labelTextColor' or 'gradientOptions.colors[1]' */
+  field: string;
+  /** Human-readable description */
+  message: string;
+  /** Measured (worst-case) contrast ratio, for contrast diagnostics */
+  contrast?: number;
+  /** Required contrast ratio, for contrast diagnostics */
+  required?: number;
+  /** Simulated color vision deficiency; absent for typical color vision */
+  colorVision?: ColorVisionDeficiency;
+}
+
+/**
+ * Result of validateFloppyTheme
+ */
+export interface FloppyThemeValidation {
+  /** Whether no error was found */
+  valid: boolean;
+  diagnostics: FloppyThemeDiagnostic[];
+}
+
+// WCAG 1.4.11 minimum contrast for user interface components
+const NON_TEXT_CONTRAST = 3;
+const COLOR_VISION_DEFICIENCIES: ColorVisionDeficiency[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+];
+const CSS_GRADIENT =
+  /^(?:repeating-)?(?:linear|radial|conic)-gradient\((.*)\)$/i;
+const COLOR_FIELDS = [
+  'diskColor',
+  'slideColor',
+  'backgroundColor',
+  'labelTextColor',
+] as const;
+
+/**
+ * Splits a CSS argument list at commas outside parentheses
+ */
+function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  Array.from(args).forEach((char) => {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  });
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Reads the color of a gradient color stop ("red 20%", "hsl(0 0% 50%) 10% 30%")
+ * @returns The color, or null if the stop has no valid color
+ */
+function parseColorStop(stop: string): string | null {
+  const tokens = stop.split(/\s+(?![^(]*\))/);
+  // Drop trailing positions until the rest is a color
+  for (let count = tokens.length; count > 0; count--) {
+    const color = tokens.slice(0, count).join(' ');
+    if (parseColor(color) || isDeferredColor(color)) return color;
+  }
+  return null;
+}
+
+/**
+ * Checks a theme for colors that cannot be parsed and for unreadable
+ * combinations, so broken themes can fail CI:
+ * - label text against the label paper, or against every point of a gradient
+ *   label (a CSS gradient `labelColor`, or `gradientOptions.colors` with
+ *   `enableGradient`, using the adaptive text color the disk would pick)
+ * - disk body against the background (WCAG non-text contrast, as a warning)
+ * - both of the above as seen with protanopia, deuteranopia and tritanopia,
+ *   when they pass with typical color vision
+ *
+ * The theme is merged over DEFAULT_THEME first, like a disk does. Gradients
+ * generated from the label name (`enableGradient` without colors) differ per
+ * label and are not checked.
+ *
+ * @param theme - Theme to check
+ * @param options - WCAG level and text size for the label text thresholds
+ * @returns Whether the theme has no errors, and every problem found
+ * @remarks This function does not throw errors or log warnings; all problems are returned as diagnostics.
+ *
+ * @example
+ * ```ts
+ * const { valid, diagnostics } = validateFloppyTheme(myTheme, { level: 'AA' });
+ * if (!valid) throw new Error(diagnostics.map((d) => d.message).join('\n'));
+ * ```
+ */
+export function validateFloppyTheme(
+  theme: FloppyTheme,
+  options: ValidateFloppyThemeOptions = {},
+): FloppyThemeValidation {
+  const { level = 'AA', largeText = false } = options;
+  const mergedTheme = { ...DEFAULT_THEME, ...theme };
+  const diagnostics: FloppyThemeDiagnostic[] = [];
+  const textContrast = WCAG_CONTRAST[level][largeText ? 1 : 0];
+
+  // Parses a color, reporting invalid and browser-resolved colors
+  const readColor = (field: string, color: string): RgbaColor | null => {
+    const parsed = parseColor(color);
+    if (parsed) return parsed;
+    diagnostics.push(
+      isDeferredColor(color)
+        ? {
+            code: 'unresolved-color',
+            severity: 'warning',
+            field,
+            message: `${field} '${color}' is resolved by the browser; its contrast is not checked.`,
+          }
+        : {
+            code: 'invalid-color',
+            severity: 'error',
+            field,
+            message: `${field} '${color}' is not a valid CSS color.`,
+          },
+    );
+    return null;
+  };
+
+  const colors: Partial<Record<(typeof COLOR_FIELDS)[number], RgbaColor>> = {};
+  COLOR_FIELDS.forEach((field) => {
+    const color = mergedTheme[field];
+    const parsed = color === undefined ? null : readColor(field, color);
+    if (parsed) colors[field] = parsed;
+  });
+
+  // Label background stops and the text drawn on them
+  let labelStops: RgbaColor[] | null = null;
+  let labelTextColor = colors.labelTextColor;
+  let labelField = 'labelColor';
+  const gradientColors = mergedTheme.gradientOptions?.colors;
+  if (mergedTheme.enableGradient && gradientColors?.length) {
+    labelField = 'gradientOptions.colors';
+    const stops = gradientColors.map((color, index) =>
+      readColor(`gradientOptions.colors[${index}]`, color),
+    );
+    if (stops.every(Boolean)) {
+      labelStops = stops as RgbaColor[];
+      labelTextColor =
+        parseColor(
+          getAdaptiveTextColor(gradientColors, {
+            level: mergedTheme.gradientOptions?.contrastLevel,
+          }),
+        ) ?? undefined;
+    }
+  } else if (mergedTheme.labelColor !== undefined) {
+    const gradient = mergedTheme.labelColor.trim().match(CSS_GRADIENT);
+    if (gradient) {
+      // The first argument may be a direction or shape rather than a stop
+      const args = splitArguments(gradient[1]);
+      const stops = args
+        .map(parseColorStop)
+        .filter((stop, index) => stop !== null || index > 0);
+      if (stops.some((stop) => stop === null)) {
+        diagnostics.push({
+          code: 'invalid-color',
+          severity: 'error',
+          field: 'labelColor',
+          message: `labelColor '${mergedTheme.labelColor}' has a color stop that is not a valid CSS color.`,
+        });
+      } else {
+        const parsed = (stops as string[]).map((stop) =>
+          readColor('labelColor', stop),
+        );
+        if (parsed.every(Boolean)) labelStops = parsed as RgbaColor[];
+      }
+    } else {
+      const parsed = readColor('labelColor', mergedTheme.labelColor);
+      if (parsed) labelStops = [parsed];
+    }
+  }
+
+  // Reports contrast below `required` with typical color vision, or else
+  // with each simulated deficiency, so one problem is not reported four times
+  const checkContrast = (
+    diagnostic: Pick<FloppyThemeDiagnostic, 'code' | 'severity' | 'field'>,
+    color: RgbaColor,
+    against: RgbaColor[],
+    required: number,
+    describe: (contrast: string, seenWith: string) => string,
+  ) => {
+    const failing = (colorVision?: ColorVisionDeficiency) => {
+      const contrast = getWorstContrast(
+        color,
+        against.map((other) => getColorLuminance(other, colorVision)),
+        colorVision,
+      );
+      if (contrast >= required) return [];
+      const seenWith = colorVision ? ` with ${colorVision}` : '';
+      return [
+        {
+          ...diagnostic,
+          message: describe(contrast.toFixed(2), seenWith),
+          contrast,
+          required,
+          ...(colorVision && { colorVision }),
+        },
+      ];
+    };
+
+    const typical = failing();
+    diagnostics.push(
+      ...(typical.length > 0
+        ? typical
+        : COLOR_VISION_DEFICIENCIES.reduce<FloppyThemeDiagnostic[]>(
+            (found, colorVision) => [...found, ...failing(colorVision)],
+            [],
+          )),
+    );
+  };
+
+  if (labelStops && labelTextColor) {
+    checkContrast(
+      { code: 'label-text-contrast', severity: 'error', field: labelField },
+      labelTextColor,
+      sampleGradientColors(labelStops),
+      textContrast,
+      (contrast, seenWith) =>
+        `Label text contrast is ${contrast}:1${seenWith}; WCAG ${level} requires ${textContrast}:1.`,
+    );
+  }
+
+  if (colors.diskColor && colors.backgroundColor) {
+    checkContrast(
+      {
+        code: 'disk-background-contrast',
+        severity: 'warning',
+        field: 'diskColor',
+      },
+      colors.diskColor,
+      [colors.backgroundColor],
+      NON_TEXT_CONTRAST,
+      (contrast, seenWith) =>
+        `Disk to background contrast is ${contrast}:1${seenWith}; ${NON_TEXT_CONTRAST}:1 is recommended for the disk to stand out.`,
+    );
+  }
+
+  return {
+    valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+    diagnostics,
+  };
+}
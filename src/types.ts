@@ -1,4 +1,9 @@
 import React from 'react';
+import { BuiltInFormFactor } from './formFactors';
+import { BuiltInLabelTemplate } from './labelTemplates';
+import { LabelFitPolicy } from './textFit';
+import { FloppyDragPayload } from './dragAndDrop';
+import { WcagLevel } from './gradientUtils';
 
 /**
  * Size of the floppy disk component
@@ -13,6 +18,26 @@ export type FloppySize =
   | 'hero'
   | number;
 
+/**
+ * Size of a single disk component: a FloppySize, or 'fluid' to fill the
+ * content width of the parent element (within `minSize` and `maxSize`)
+ */
+export type FloppyDiskSize = FloppySize | 'fluid';
+
+/**
+ * Physical media form factor
+ * - Built-in: '3.5' (default), '5.25', '8', 'zip', 'cassette'
+ * - Custom: any id registered with registerFormFactor()
+ */
+export type FormFactor = BuiltInFormFactor | (string & {});
+
+/**
+ * Layout of the label paper
+ * - Built-in: 'classic' (default), 'printed', 'typewriter', 'handwritten', 'ruled'
+ * - Custom: any id registered with registerLabelTemplate()
+ */
+export type LabelTemplate = BuiltInLabelTemplate | (string & {});
+
 /**
  * Interaction variant for the floppy disk
  * - 'interactive': Full hover animations and interactions (default)
@@ -21,6 +46,13 @@ export type FloppySize =
  */
 export type FloppyVariant = 'interactive' | 'static' | 'compact';
 
+/**
+ * Visible side of the disk
+ * - 'front': label side with the metal slide (default)
+ * - 'back': hub side with the write-protect and density holes
+ */
+export type FloppySide = 'front' | 'back';
+
 /**
  * Disk type
  * - 'HD': High Density (1.44 MB)
@@ -28,6 +60,44 @@ export type FloppyVariant = 'interactive' | 'static' | 'compact';
  */
 export type DiskType = 'HD' | 'DD';
 
+/**
+ * How a label image shares the label with the text
+ * - 'cover': fills the whole label behind the text, cropped as needed (box art)
+ * - 'contain': scaled to fit a band above or below the text lines
+ * - 'icon-left': small square icon to the left of the text lines (logos)
+ */
+export type LabelImageFit = 'cover' | 'contain' | 'icon-left';
+
+/**
+ * Side of the text lines a 'contain' label image sits on
+ */
+export type LabelImagePosition = 'top' | 'bottom';
+
+/**
+ * Text line of the classic label, used by `labelFit` and `editable`
+ */
+export type LabelTextField = 'name' | 'author' | 'year';
+
+/**
+ * Fitting rules for one label line
+ */
+export interface LabelLineFit {
+  /** How text that does not fit is handled */
+  policy?: LabelFitPolicy;
+  /** Maximum number of lines for the 'wrap' policy @default 2 */
+  maxLines?: number;
+  /** Smallest font scale for 'fit' and 'wrap', relative to the natural size @default 0.5 */
+  minScale?: number;
+}
+
+/**
+ * Text fitting of the classic label lines: one policy for all lines, or
+ * per-line policies or rules. Lines that are not listed keep their default.
+ */
+export type LabelFit =
+  | LabelFitPolicy
+  | Partial<Record<LabelTextField, LabelFitPolicy | LabelLineFit>>;
+
 /**
  * Label data for the floppy disk
  */
@@ -38,12 +108,28 @@ export interface FloppyLabel {
   author?: string;
   /** Year of release (displayed in bottom right corner) */
   year?: string;
-  /** Description or additional info (not displayed, for metadata) */
+  /** Description or additional info (displayed on the back side) */
   description?: string;
   /** Disk type label (e.g., "ZIP", "DISK") - displayed on metal slide */
   type?: string;
   /** Storage capacity (e.g., "1.44 MB", "880 KB") - displayed on metal slide */
   size?: string;
+  /**
+   * Box art or logo on the front label: an image URL or any React node
+   * (e.g. an inline SVG). Shown on the 'classic' label template.
+   */
+  image?: React.ReactNode;
+  /** How the image shares the label with the text @default 'contain' */
+  imageFit?: LabelImageFit;
+  /** Where a 'contain' image sits relative to the text lines @default 'top' */
+  imagePosition?: LabelImagePosition;
+  /** Alternative text for an image URL @default '' (decorative) */
+  imageAlt?: string;
+  /**
+   * Shown in place of an image URL that fails to load. Without a fallback the
+   * label falls back to the text-only layout.
+   */
+  imageFallback?: React.ReactNode;
 }
 
 /**
@@ -52,8 +138,12 @@ export interface FloppyLabel {
 export interface AnimationConfig {
   /** Hover animation duration in milliseconds @default 500 */
   hoverDuration?: number;
-  /** Slide animation duration in milliseconds @default 500 */
+  /** Slide (shutter) animation duration in milliseconds @default 300 */
   slideDuration?: number;
+  /** Flip animation duration in milliseconds @default 600 */
+  flipDuration?: number;
+  /** FloppyDrive insert/eject animation duration in milliseconds @default 600 */
+  insertDuration?: number;
   /** Animation easing function @default 'linear' */
   easing?: string;
   /** Disable all animations @default false */
@@ -66,26 +156,33 @@ export interface AnimationConfig {
 export interface GradientOptions {
   /** Custom seed for gradient generation (overrides label name seed) */
   seed?: number;
-  /** Custom color palette (array of HSL or hex colors) */
+  /** Custom color palette (array of CSS colors, e.g. HSL or hex) */
   colors?: string[];
   /** Gradient angle for linear gradients (0-360 degrees) */
   angle?: number;
+  /**
+   * WCAG level ('AA' or 'AAA') the label text must meet against every point
+   * of the gradient. The text is then tinted with the gradient's color
+   * instead of plain black or white. @default undefined (black or white)
+   */
+  contrastLevel?: WcagLevel;
 }
 
 /**
  * Color theme for the floppy disk
- * All colors should be in hex format (e.g., "#2a2a2a" or "#fff")
+ * Colors accept any CSS color: hex (e.g., "#2a2a2a" or "#fff"), rgb(), hsl(),
+ * hwb(), lab(), lch(), oklab(), oklch(), named colors or `var()` references
  */
 export interface FloppyTheme {
-  /** Main disk body color (hex format) */
+  /** Main disk body color; its highlight and shadow shades are derived from it */
   diskColor?: string;
-  /** Metal slide color (hex format) */
+  /** Metal slide color */
   slideColor?: string;
-  /** Background/cutout color (hex format) */
+  /** Background/cutout color */
   backgroundColor?: string;
-  /** Label paper color (hex format) */
+  /** Label paper color */
   labelColor?: string;
-  /** Label text color (hex format) */
+  /** Label text color */
   labelTextColor?: string;
   /** Enable dynamic gradient backgrounds for the label (default: false) */
   enableGradient?: boolean;
@@ -99,21 +196,73 @@ export interface FloppyTheme {
   gradientOptions?: GradientOptions;
 }
 
+/**
+ * Color scheme of the page
+ */
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * Themes for the light and dark color schemes
+ */
+export interface FloppyThemePair {
+  light: FloppyTheme;
+  dark: FloppyTheme;
+}
+
+/**
+ * Value of a disk's `theme` prop
+ * - FloppyTheme: one theme for both color schemes
+ * - `{ light, dark }`: switches with `prefers-color-scheme`, or with the
+ *   nearest `data-theme="light"` / `data-theme="dark"` ancestor
+ * - 'auto': the same with LIGHT_FLOPPY_THEME and DARK_FLOPPY_THEME
+ *
+ * Server rendering and the first client render use the light theme.
+ */
+export type FloppyThemeInput = FloppyTheme | FloppyThemePair | 'auto';
+
 /**
  * Props for the FloppyDisk component
  */
 export interface FloppyDiskProps {
   /**
-   * Size of the floppy disk. Predefined sizes or custom pixel value.
+   * Size of the floppy disk. Predefined sizes, custom pixel value, or
+   * 'fluid' to fill the width of the parent element. A fluid disk renders at
+   * the 'medium' size until it is measured (e.g. during server rendering).
    * @default 'medium'
    */
-  size?: FloppySize;
+  size?: FloppyDiskSize;
+
+  /**
+   * Smallest size in pixels of a fluid disk
+   * @default 60
+   */
+  minSize?: number;
+
+  /**
+   * Largest size in pixels of a fluid disk
+   * @default Infinity
+   */
+  maxSize?: number;
 
   /**
    * Structured label data for the disk
    */
   label?: FloppyLabel;
 
+  /**
+   * Physical media form factor. Aspect ratio, outline, shutter, decals and
+   * label area are read from the form factor registry.
+   * @default '3.5'
+   */
+  formFactor?: FormFactor;
+
+  /**
+   * Label layout: which fields appear where, in which font and alignment.
+   * Templates are read from the label template registry.
+   * @default 'classic'
+   */
+  labelTemplate?: LabelTemplate;
+
   /**
    * Disk type: HD (High Density) or DD (Double Density)
    * @default 'HD'
@@ -127,9 +276,10 @@ export interface FloppyDiskProps {
   capacity?: string;
 
   /**
-   * Color theme customization. Merges with default theme.
+   * Color theme customization. Merges with default theme. Pass
+   * `{ light, dark }` or 'auto' to follow the page's color scheme.
    */
-  theme?: FloppyTheme;
+  theme?: FloppyThemeInput;
 
   /**
    * Animation configuration. Customize timing and easing.
@@ -174,9 +324,133 @@ export interface FloppyDiskProps {
   enableSlideHover?: boolean;
 
   /**
-   * Click handler - called when disk is clicked
+   * Whether the metal slide (shutter) is open. When controlled, hover, the
+   * O key and taps on the slide only request changes via onSlideOpenChange.
+   * Only the built-in 3.5" form factor animates its shutter.
+   */
+  slideOpen?: boolean;
+
+  /**
+   * Initial slide state when `slideOpen` is not controlled
+   * @default false
+   */
+  defaultSlideOpen?: boolean;
+
+  /**
+   * Slide change handler - called when the slide opens or closes by hover,
+   * keyboard (O key) or touch
+   * @param isOpen - The requested slide state
+   */
+  onSlideOpenChange?: (isOpen: boolean) => void;
+
+  /**
+   * Visible side of the disk (controlled). Use with onSideChange.
+   */
+  side?: FloppySide;
+
+  /**
+   * Initially visible side when `side` is not controlled
+   * @default 'front'
+   */
+  defaultSide?: FloppySide;
+
+  /**
+   * Enable flipping with a 3D animation. When true, pressing "F" while the
+   * disk is focused flips it over.
+   * @default false
+   */
+  flippable?: boolean;
+
+  /**
+   * Side change handler - called when the disk is flipped
+   * @param side - The side that is now visible
+   */
+  onSideChange?: (side: FloppySide) => void;
+
+  /**
+   * Whether the write-protect tab is open (disk is read-only). Providing this
+   * prop, defaultWriteProtected or onWriteProtectChange turns the lock hole
+   * into an interactive switch. Pressing "W" while the disk is focused
+   * toggles it too.
+   */
+  writeProtected?: boolean;
+
+  /**
+   * Initial write-protect state when `writeProtected` is not controlled
+   */
+  defaultWriteProtected?: boolean;
+
+  /**
+   * Write-protect change handler - called when the tab is toggled by click or keyboard
+   * @param writeProtected - The requested write-protect state
+   */
+  onWriteProtectChange?: (writeProtected: boolean) => void;
+
+  /**
+   * How the name, author and year lines fit long text on the classic label.
+   * The name wraps onto two lines and shrinks; author and year shrink to fit
+   * and are truncated with an ellipsis at half their size.
+   * @default { name: 'wrap', author: 'fit', year: 'fit' }
+   */
+  labelFit?: LabelFit;
+
+  /**
+   * Let users rename the disk in place: double-click, F2 or Enter turns the
+   * name, author and year into text fields on the classic label. Enter saves,
+   * Escape cancels and moving focus away saves. While editable, Enter and
+   * double-click start editing instead of calling `onClick` / `onDoubleClick`
+   * (Space still clicks).
+   * @default false
+   */
+  editable?: boolean;
+
+  /**
+   * Label change handler - called when an edit is saved with changes. The disk
+   * keeps showing `label` until the parent passes the new label.
+   * @param nextLabel - The label with the edited name, author and year
+   */
+  onLabelChange?: (nextLabel: FloppyLabel) => void;
+
+  /**
+   * Maximum number of characters per editable field
+   * @default { name: 40, author: 40, year: 10 }
+   */
+  labelMaxLength?: Partial<Record<LabelTextField, number>>;
+
+  /**
+   * Allow dragging the disk to a FloppyDropZone: HTML5 drag-and-drop for
+   * mouse, pointer events for touch/pen, Ctrl/Cmd+Enter to pick up with the
+   * keyboard. Draggable disks disable touch scrolling on themselves.
+   * @default false
+   */
+  draggable?: boolean;
+
+  /**
+   * Custom data carried in the drag payload alongside the label and `data-disk-id`
+   */
+  dragData?: unknown;
+
+  /**
+   * Drag start handler
+   * @param payload - The payload carried by the drag
+   */
+  onDragStart?: (payload: FloppyDragPayload) => void;
+
+  /**
+   * Drag end handler - called after a drop, a cancelled drag or Escape
+   * @param payload - The payload carried by the drag
+   * @param dropped - Whether a drop zone accepted the disk
+   */
+  onDragEnd?: (payload: FloppyDragPayload, dropped: boolean) => void;
+
+  /**
+   * Click handler - called when disk is clicked or activated with Enter/Space
+   * @param event - The click, or the keyboard event for Enter/Space, so
+   * handlers can read modifier keys (see useFloppySelection)
    */
-  onClick?: () => void;
+  onClick?: (
+    event: React.MouseEvent<HTMLElement> | React.KeyboardEvent<HTMLElement>,
+  ) => void;
 
   /**
    * Double-click handler - called when disk is double-clicked
@@ -230,6 +504,517 @@ export interface FloppyDiskProps {
    * Accessible label for screen readers. If not provided, auto-generated from label data.
    */
   ariaLabel?: string;
+
+  /**
+   * Tab index override for collections that manage focus themselves
+   * (roving tabindex). The write-protect switch then leaves the tab order.
+   * @default 0, or -1 when disabled
+   */
+  tabIndex?: number;
+
+  /**
+   * ARIA role override, e.g. 'gridcell' or 'option' inside a collection
+   * @default 'button', or 'group' when the write-protect switch is shown
+   */
+  role?: 'button' | 'gridcell' | 'option';
+
+  /**
+   * Selection state announced by collections (grid cells, listbox options)
+   */
+  'aria-selected'?: boolean;
+
+  /**
+   * Position in the full collection, for virtualized lists that only mount
+   * some of their options
+   */
+  'aria-posinset'?: number;
+
+  /**
+   * Size of the full collection, for virtualized lists
+   */
+  'aria-setsize'?: number;
+}
+
+/**
+ * Props for the FloppyDisk525 component
+ *
+ * Shares label, theme, size, state, interaction and collection (tabIndex,
+ * role, aria-*) props with FloppyDisk so mixed collections look consistent.
+ * The 5.25" jacket has no metal slide, back side, write-protect tab or drag
+ * support, the form factor is fixed and labels are not editable. `diskType`
+ * selects the default capacity: HD (1.2 MB) or DD (360 KB).
+ */
+export type FloppyDisk525Props = Omit<
+  FloppyDiskProps,
+  | 'enableSlideHover'
+  | 'slideOpen'
+  | 'defaultSlideOpen'
+  | 'onSlideOpenChange'
+  | 'side'
+  | 'defaultSide'
+  | 'flippable'
+  | 'onSideChange'
+  | 'writeProtected'
+  | 'defaultWriteProtected'
+  | 'onWriteProtectChange'
+  | 'formFactor'
+  | 'labelTemplate'
+  | 'labelFit'
+  | 'editable'
+  | 'onLabelChange'
+  | 'labelMaxLength'
+  | 'draggable'
+  | 'dragData'
+  | 'onDragStart'
+  | 'onDragEnd'
+>;
+
+/**
+ * Layout of a FloppyShelf
+ * - 'grid': responsive rows of disks (ARIA grid)
+ * - 'list': a single column of compact disks (ARIA listbox)
+ */
+export type FloppyShelfLayout = 'grid' | 'list';
+
+/**
+ * A disk in a FloppyShelf: FloppyDisk props plus a stable id.
+ * Focus-related props are managed by the shelf.
+ */
+export interface FloppyShelfItem
+  extends Omit<
+    FloppyDiskProps,
+    'tabIndex' | 'role' | 'aria-selected' | 'aria-posinset' | 'aria-setsize'
+  > {
+  /** Unique id, used as React key and as the default `data-disk-id` */
+  id: string;
+}
+
+/**
+ * Props for the FloppyShelf component
+ */
+export interface FloppyShelfProps {
+  /**
+   * Disks to display, in reading order
+   */
+  items: FloppyShelfItem[];
+
+  /**
+   * Grid or list layout
+   * @default 'grid'
+   */
+  layout?: FloppyShelfLayout;
+
+  /**
+   * Size of every disk on the shelf
+   * @default the FloppyThemeProvider size, else 'medium' for grid and 'tiny' for list
+   */
+  size?: FloppySize;
+
+  /**
+   * Fixed number of grid columns. When omitted, the grid fills the available
+   * width and the column count is measured from the rendered layout.
+   */
+  columns?: number;
+
+  /**
+   * Rows moved by PageUp / PageDown
+   * @default 3
+   */
+  pageRows?: number;
+
+  /**
+   * Id of the item holding the single tab stop (controlled)
+   */
+  activeId?: string;
+
+  /**
+   * Initial active item when `activeId` is not controlled
+   * @default first item
+   */
+  defaultActiveId?: string;
+
+  /**
+   * Called when keyboard navigation, type-ahead or a click moves the tab stop
+   * @param id - Id of the newly active item
+   */
+  onActiveChange?: (id: string) => void;
+
+  /**
+   * Keydown handler for the shelf, called before its own navigation and
+   * type-ahead. Call `event.preventDefault()` to skip the shelf's handling.
+   */
+  onKeyDown?: React.KeyboardEventHandler<HTMLElement>;
+
+  /**
+   * Announces that several disks can be selected. Every disk then reports
+   * `aria-selected`, selected or not.
+   */
+  'aria-multiselectable'?: boolean;
+
+  /**
+   * Additional CSS class name to apply to the root element
+   * @default ''
+   */
+  className?: string;
+
+  /**
+   * Inline styles for the root element
+   */
+  style?: React.CSSProperties;
+
+  /**
+   * Test ID for testing libraries (e.g., data-testid)
+   */
+  'data-testid'?: string;
+
+  /**
+   * Accessible label for the shelf
+   * @default 'Disk shelf'
+   */
+  ariaLabel?: string;
+}
+
+/**
+ * Props for the FloppyVirtualShelf component
+ */
+export interface FloppyVirtualShelfProps
+  extends Omit<FloppyShelfProps, 'pageRows'> {
+  /**
+   * Height of the scrolling viewport (number in pixels or any CSS length).
+   * When omitted, size the viewport with `className` or `style`.
+   */
+  height?: number | string;
+
+  /**
+   * Space between disks in pixels
+   * @default 30 for grid, 10 for list
+   */
+  gap?: number;
+
+  /**
+   * Rows rendered above and below the visible area
+   * @default 2
+   */
+  overscanRows?: number;
+
+  /**
+   * Rows moved by PageUp / PageDown
+   * @default rows visible in the viewport
+   */
+  pageRows?: number;
+
+  /**
+   * Remembers the scroll position under this key while the page is open, and
+   * restores it when a shelf with the same key mounts again
+   */
+  scrollRestorationKey?: string;
+}
+
+/**
+ * Arrangement of a FloppyStack
+ * - `stack`: disks lying on top of each other
+ * - `box`: disks standing in a storage box, peeking out of the top
+ */
+export type FloppyStackLayout = 'stack' | 'box';
+
+/**
+ * A disk in a FloppyStack: FloppyDisk props plus a stable id
+ */
+export type FloppyStackItem = FloppyShelfItem;
+
+/**
+ * Props for the FloppyStack component
+ */
+export interface FloppyStackProps {
+  /**
+   * Disks in the stack, from bottom (or back of the box) to top
+   */
+  disks: FloppyStackItem[];
+
+  /**
+   * Pile of disks or storage box
+   * @default 'stack'
+   */
+  layout?: FloppyStackLayout;
+
+  /**
+   * Size of every disk in the stack
+   * @default the FloppyThemeProvider size, else 'medium'
+   */
+  size?: FloppySize;
+
+  /**
+   * Seed for the offset and rotation of each disk. A disk keeps its place in
+   * the pile when others are added or removed.
+   * @default derived from each disk's id
+   */
+  seed?: number;
+
+  /**
+   * Fans the disks out (true) or keeps them piled (false). When omitted,
+   * the stack fans out on hover and while a disk has focus.
+   */
+  expanded?: boolean;
+
+  /**
+   * Id of the disk on top of the stack (controlled)
+   */
+  topId?: string;
+
+  /**
+   * Initial top disk when `topId` is not controlled
+   * @default last disk
+   */
+  defaultTopId?: string;
+
+  /**
+   * Called when a click or the arrow keys bring another disk to the top
+   * @param id - Id of the new top disk
+   */
+  onTopChange?: (id: string) => void;
+
+  /**
+   * Theme shared by the box and its disks; a disk's own `theme` replaces it
+   * @default DEFAULT_THEME
+   */
+  theme?: FloppyTheme;
+
+  /**
+   * Animation configuration for the stack and its disks (a disk's own
+   * `animation` replaces it); the fan follows `hoverDuration`
+   * @default {}
+   */
+  animation?: AnimationConfig;
+
+  /**
+   * Additional CSS class name to apply to the root element
+   * @default ''
+   */
+  className?: string;
+
+  /**
+   * Inline styles for the root element
+   */
+  style?: React.CSSProperties;
+
+  /**
+   * Test ID for testing libraries (e.g., data-testid)
+   */
+  'data-testid'?: string;
+
+  /**
+   * Accessible label for the stack
+   * @default 'Disk stack'
+   */
+  ariaLabel?: string;
+}
+
+/**
+ * Props for the FloppyDropZone component
+ */
+export interface FloppyDropZoneProps {
+  /**
+   * Called when a disk is dropped on the zone (mouse, touch or keyboard)
+   * @param payload - Label, `data-disk-id` and `dragData` of the dropped disk
+   */
+  onDiskDrop?: (payload: FloppyDragPayload) => void;
+
+  /**
+   * Filter for dropped payloads. Rejected drops end as cancelled drags.
+   * HTML5 drags only expose the payload on drop, so hover highlighting
+   * applies to any disk.
+   */
+  accepts?: (payload: FloppyDragPayload) => boolean;
+
+  /**
+   * Hover change handler - called when a dragged disk enters or leaves the zone
+   * @param isHovered - true when a disk is over the zone
+   */
+  onDragHoverChange?: (isHovered: boolean) => void;
+
+  /**
+   * Whether the zone is disabled (ignores drops)
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Zone content (e.g., a shelf of disks, a trash can icon)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS class name to apply to the root element
+   * @default ''
+   */
+  className?: string;
+
+  /**
+   * Inline styles for the root element
+   */
+  style?: React.CSSProperties;
+
+  /**
+   * Test ID for testing libraries (e.g., data-testid)
+   */
+  'data-testid'?: string;
+
+  /**
+   * Accessible label for the zone
+   * @default 'Drop zone'
+   */
+  ariaLabel?: string;
+}
+
+/**
+ * Props for the FloppyDrive component
+ */
+export interface FloppyDriveProps {
+  /**
+   * Size of the disks the drive accepts; the drive face is slightly wider
+   * @default the FloppyThemeProvider size, else 'medium'
+   */
+  size?: FloppySize;
+
+  /**
+   * Disk data to render as a FloppyDisk in the drive. Ignored when a
+   * FloppyDisk child is passed.
+   */
+  disk?: FloppyDiskProps;
+
+  /**
+   * A FloppyDisk element to render in the drive
+   */
+  children?: React.ReactElement<FloppyDiskProps>;
+
+  /**
+   * Identifier passed to onInsert/onEject. Falls back to the disk's
+   * `data-disk-id`, then its label name.
+   */
+  diskId?: string;
+
+  /**
+   * Whether the disk is inserted. Clicking the protruding disk or the eject
+   * button only requests changes via onInsertedChange when controlled.
+   */
+  inserted?: boolean;
+
+  /**
+   * Initial inserted state when `inserted` is not controlled
+   * @default false
+   */
+  defaultInserted?: boolean;
+
+  /**
+   * Called when the user clicks the disk (insert) or the eject button
+   * @param inserted - The requested inserted state
+   */
+  onInsertedChange?: (inserted: boolean) => void;
+
+  /**
+   * Called once the insert animation has finished
+   * @param diskId - Identifier of the inserted disk
+   */
+  onInsert?: (diskId: string) => void;
+
+  /**
+   * Called once the eject animation has finished
+   * @param diskId - Identifier of the ejected disk
+   */
+  onEject?: (diskId: string) => void;
+
+  /**
+   * Lights the activity LED, e.g. while the app loads the inserted project
+   * @default false
+   */
+  busy?: boolean;
+
+  /**
+   * Whether the drive is disabled (no insert or eject)
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Colors for the drive bezel (uses diskColor, backgroundColor and slideColor)
+   */
+  theme?: FloppyTheme;
+
+  /**
+   * Animation configuration (insertDuration, easing, disableAnimations)
+   */
+  animation?: AnimationConfig;
+
+  /**
+   * Additional CSS class name to apply to the root element
+   * @default ''
+   */
+  className?: string;
+
+  /**
+   * Inline styles for the root element
+   */
+  style?: React.CSSProperties;
+
+  /**
+   * Test ID for testing libraries (e.g., data-testid)
+   */
+  'data-testid'?: string;
+
+  /**
+   * Accessible label for the drive
+   * @default 'Floppy drive'
+   */
+  ariaLabel?: string;
+}
+
+/**
+ * Disk defaults supplied by FloppyThemeProvider, as resolved by useFloppyTheme()
+ */
+export interface FloppyThemeSettings {
+  /** Theme merged over DEFAULT_THEME and every enclosing provider */
+  theme: FloppyTheme;
+  /** Animation settings merged over every enclosing provider */
+  animation: AnimationConfig;
+  /** Default disk size @default 'medium' */
+  size: FloppyDiskSize;
+  /** Default disk variant @default 'interactive' */
+  variant: FloppyVariant;
+}
+
+/**
+ * Props for the FloppyThemeProvider component
+ */
+export interface FloppyThemeProviderProps {
+  /**
+   * Theme for every disk beneath the provider. Deep-merged over the theme of
+   * an enclosing provider (including `gradientOptions`); a disk's own `theme`
+   * prop is merged over it in turn. `{ light, dark }` and 'auto' follow the
+   * page's color scheme.
+   */
+  theme?: FloppyThemeInput;
+
+  /**
+   * Animation settings, merged over those of an enclosing provider and
+   * under a disk's own `animation` prop
+   */
+  animation?: AnimationConfig;
+
+  /**
+   * Default size for disks without a `size` prop, and for collections
+   * without one unless it is 'fluid'
+   */
+  size?: FloppyDiskSize;
+
+  /**
+   * Default variant for disks without a `variant` prop
+   */
+  variant?: FloppyVariant;
+
+  /**
+   * Disks and other content
+   */
+  children?: React.ReactNode;
 }
 
 /**
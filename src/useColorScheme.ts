@@ -0,0 +1,111 @@
+import { RefObject, useLayoutEffect, useState } from 'react';
+import { ColorScheme } from './types';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+// Nearest explicit color scheme set by the app, e.g. <html data-theme="dark">
+const EXPLICIT_SCHEME_SELECTOR = '[data-theme="light"], [data-theme="dark"]';
+// Rendered on the server and in the first client render, so hydration matches
+const INITIAL_SCHEME: ColorScheme = 'light';
+
+const listeners = new Set<() => void>();
+let stopWatching: (() => void) | null = null;
+
+/**
+ * Watches `prefers-color-scheme` and `data-theme` attributes once for all
+ * subscribed components
+ */
+function startWatching(): () => void {
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const query =
+    typeof window.matchMedia === 'function'
+      ? window.matchMedia(DARK_SCHEME_QUERY)
+      : null;
+  if (query?.addEventListener) query.addEventListener('change', notify);
+  else if (query) query.addListener(notify); // Safari < 14
+
+  const MutationObserverClass = window.MutationObserver;
+  const observer =
+    typeof MutationObserverClass === 'function'
+      ? new MutationObserverClass(notify)
+      : null;
+  if (observer) {
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['data-theme'],
+      subtree: true,
+    });
+  }
+
+  return () => {
+    if (query?.removeEventListener) query.removeEventListener('change', notify);
+    else if (query) query.removeListener(notify);
+    if (observer) observer.disconnect();
+  };
+}
+
+/**
+ * Subscribes to color scheme changes
+ * @returns Unsubscribe function
+ */
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!stopWatching) stopWatching = startWatching();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stopWatching) {
+      stopWatching();
+      stopWatching = null;
+    }
+  };
+}
+
+/**
+ * Reads the color scheme for an element: the nearest `data-theme="light"` or
+ * `data-theme="dark"` ancestor (or the element itself), otherwise the
+ * `prefers-color-scheme` media query
+ */
+function readColorScheme(element: HTMLElement | null): ColorScheme {
+  const explicit = (element || document.documentElement)
+    .closest(EXPLICIT_SCHEME_SELECTOR)
+    ?.getAttribute('data-theme');
+  if (explicit === 'light' || explicit === 'dark') return explicit;
+
+  return typeof window.matchMedia === 'function' &&
+    window.matchMedia(DARK_SCHEME_QUERY).matches
+    ? 'dark'
+    : 'light';
+}
+
+/**
+ * Follows the color scheme of the page for `theme="auto"` and
+ * `theme={{ light, dark }}`.
+ *
+ * An explicit `data-theme="light"` or `data-theme="dark"` on an ancestor wins
+ * over the `prefers-color-scheme` media query. The server and the first
+ * client render use the light scheme, so hydration matches; the actual scheme
+ * is applied in a layout effect, before the browser paints.
+ *
+ * @param elementRef - Element whose ancestors are searched for `data-theme`; without one, only the document element is checked
+ * @param enabled - Watch only while true, i.e. when the theme depends on the scheme
+ * @returns The current color scheme
+ * @remarks This hook does not throw errors. Without matchMedia the scheme is light unless set with `data-theme`.
+ */
+export function useColorScheme(
+  elementRef: RefObject<HTMLElement | null> | null,
+  enabled: boolean,
+): ColorScheme {
+  const [colorScheme, setColorScheme] = useState<ColorScheme>(INITIAL_SCHEME);
+
+  useLayoutEffect(() => {
+    if (!enabled) return undefined;
+
+    const update = () =>
+      setColorScheme(readColorScheme(elementRef?.current ?? null));
+    update();
+    return subscribe(update);
+  }, [enabled, elementRef]);
+
+  return colorScheme;
+}
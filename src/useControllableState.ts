@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * State that can be either controlled by a prop or managed internally.
+ *
+ * When `value` is defined the component is controlled: the returned state is
+ * always `value`, and updates only call `onChange`. Otherwise the hook keeps
+ * its own state, initialized from `defaultValue`, and still calls `onChange`.
+ *
+ * @param value - Controlled value (undefined for uncontrolled)
+ * @param defaultValue - Initial value when uncontrolled
+ * @param onChange - Called with the next value whenever it changes
+ * @returns Tuple of the current value and a setter
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (next: T) => void,
+): [T, (next: T) => void] {
+  const [internalValue, setInternalValue] = useState<T>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  const setValue = useCallback(
+    (next: T) => {
+      if (Object.is(next, currentValue)) return;
+      if (!isControlled) setInternalValue(next);
+      if (onChange) onChange(next);
+    },
+    [currentValue, isControlled, onChange],
+  );
+
+  return [currentValue, setValue];
+}
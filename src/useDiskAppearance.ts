@@ -0,0 +1,168 @@
+import { CSSProperties, useMemo } from 'react';
+import {
+  AnimationConfig,
+  FloppyDiskSize,
+  FloppyLabel,
+  FloppyTheme,
+  SIZE_MAP,
+  DEFAULT_THEME,
+} from './types';
+import { generateLabelGradient, GradientConfig } from './gradientUtils';
+import { lightenColor, darkenColor } from './colorUtils';
+
+// Constants shared by all disk components
+const BORDER_THICKNESS_DIVISOR = 200;
+const BORDER_THICKNESS_MIN = 1;
+const SIZE_WARNING_MIN = 10;
+const SIZE_WARNING_MAX = 1000;
+const COLOR_ADJUSTMENT_PERCENT = 10;
+const DEFAULT_ANIMATION_DURATION_MS = 500;
+const DEFAULT_FLIP_DURATION_MS = 600;
+const DEFAULT_SLIDE_DURATION_MS = 300;
+
+/**
+ * Input for the useDiskAppearance hook
+ */
+export interface DiskAppearanceOptions {
+  /** Component name used as prefix in console warnings */
+  componentName: string;
+  size: FloppyDiskSize;
+  /** Measured size in pixels, used when `size` is 'fluid' */
+  fluidSize?: number;
+  label?: FloppyLabel;
+  theme: FloppyTheme;
+  animation: AnimationConfig;
+  /** Width divided by height of the media form factor @default 1 */
+  aspectRatio?: number;
+}
+
+/**
+ * Resolved sizing and theming values for a disk component
+ */
+export interface DiskAppearance {
+  /** Disk width in pixels */
+  sizeInPx: number;
+  /** Disk height in pixels, derived from the width and aspect ratio */
+  heightInPx: number;
+  /** Border thickness in pixels, derived from the shorter side */
+  borderThickness: number;
+  /** Theme merged over DEFAULT_THEME */
+  mergedTheme: FloppyTheme;
+  /** Generated label gradient, or null when gradients are disabled */
+  gradientConfig: GradientConfig | null;
+  /** CSS custom properties consumed by the component stylesheets */
+  cssVariables: CSSProperties;
+}
+
+/**
+ * Border thickness of a disk, derived from its shorter side so wide media
+ * (e.g. cassettes) don't get heavier outlines than square disks
+ * @param width - Disk width in pixels
+ * @param height - Disk height in pixels
+ * @returns Border thickness in whole pixels, at least 1
+ */
+export function getBorderThickness(width: number, height: number): number {
+  return Math.max(
+    BORDER_THICKNESS_MIN,
+    Math.round(Math.min(width, height) / BORDER_THICKNESS_DIVISOR),
+  );
+}
+
+/**
+ * Resolves size, theme, gradient and animation props into the CSS custom
+ * properties shared by every disk form factor (`--floppy-size`,
+ * `--floppy-color`, `--label-color`, ...), so all disk components look
+ * consistent when mixed in one collection.
+ *
+ * @param options - Size, label, theme and animation props of the component
+ * @returns Resolved appearance values and CSS variables
+ * @remarks This hook does not throw errors. Out-of-range sizes trigger a console warning.
+ */
+export function useDiskAppearance({
+  componentName,
+  size,
+  fluidSize,
+  label,
+  theme,
+  animation,
+  aspectRatio = 1,
+}: DiskAppearanceOptions): DiskAppearance {
+  let sizeInPx: number;
+  if (size === 'fluid') sizeInPx = fluidSize ?? SIZE_MAP.medium;
+  else sizeInPx = typeof size === 'number' ? size : SIZE_MAP[size];
+  const heightInPx = sizeInPx / aspectRatio;
+
+  // Runtime validation for custom size values
+  if (
+    typeof size === 'number' &&
+    (size < SIZE_WARNING_MIN || size > SIZE_WARNING_MAX)
+  ) {
+    console.warn(
+      `${componentName}: size ${size}px is outside recommended range (${SIZE_WARNING_MIN}-${SIZE_WARNING_MAX}px). This may cause rendering issues or poor performance. Consider using predefined sizes: 'tiny', 'small', 'medium', 'large', or 'hero'.`,
+    );
+  }
+
+  const mergedTheme = { ...DEFAULT_THEME, ...theme };
+
+  const borderThickness = getBorderThickness(sizeInPx, heightInPx);
+
+  // Generate gradient if enabled (memoized for performance)
+  const gradientConfig = useMemo(() => {
+    if (mergedTheme.enableGradient && label?.name) {
+      return generateLabelGradient(
+        label.name,
+        mergedTheme.gradientType || 'auto',
+        mergedTheme.gradientOptions,
+      );
+    }
+    return null;
+  }, [
+    mergedTheme.enableGradient,
+    mergedTheme.gradientType,
+    mergedTheme.gradientOptions,
+    label,
+  ]);
+
+  const cssVariables: CSSProperties = {
+    '--floppy-size': `${sizeInPx}px`,
+    '--floppy-height': `${heightInPx}px`,
+    '--floppy-border': `${borderThickness}px`,
+    '--floppy-color': mergedTheme.diskColor,
+    '--floppy-highlight': lightenColor(
+      mergedTheme.diskColor || DEFAULT_THEME.diskColor!,
+      COLOR_ADJUSTMENT_PERCENT,
+    ),
+    '--floppy-shadow': darkenColor(
+      mergedTheme.diskColor || DEFAULT_THEME.diskColor!,
+      COLOR_ADJUSTMENT_PERCENT,
+    ),
+    '--slide-color': mergedTheme.slideColor,
+    '--bg-color': mergedTheme.backgroundColor,
+    '--label-color': gradientConfig
+      ? gradientConfig.gradient
+      : mergedTheme.labelColor,
+    '--label-text-color': gradientConfig
+      ? gradientConfig.textColor
+      : mergedTheme.labelTextColor,
+    '--label-text-shadow': gradientConfig ? gradientConfig.textShadow : 'none',
+    '--animation-duration': animation.disableAnimations
+      ? '0ms'
+      : `${animation.hoverDuration || DEFAULT_ANIMATION_DURATION_MS}ms`,
+    '--slide-duration': animation.disableAnimations
+      ? '0ms'
+      : `${animation.slideDuration || DEFAULT_SLIDE_DURATION_MS}ms`,
+    '--flip-duration': animation.disableAnimations
+      ? '0ms'
+      : `${animation.flipDuration || DEFAULT_FLIP_DURATION_MS}ms`,
+    '--animation-easing': animation.easing || 'linear',
+  } as CSSProperties;
+
+  return {
+    sizeInPx,
+    heightInPx,
+    borderThickness,
+    mergedTheme,
+    gradientConfig,
+    cssVariables,
+  };
+}
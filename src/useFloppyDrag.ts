@@ -0,0 +1,278 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DragSession,
+  FLOPPY_DRAG_MIME,
+  FloppyDragMode,
+  FloppyDragPayload,
+  beginDragSession,
+  dropOnZone,
+  endDragSession,
+  findDropZoneAt,
+  getDragSession,
+  setHoveredZone,
+} from './dragAndDrop';
+
+// Pointer travel in px before a touch/pen press becomes a drag
+const POINTER_DRAG_THRESHOLD_PX = 8;
+const PREVIEW_Z_INDEX = '1000';
+const PREVIEW_OPACITY = '0.85';
+
+/**
+ * Input for the useFloppyDrag hook
+ */
+export interface FloppyDragOptions {
+  /** Whether the disk can be dragged */
+  enabled: boolean;
+  /** Disabled disks cannot be dragged */
+  disabled: boolean;
+  payload: FloppyDragPayload;
+  /** Class added to the pointer drag preview (a clone of the disk) */
+  previewClassName: string;
+  onDragStart?: (payload: FloppyDragPayload) => void;
+  onDragEnd?: (payload: FloppyDragPayload, dropped: boolean) => void;
+}
+
+/**
+ * Drag state and event handlers for a disk element
+ */
+export interface FloppyDrag {
+  /** Whether this disk is being dragged (any mode) */
+  isDragging: boolean;
+  /** Whether this disk was picked up with the keyboard */
+  isPickedUp: boolean;
+  /** Props to spread on the disk root element */
+  dragProps: Pick<
+    React.HTMLAttributes<HTMLElement>,
+    | 'draggable'
+    | 'onDragStart'
+    | 'onDragEnd'
+    | 'onPointerDown'
+    | 'onPointerMove'
+    | 'onPointerUp'
+    | 'onPointerCancel'
+  >;
+  /**
+   * Handles Ctrl/Cmd+Enter (pick up / put back) and Escape.
+   * @returns true when the event was consumed
+   */
+  handleDragKeyDown: (event: React.KeyboardEvent<HTMLElement>) => boolean;
+  /**
+   * Returns true once after a pointer drag, so the click the browser fires on
+   * release doesn't activate the disk.
+   */
+  consumeDragClick: () => boolean;
+}
+
+interface PointerDragState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  offsetX: number;
+  offsetY: number;
+  preview: HTMLElement | null;
+}
+
+/**
+ * HTML5, pointer (touch/pen) and keyboard drag support for a disk.
+ *
+ * Mouse drags use native HTML5 drag-and-drop with the disk itself as drag
+ * image and the payload as JSON under FLOPPY_DRAG_MIME. Touch and pen drags
+ * follow the pointer with a clone of the disk and drop on the
+ * FloppyDropZone under the finger. Keyboard users pick a disk up with
+ * Ctrl/Cmd+Enter and drop it with Enter or Space on a focused drop zone.
+ *
+ * @param options - Drag enablement, payload and callbacks
+ * @returns Drag state, props for the root element and key handling
+ */
+export function useFloppyDrag({
+  enabled,
+  disabled,
+  payload,
+  previewClassName,
+  onDragStart,
+  onDragEnd,
+}: FloppyDragOptions): FloppyDrag {
+  const [dragMode, setDragMode] = useState<FloppyDragMode | null>(null);
+  const pointerDragRef = useRef<PointerDragState | null>(null);
+  const suppressClickRef = useRef(false);
+  // Session started by this disk, to end it if the disk unmounts mid-drag
+  const sessionRef = useRef<DragSession | null>(null);
+  const canDrag = enabled && !disabled;
+
+  useEffect(
+    () => () => {
+      pointerDragRef.current?.preview?.remove();
+      pointerDragRef.current = null;
+      if (sessionRef.current && getDragSession() === sessionRef.current) {
+        endDragSession(false);
+      }
+    },
+    [],
+  );
+
+  const begin = (mode: FloppyDragMode) => {
+    setDragMode(mode);
+    if (onDragStart) onDragStart(payload);
+    const session: DragSession = {
+      payload,
+      mode,
+      onEnd: (dropped) => {
+        sessionRef.current = null;
+        setDragMode(null);
+        if (onDragEnd) onDragEnd(payload, dropped);
+      },
+    };
+    sessionRef.current = session;
+    beginDragSession(session);
+  };
+
+  const removePreview = () => {
+    const preview = pointerDragRef.current?.preview;
+    if (preview) preview.remove();
+    pointerDragRef.current = null;
+  };
+
+  const handleDragStart: React.DragEventHandler<HTMLElement> = (event) => {
+    if (!canDrag) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    event.dataTransfer.effectAllowed = 'move';
+    // React nodes (e.g. label.image) cannot be serialized; drop them
+    event.dataTransfer.setData(
+      FLOPPY_DRAG_MIME,
+      JSON.stringify(payload, (_key, value) =>
+        React.isValidElement(value) ? undefined : value,
+      ),
+    );
+    event.dataTransfer.setData('text/plain', payload.label?.name || '');
+    // Use the disk itself (not a hover-transformed snapshot) as preview
+    if (event.dataTransfer.setDragImage) {
+      event.dataTransfer.setDragImage(
+        event.currentTarget,
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+      );
+    }
+    begin('html5');
+  };
+
+  const handleDragEnd: React.DragEventHandler<HTMLElement> = (event) => {
+    if (getDragSession()?.mode === 'html5') {
+      endDragSession(event.dataTransfer.dropEffect !== 'none');
+    }
+  };
+
+  const handlePointerDown: React.PointerEventHandler<HTMLElement> = (event) => {
+    // Browsers may skip the click after a touch drag; a new press must not
+    // be swallowed in its place
+    suppressClickRef.current = false;
+    // Mouse drags use native HTML5 drag-and-drop
+    if (!canDrag || event.pointerType === 'mouse') return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    pointerDragRef.current = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      offsetX: event.clientX - rect.left,
+      offsetY: event.clientY - rect.top,
+      preview: null,
+    };
+  };
+
+  const handlePointerMove: React.PointerEventHandler<HTMLElement> = (event) => {
+    const state = pointerDragRef.current;
+    if (!state || state.pointerId !== event.pointerId) return;
+
+    if (!state.preview) {
+      const distance = Math.hypot(
+        event.clientX - state.startX,
+        event.clientY - state.startY,
+      );
+      if (distance < POINTER_DRAG_THRESHOLD_PX) return;
+
+      const preview = event.currentTarget.cloneNode(true) as HTMLElement;
+      preview.classList.add(previewClassName);
+      preview.setAttribute('aria-hidden', 'true');
+      preview.removeAttribute('tabindex');
+      preview.style.position = 'fixed';
+      preview.style.margin = '0';
+      preview.style.pointerEvents = 'none';
+      preview.style.zIndex = PREVIEW_Z_INDEX;
+      preview.style.opacity = PREVIEW_OPACITY;
+      document.body.appendChild(preview);
+      state.preview = preview;
+
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      begin('pointer');
+    }
+
+    state.preview.style.left = `${event.clientX - state.offsetX}px`;
+    state.preview.style.top = `${event.clientY - state.offsetY}px`;
+    setHoveredZone(findDropZoneAt(event.clientX, event.clientY));
+  };
+
+  const handlePointerUp: React.PointerEventHandler<HTMLElement> = (event) => {
+    const state = pointerDragRef.current;
+    if (!state || state.pointerId !== event.pointerId) return;
+
+    const wasDragging = Boolean(state.preview);
+    removePreview();
+    if (wasDragging) {
+      suppressClickRef.current = true;
+      dropOnZone(findDropZoneAt(event.clientX, event.clientY));
+    }
+  };
+
+  const handlePointerCancel: React.PointerEventHandler<HTMLElement> = () => {
+    const wasDragging = Boolean(pointerDragRef.current?.preview);
+    removePreview();
+    if (wasDragging) endDragSession(false);
+  };
+
+  const handleDragKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    if (!canDrag) return false;
+
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      if (dragMode === 'keyboard') {
+        endDragSession(false);
+      } else {
+        begin('keyboard');
+      }
+      return true;
+    }
+
+    if (event.key === 'Escape' && dragMode === 'keyboard') {
+      event.preventDefault();
+      endDragSession(false);
+      return true;
+    }
+
+    return false;
+  };
+
+  const consumeDragClick = () => {
+    const suppressed = suppressClickRef.current;
+    suppressClickRef.current = false;
+    return suppressed;
+  };
+
+  return {
+    isDragging: dragMode !== null,
+    isPickedUp: dragMode === 'keyboard',
+    dragProps: canDrag
+      ? {
+          draggable: true,
+          onDragStart: handleDragStart,
+          onDragEnd: handleDragEnd,
+          onPointerDown: handlePointerDown,
+          onPointerMove: handlePointerMove,
+          onPointerUp: handlePointerUp,
+          onPointerCancel: handlePointerCancel,
+        }
+      : {},
+    handleDragKeyDown,
+    consumeDragClick,
+  };
+}
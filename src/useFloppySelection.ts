@@ -0,0 +1,259 @@
+import React, { useRef } from 'react';
+import { FloppyDiskProps } from './types';
+import { useControllableState } from './useControllableState';
+import { isEditableTarget } from './shelfNavigation';
+
+// Keys that move the active disk in FloppyShelf / FloppyVirtualShelf
+const NAVIGATION_KEYS = [
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+];
+
+/**
+ * How clicks change the selection
+ * - `single`: a click selects only that disk
+ * - `multiple`: a click toggles the disk, like a checkbox list
+ * - `range`: like a file manager; a click selects only that disk,
+ *   Ctrl/Cmd+click toggles it
+ *
+ * Shift+click, Shift+Space and Shift+Arrow select the range from the anchor
+ * (the last disk clicked without Shift) in `multiple` and `range` modes.
+ */
+export type FloppySelectionMode = 'single' | 'multiple' | 'range';
+
+/**
+ * Options for useFloppySelection
+ */
+export interface FloppySelectionOptions {
+  /** Ids of all disks in display order, used for ranges and select-all */
+  ids: string[];
+
+  /**
+   * Selection behavior
+   * @default 'range'
+   */
+  mode?: FloppySelectionMode;
+
+  /** Selected ids (controlled) */
+  selectedIds?: string[];
+
+  /**
+   * Initial selection when `selectedIds` is not controlled
+   * @default []
+   */
+  defaultSelectedIds?: string[];
+
+  /**
+   * Called whenever the selection changes
+   * @param selectedIds - Selected ids in display order
+   */
+  onSelectionChange?: (selectedIds: string[]) => void;
+}
+
+/**
+ * Props to spread on FloppyShelf or FloppyVirtualShelf
+ */
+export interface FloppySelectionShelfProps {
+  'aria-multiselectable': boolean;
+  onKeyDown: React.KeyboardEventHandler<HTMLElement>;
+  onActiveChange: (id: string) => void;
+}
+
+/**
+ * Props to spread on each disk (or shelf item)
+ */
+export interface FloppySelectionItemProps {
+  selected: boolean;
+  onClick: NonNullable<FloppyDiskProps['onClick']>;
+  onFocus: NonNullable<FloppyDiskProps['onFocus']>;
+}
+
+/**
+ * Selection state and actions returned by useFloppySelection
+ */
+export interface FloppySelection {
+  /** Selected ids in display order */
+  selectedIds: string[];
+  isSelected: (id: string) => boolean;
+  /** Selects only this disk */
+  select: (id: string) => void;
+  toggle: (id: string) => void;
+  selectAll: () => void;
+  clear: () => void;
+  getItemProps: (id: string) => FloppySelectionItemProps;
+  shelfProps: FloppySelectionShelfProps;
+}
+
+/**
+ * Selection model for disk collections.
+ *
+ * Produces `selected` / `onClick` / `onFocus` props for each disk and the
+ * `aria-multiselectable`, `onKeyDown` and `onActiveChange` props for a
+ * shelf, which then announces `aria-selected` on every disk. In a shelf,
+ * Space toggles the focused disk, Shift+Arrow extends the selection and
+ * Ctrl/Cmd+A selects all.
+ *
+ * To also handle clicks or focus yourself, call the returned handlers from
+ * your own, e.g. `getItemProps(id).onClick(event)`.
+ *
+ * @param options - Ids in display order, mode and (controlled) selection
+ * @returns Selection state, actions and props
+ *
+ * @example
+ * ```tsx
+ * const selection = useFloppySelection({ ids: games.map((game) => game.id) });
+ *
+ * <FloppyShelf
+ *   {...selection.shelfProps}
+ *   items={games.map((game) => ({
+ *     id: game.id,
+ *     label: { name: game.title },
+ *     ...selection.getItemProps(game.id),
+ *   }))}
+ * />
+ * ```
+ */
+export function useFloppySelection({
+  ids,
+  mode = 'range',
+  selectedIds,
+  defaultSelectedIds = [],
+  onSelectionChange,
+}: FloppySelectionOptions): FloppySelection {
+  const [currentSelectedIds, setSelectedIds] = useControllableState<string[]>(
+    selectedIds,
+    defaultSelectedIds,
+    onSelectionChange,
+  );
+
+  // Start of Shift ranges: the last disk selected or toggled without Shift
+  const anchorRef = useRef<string | null>(null);
+  // Last focused disk, and whether Shift+Arrow is moving focus away from it
+  const activeIdRef = useRef<string | null>(null);
+  const extendOnActiveChangeRef = useRef(false);
+
+  const isMultiple = mode !== 'single';
+  const selectedSet = new Set(currentSelectedIds);
+
+  // Keeps the selection in display order and drops unknown ids
+  const commit = (next: Set<string>) => {
+    setSelectedIds(ids.filter((id) => next.has(id)));
+  };
+
+  const select = (id: string) => {
+    anchorRef.current = id;
+    commit(new Set([id]));
+  };
+
+  const toggle = (id: string) => {
+    anchorRef.current = id;
+    if (!isMultiple) {
+      commit(new Set(selectedSet.has(id) ? [] : [id]));
+      return;
+    }
+    const next = new Set(selectedSet);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    commit(next);
+  };
+
+  const selectAll = () => {
+    if (isMultiple) commit(new Set(ids));
+  };
+
+  const clear = () => {
+    anchorRef.current = null;
+    commit(new Set());
+  };
+
+  const extendTo = (id: string, additive: boolean) => {
+    const anchor = anchorRef.current ?? activeIdRef.current ?? id;
+    anchorRef.current = anchor;
+
+    const anchorIndex = ids.indexOf(anchor);
+    const targetIndex = ids.indexOf(id);
+    if (anchorIndex === -1 || targetIndex === -1) {
+      select(id);
+      return;
+    }
+
+    const start = Math.min(anchorIndex, targetIndex);
+    const end = Math.max(anchorIndex, targetIndex);
+    const next = new Set(additive ? selectedSet : []);
+    ids.slice(start, end + 1).forEach((rangeId) => next.add(rangeId));
+    commit(next);
+  };
+
+  const getItemProps = (id: string): FloppySelectionItemProps => ({
+    selected: selectedSet.has(id),
+    onClick: (event) => {
+      const isToggleKey = event.ctrlKey || event.metaKey;
+      const isSpace = 'key' in event && event.key === ' ';
+
+      if (isMultiple && event.shiftKey) {
+        extendTo(id, mode === 'multiple' || isToggleKey);
+      } else if (mode === 'multiple' || isToggleKey || isSpace) {
+        toggle(id);
+      } else {
+        select(id);
+      }
+    },
+    onFocus: (isFocused) => {
+      if (isFocused) activeIdRef.current = id;
+    },
+  });
+
+  const handleShelfKeyDown: React.KeyboardEventHandler<HTMLElement> = (
+    event,
+  ) => {
+    // Ctrl+A and Shift+arrows select text while a label is being edited
+    if (isEditableTarget(event.target)) return;
+
+    if (
+      isMultiple &&
+      (event.ctrlKey || event.metaKey) &&
+      event.key.toLowerCase() === 'a'
+    ) {
+      event.preventDefault();
+      selectAll();
+      return;
+    }
+
+    if (isMultiple && event.shiftKey && NAVIGATION_KEYS.includes(event.key)) {
+      // The shelf moves the active disk synchronously in this same event
+      extendOnActiveChangeRef.current = true;
+      Promise.resolve().then(() => {
+        extendOnActiveChangeRef.current = false;
+      });
+    }
+  };
+
+  const handleActiveChange = (id: string) => {
+    if (extendOnActiveChangeRef.current) {
+      extendOnActiveChangeRef.current = false;
+      extendTo(id, mode === 'multiple');
+    }
+    activeIdRef.current = id;
+  };
+
+  return {
+    selectedIds: currentSelectedIds,
+    isSelected: (id) => selectedSet.has(id),
+    select,
+    toggle,
+    selectAll,
+    clear,
+    getItemProps,
+    shelfProps: {
+      'aria-multiselectable': isMultiple,
+      onKeyDown: handleShelfKeyDown,
+      onActiveChange: handleActiveChange,
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { RefObject, useLayoutEffect, useState } from 'react';
+import { SIZE_MAP } from './types';
+import { getBorderThickness } from './useDiskAppearance';
+
+/**
+ * Input for the useFluidSize hook
+ */
+export interface FluidSizeOptions {
+  /** Measure only while true, i.e. when `size` is 'fluid' */
+  enabled: boolean;
+  /** Root element of the disk; the content width of its parent is filled */
+  elementRef: RefObject<HTMLElement | null>;
+  /** Smallest size in pixels @default SIZE_MAP.tiny */
+  minSize?: number;
+  /** Largest size in pixels @default Infinity */
+  maxSize?: number;
+  /** Width divided by height of the media form factor @default 1 */
+  aspectRatio?: number;
+}
+
+/**
+ * Clamps a fluid size to its bounds. As with CSS min-width and max-width,
+ * `minSize` wins when the bounds cross.
+ */
+export function clampFluidSize(
+  size: number,
+  minSize: number = SIZE_MAP.tiny,
+  maxSize: number = Infinity,
+): number {
+  return Math.max(minSize, Math.min(maxSize, size));
+}
+
+/**
+ * Measures the width available to a disk with `size="fluid"`, so that the
+ * disk (including its border) fills the content box of its parent element.
+ *
+ * Until the parent has been measured, e.g. during server rendering, the disk
+ * uses the 'medium' size within the bounds. The size follows the parent with
+ * ResizeObserver (window resize events where unavailable); a hidden parent
+ * (zero width) keeps the last measured size.
+ *
+ * @param options - Bounds, form factor and the disk's root element
+ * @returns Disk size in whole pixels
+ * @remarks This hook does not throw errors. It never reads the DOM during render.
+ */
+export function useFluidSize({
+  enabled,
+  elementRef,
+  minSize,
+  maxSize,
+  aspectRatio = 1,
+}: FluidSizeOptions): number {
+  const [availableWidth, setAvailableWidth] = useState<number | null>(null);
+
+  useLayoutEffect(() => {
+    const parent = elementRef.current?.parentElement;
+    if (!enabled || !parent) return undefined;
+
+    const measure = () => {
+      const parentStyle = window.getComputedStyle(parent);
+      const width =
+        parent.clientWidth -
+        (parseFloat(parentStyle.paddingLeft) || 0) -
+        (parseFloat(parentStyle.paddingRight) || 0);
+      if (width > 0) setAvailableWidth(width);
+    };
+
+    measure();
+    const ResizeObserverClass = window.ResizeObserver;
+    if (typeof ResizeObserverClass === 'function') {
+      const observer = new ResizeObserverClass(measure);
+      observer.observe(parent);
+      return () => observer.disconnect();
+    }
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [enabled, elementRef]);
+
+  if (availableWidth === null) {
+    return clampFluidSize(SIZE_MAP.medium, minSize, maxSize);
+  }
+
+  // The border is drawn outside --floppy-size, so leave room for it
+  const border = getBorderThickness(
+    availableWidth,
+    availableWidth / aspectRatio,
+  );
+  return clampFluidSize(
+    Math.floor(availableWidth - border * 2),
+    minSize,
+    maxSize,
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useMemo, useRef } from 'react';
+import { FloppyShelfItem } from './types';
+import {
+  TYPE_AHEAD_TIMEOUT_MS,
+  findTypeAheadMatch,
+  getNavigationIndex,
+  isEditableTarget,
+} from './shelfNavigation';
+
+/**
+ * Input for the useShelfKeyboard hook
+ */
+export interface ShelfKeyboardOptions {
+  items: FloppyShelfItem[];
+  /** Index of the item holding the tab stop */
+  activeIndex: number;
+  /** Items per row at the time of the key press (1 for lists) */
+  getColumns: () => number;
+  /** Rows moved by PageUp / PageDown */
+  pageRows: number;
+  /** Activates and focuses the item at an index */
+  moveTo: (index: number) => void;
+  /** Consumer handler, called first; preventDefault() skips shelf handling */
+  onKeyDown?: React.KeyboardEventHandler<HTMLElement>;
+}
+
+/**
+ * Arrow/Home/End/Page navigation and type-ahead for disk collections.
+ *
+ * Returns a capture-phase keydown handler for the collection root, so
+ * navigation and letter keys take precedence over the keyboard shortcuts of
+ * the focused disk (O, F). Keys typed into text fields inside the collection
+ * (e.g. an editable label) are left alone.
+ *
+ * @param options - Items, active index, layout and focus callback
+ * @returns keydown handler to pass as `onKeyDownCapture`
+ */
+export function useShelfKeyboard({
+  items,
+  activeIndex,
+  getColumns,
+  pageRows,
+  moveTo,
+  onKeyDown,
+}: ShelfKeyboardOptions): React.KeyboardEventHandler<HTMLElement> {
+  const typeAheadRef = useRef({ query: '', time: 0 });
+
+  const itemNames = useMemo(
+    () => items.map((item) => item.label?.name),
+    [items],
+  );
+
+  const handleTypeAhead = (char: string) => {
+    const now = Date.now();
+    const typeAhead = typeAheadRef.current;
+    typeAhead.query =
+      now - typeAhead.time > TYPE_AHEAD_TIMEOUT_MS
+        ? char
+        : typeAhead.query + char;
+    typeAhead.time = now;
+
+    const match = findTypeAheadMatch(itemNames, typeAhead.query, activeIndex);
+    if (match !== null) moveTo(match);
+  };
+
+  return (event) => {
+    if (onKeyDown) onKeyDown(event);
+    if (event.defaultPrevented || event.altKey) return;
+    // Letters and arrows belong to the caret while a label is being edited
+    if (isEditableTarget(event.target)) return;
+
+    const isPrintable =
+      event.key.length === 1 &&
+      event.key !== ' ' &&
+      !event.ctrlKey &&
+      !event.metaKey;
+    if (isPrintable) {
+      event.stopPropagation();
+      handleTypeAhead(event.key);
+      return;
+    }
+
+    const nextIndex = getNavigationIndex(event.key, {
+      index: activeIndex,
+      count: items.length,
+      columns: getColumns(),
+      pageRows,
+      ctrlKey: event.ctrlKey || event.metaKey,
+    });
+    if (nextIndex === null) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    moveTo(nextIndex);
+  };
+}